@@ -0,0 +1,677 @@
+'use strict';
+
+/* Dependencies */
+import { AxiosRequestConfig, AxiosResponse } from 'axios';
+import type {
+	QuickBase,
+	QuickBaseAuthError,
+	QuickBaseRequestExchangeSsoToken,
+	QuickBaseResponseExchangeSsoToken,
+	QuickBaseResponseGetTempTokenDBID
+} from './quickbase';
+
+/* Types */
+export type QuickBaseAuthContext = {
+	/**
+	 * The `QuickBase` instance sending the request, used to fetch new tokens
+	 */
+	quickbase: QuickBase;
+
+	/**
+	 * The Quickbase API operation ID, such as `runQuery`
+	 */
+	operationId: string;
+
+	/**
+	 * The request configuration
+	 */
+	config: AxiosRequestConfig;
+
+	/**
+	 * Send an authentication request, such as `getTempTokenDBID`, outside of middleware and the
+	 * connection limit so it isn't queued behind the requests waiting on it
+	 */
+	request<T = any>(operationId: string, config: AxiosRequestConfig): Promise<AxiosResponse<T>>;
+};
+
+export type QuickBaseAuthProvider = {
+	/**
+	 * Resolve the headers to authenticate a request with, such as `Authorization` and `QB-App-Token`
+	 */
+	getHeaders(context: QuickBaseAuthContext): Promise<Record<string, string>>;
+
+	/**
+	 * Fetch or reload the credentials used for the request
+	 */
+	refresh(context: QuickBaseAuthContext): Promise<void>;
+
+	/**
+	 * Called when a request fails with a `QuickBaseAuthError`, resolve with `true` to send the request again
+	 */
+	onUnauthorized(error: QuickBaseAuthError, context: QuickBaseAuthContext): Promise<boolean>;
+};
+
+/**
+ * A token, or a function that loads it, for example from a secrets manager
+ */
+export type QuickBaseTokenSupplier = string | (() => string | Promise<string>);
+
+export type QuickBaseUserTokenAuthOptions = {
+	/**
+	 * The Quickbase User Token, loaded again when a request is rejected if a function
+	 */
+	userToken: QuickBaseTokenSupplier;
+};
+
+export type QuickBaseTempTokenCacheOptions = {
+	/**
+	 * How long temporary tokens are valid for, in milliseconds
+	 *
+	 * Default is `300000` (5 minutes)
+	 */
+	lifetime?: number;
+
+	/**
+	 * How long before a token expires to renew it, in milliseconds
+	 *
+	 * Default is `30000`
+	 */
+	renewBefore?: number;
+};
+
+export type QuickBaseTempTokenAuthOptions = QuickBaseTempTokenCacheOptions & {
+	/**
+	 * A Quickbase Application Token
+	 */
+	appToken?: string;
+
+	/**
+	 * The application or table ID to get temporary tokens for
+	 *
+	 * Defaults to the table or application the request is for, such as the `tableId` of `runQuery`.
+	 */
+	dbid?: string | ((config: AxiosRequestConfig) => string | undefined);
+
+	/**
+	 * Temporary tokens already issued, keyed by application or table ID
+	 */
+	tempTokens?: Record<string, string>;
+};
+
+export type QuickBaseSsoAuthOptions = {
+	/**
+	 * The subject token to exchange, such as a base64url-encoded SAML 2.0 assertion
+	 *
+	 * A function is called for every exchange, so each exchange can use a newly issued assertion.
+	 */
+	subjectToken: QuickBaseTokenSupplier;
+
+	/**
+	 * The type of the subject token
+	 *
+	 * Default is `urn:ietf:params:oauth:token-type:saml2`
+	 */
+	subjectTokenType?: string;
+
+	/**
+	 * The type of token to request, only temporary tokens can authenticate RESTful API requests. Use
+	 * `exchangeSsoToken` directly for temporary tickets for the XML and SCIM APIs
+	 *
+	 * Default is `urn:quickbase:params:oauth:token-type:temp_token`
+	 */
+	requestedTokenType?: QuickBaseRequestExchangeSsoToken['requested_token_type'];
+
+	/**
+	 * How long issued tokens are valid for, in milliseconds, the realm's SAML session timeout. Tokens
+	 * are exchanged again once expired, or when rejected if not set
+	 */
+	lifetime?: number;
+
+	/**
+	 * A Quickbase Application Token
+	 */
+	appToken?: string;
+};
+
+export type QuickBaseSsoSession = {
+	/**
+	 * The issued temporary token or ticket
+	 */
+	token: string;
+
+	issuedTokenType: QuickBaseResponseExchangeSsoToken['issued_token_type'];
+
+	/**
+	 * When the token expires, in milliseconds since the epoch, if `lifetime` is set
+	 */
+	expires?: number;
+};
+
+/* Helpers */
+const TEMP_TOKEN_OPERATION = 'getTempTokenDBID';
+const SSO_TOKEN_OPERATION = 'exchangeSsoToken';
+const SSO_TEMP_TOKEN = 'urn:quickbase:params:oauth:token-type:temp_token';
+
+const resolveToken = async (supplier: QuickBaseTokenSupplier): Promise<string> => {
+	return typeof(supplier) === 'function' ? await supplier() : supplier;
+};
+
+/**
+ * Test if a request was sent with a temporary token, `true` if the token is unknown
+ *
+ * @param config Request configuration
+ * @param tempToken Temporary Quickbase Authentication Token
+ */
+export const isSentWithTempToken = (config: AxiosRequestConfig, tempToken?: string): boolean => {
+	return !tempToken || !config.headers || config.headers.Authorization === `QB-TEMP-TOKEN ${tempToken}`;
+};
+
+/**
+ * Find the application or table a request is for, from its parameters, body or URL
+ *
+ * @param config Request configuration
+ */
+export const getRequestDbid = ({ url, params, data }: AxiosRequestConfig): string | undefined => {
+	if(params && params.tableId){
+		return params.tableId;
+	}
+
+	if(data && typeof(data) === 'object' && (data.to || data.from)){
+		return data.to || data.from;
+	}
+
+	const match = (url || '').match(/^\/?(?:apps|tables|files)\/([^/?]+)/);
+
+	if(match){
+		return match[1];
+	}
+
+	return params && params.appId ? params.appId : undefined;
+};
+
+/**
+ * Test if an authorization error means the token itself was rejected, as an expired or invalid token,
+ * rather than the user lacking permission
+ *
+ * @param error Quickbase authorization error
+ */
+export const isTokenRejected = (error: QuickBaseAuthError): boolean => {
+	const description = '' + (error.description || '');
+
+	return !!(
+		description.match(/Your ticket has expired/i)
+		||
+		description.match(/Invalid Authorization/i)
+		||
+		description.match(/Required header 'authorization' not found/i)
+	);
+};
+
+/* Temporary Token Cache */
+export class QuickBaseTempTokenCache {
+
+	public readonly CLASS_NAME: string = 'QuickBaseTempTokenCache';
+	static readonly CLASS_NAME: string = 'QuickBaseTempTokenCache';
+
+	public lifetime: number;
+	public renewBefore: number;
+
+	private tokens: Map<string, { token: string; expires: number; }> = new Map();
+	private renewals: Map<string, Promise<string>> = new Map();
+
+	/**
+	 * Temporary tokens keyed by application or table ID, with their expiry
+	 *
+	 * Example:
+	 * ```typescript
+	 * const cache = new QuickBaseTempTokenCache();
+	 *
+	 * cache.set('xxxxxxxxx', 'xxxx.xxx[...]xxx');
+	 *
+	 * if(cache.needsRenewal('xxxxxxxxx')){
+	 * 	// ...
+	 * }
+	 * ```
+	 *
+	 * @param options Cache options
+	 */
+	constructor(options: QuickBaseTempTokenCacheOptions = {}) {
+		this.lifetime = options.lifetime ?? 300000;
+		this.renewBefore = options.renewBefore ?? 30000;
+	}
+
+	/**
+	 * Store the temporary token of an application or table
+	 *
+	 * @param dbid Quickbase Application ID or Table ID
+	 * @param token Temporary Quickbase Authentication Token
+	 * @param issued When the token was issued, in milliseconds since the epoch
+	 */
+	set(dbid: string, token: string, issued: number = Date.now()): QuickBaseTempTokenCache {
+		this.tokens.set(dbid, {
+			token,
+			expires: issued + this.lifetime
+		});
+
+		return this;
+	}
+
+	/**
+	 * Get the temporary token of an application or table, even if expired
+	 *
+	 * @param dbid Quickbase Application ID or Table ID
+	 */
+	get(dbid: string): string | undefined {
+		const entry = this.tokens.get(dbid);
+
+		return entry ? entry.token : undefined;
+	}
+
+	/**
+	 * Test if a temporary token is stored for an application or table
+	 *
+	 * @param dbid Quickbase Application ID or Table ID
+	 */
+	has(dbid: string): boolean {
+		return this.tokens.has(dbid);
+	}
+
+	/**
+	 * Test if the temporary token of an application or table is missing, or expires within `renewBefore`
+	 *
+	 * @param dbid Quickbase Application ID or Table ID
+	 */
+	needsRenewal(dbid: string): boolean {
+		const entry = this.tokens.get(dbid);
+
+		return !entry || entry.expires - Date.now() <= this.renewBefore;
+	}
+
+	/**
+	 * Fetch and store a new temporary token for an application or table
+	 *
+	 * Concurrent renewals of the same application or table share a single `fetchToken` call.
+	 *
+	 * @param dbid Quickbase Application ID or Table ID
+	 * @param fetchToken Fetches the new token
+	 */
+	renew(dbid: string, fetchToken: () => Promise<string>): Promise<string> {
+		let renewal = this.renewals.get(dbid);
+
+		if(!renewal){
+			renewal = (async () => {
+				try {
+					const token = await fetchToken();
+
+					this.set(dbid, token);
+
+					return token;
+				}finally{
+					this.renewals.delete(dbid);
+				}
+			})();
+
+			this.renewals.set(dbid, renewal);
+		}
+
+		return renewal;
+	}
+
+	/**
+	 * Wait for an in-flight renewal of an application or table to finish, if any
+	 *
+	 * @param dbid Quickbase Application ID or Table ID
+	 */
+	async waitForRenewal(dbid: string): Promise<void> {
+		const renewal = this.renewals.get(dbid);
+
+		if(renewal){
+			try {
+				await renewal;
+			}catch(err){
+				// The request that started the renewal surfaces the error
+			}
+		}
+	}
+
+	/**
+	 * Remove the temporary token of an application or table
+	 *
+	 * @param dbid Quickbase Application ID or Table ID
+	 */
+	delete(dbid: string): boolean {
+		return this.tokens.delete(dbid);
+	}
+
+	/**
+	 * Test if a variable is a `QuickBaseTempTokenCache` object
+	 *
+	 * @param obj A variable you'd like to test
+	 */
+	static IsQuickBaseTempTokenCache(obj: any): obj is QuickBaseTempTokenCache {
+		return ((obj || {}) as QuickBaseTempTokenCache).CLASS_NAME === QuickBaseTempTokenCache.CLASS_NAME;
+	}
+
+}
+
+/* Auth Providers */
+export class QuickBaseUserTokenAuth implements QuickBaseAuthProvider {
+
+	public readonly CLASS_NAME: string = 'QuickBaseUserTokenAuth';
+	static readonly CLASS_NAME: string = 'QuickBaseUserTokenAuth';
+
+	private userToken: QuickBaseTokenSupplier;
+	private token: string | undefined;
+
+	/**
+	 * Authenticate with a Quickbase User Token
+	 *
+	 * If `userToken` is a function, it's called on the first request and again whenever a request is
+	 * rejected, so a rotated token is picked up without rebuilding the `QuickBase` instance.
+	 *
+	 * Example:
+	 * ```typescript
+	 * const qb = new QuickBase({
+	 * 	realm: 'www',
+	 * 	auth: new QuickBaseUserTokenAuth({
+	 * 		userToken: async () => await secrets.get('quickbase-user-token')
+	 * 	})
+	 * });
+	 * ```
+	 *
+	 * @param options User token options
+	 */
+	constructor(options: QuickBaseUserTokenAuthOptions) {
+		this.userToken = options.userToken;
+	}
+
+	async getHeaders({ operationId }: QuickBaseAuthContext): Promise<Record<string, string>> {
+		// Temporary tokens are issued for the browser session
+		if(operationId === TEMP_TOKEN_OPERATION){
+			return {};
+		}
+
+		if(this.token === undefined){
+			this.token = await resolveToken(this.userToken);
+		}
+
+		return {
+			Authorization: `QB-USER-TOKEN ${this.token}`
+		};
+	}
+
+	async refresh(): Promise<void> {
+		this.token = await resolveToken(this.userToken);
+	}
+
+	async onUnauthorized(): Promise<boolean> {
+		if(typeof(this.userToken) !== 'function'){
+			return false;
+		}
+
+		const previous = this.token;
+
+		await this.refresh();
+
+		return this.token !== previous;
+	}
+
+	/**
+	 * Test if a variable is a `QuickBaseUserTokenAuth` object
+	 *
+	 * @param obj A variable you'd like to test
+	 */
+	static IsQuickBaseUserTokenAuth(obj: any): obj is QuickBaseUserTokenAuth {
+		return ((obj || {}) as QuickBaseUserTokenAuth).CLASS_NAME === QuickBaseUserTokenAuth.CLASS_NAME;
+	}
+
+}
+
+export class QuickBaseTempTokenAuth implements QuickBaseAuthProvider {
+
+	public readonly CLASS_NAME: string = 'QuickBaseTempTokenAuth';
+	static readonly CLASS_NAME: string = 'QuickBaseTempTokenAuth';
+
+	/**
+	 * The temporary tokens issued so far
+	 */
+	public readonly tempTokens: QuickBaseTempTokenCache;
+
+	private appToken: string | undefined;
+	private dbid: QuickBaseTempTokenAuthOptions['dbid'];
+
+	/**
+	 * Authenticate with Temporary Tokens, one per application or table
+	 *
+	 * Tokens are fetched with `getTempTokenDBID` the first time an application or table is used, renewed
+	 * before they expire and fetched again when rejected. `getTempTokenDBID` relies on the browser
+	 * session, so this is for code pages.
+	 *
+	 * Example:
+	 * ```typescript
+	 * const qb = new QuickBase({
+	 * 	realm: 'www',
+	 * 	auth: new QuickBaseTempTokenAuth({
+	 * 		appToken: 'xxxxxxxxxxxxxxxxxxxxxxxxxx'
+	 * 	})
+	 * });
+	 * ```
+	 *
+	 * @param options Temporary token options
+	 */
+	constructor(options: QuickBaseTempTokenAuthOptions = {}) {
+		this.appToken = options.appToken;
+		this.dbid = options.dbid;
+		this.tempTokens = new QuickBaseTempTokenCache(options);
+
+		Object.entries(options.tempTokens || {}).forEach(([ dbid, tempToken ]) => {
+			this.tempTokens.set(dbid, tempToken);
+		});
+	}
+
+	private getDbid(config: AxiosRequestConfig): string | undefined {
+		if(typeof(this.dbid) === 'function'){
+			return this.dbid(config);
+		}
+
+		return this.dbid || getRequestDbid(config);
+	}
+
+	async getHeaders(context: QuickBaseAuthContext): Promise<Record<string, string>> {
+		const headers: Record<string, string> = {};
+
+		if(this.appToken){
+			headers['QB-App-Token'] = this.appToken;
+		}
+
+		const dbid = context.operationId === TEMP_TOKEN_OPERATION ? undefined : this.getDbid(context.config);
+
+		if(!dbid){
+			return headers;
+		}
+
+		await this.tempTokens.waitForRenewal(dbid);
+
+		if(this.tempTokens.needsRenewal(dbid)){
+			await this.refresh(context);
+		}
+
+		headers.Authorization = `QB-TEMP-TOKEN ${this.tempTokens.get(dbid)}`;
+
+		return headers;
+	}
+
+	async refresh(context: QuickBaseAuthContext): Promise<void> {
+		const dbid = this.getDbid(context.config);
+
+		if(!dbid){
+			throw new Error(`Unable to find the application or table ID of ${context.operationId || context.config.url}`);
+		}
+
+		await this.tempTokens.renew(dbid, async () => {
+			const results = await context.request<QuickBaseResponseGetTempTokenDBID>(TEMP_TOKEN_OPERATION, {
+				url: `/auth/temporary/${dbid}`,
+				withCredentials: true
+			});
+
+			return results.data.temporaryAuthorization;
+		});
+	}
+
+	async onUnauthorized(error: QuickBaseAuthError, context: QuickBaseAuthContext): Promise<boolean> {
+		const dbid = this.getDbid(context.config);
+
+		if(context.operationId === TEMP_TOKEN_OPERATION || !dbid || !isTokenRejected(error)){
+			return false;
+		}
+
+		// Another request already renewed the token this request was sent with
+		if(!isSentWithTempToken(context.config, this.tempTokens.get(dbid))){
+			return true;
+		}
+
+		await this.refresh(context);
+
+		return true;
+	}
+
+	/**
+	 * Test if a variable is a `QuickBaseTempTokenAuth` object
+	 *
+	 * @param obj A variable you'd like to test
+	 */
+	static IsQuickBaseTempTokenAuth(obj: any): obj is QuickBaseTempTokenAuth {
+		return ((obj || {}) as QuickBaseTempTokenAuth).CLASS_NAME === QuickBaseTempTokenAuth.CLASS_NAME;
+	}
+
+}
+
+export class QuickBaseSsoAuth implements QuickBaseAuthProvider {
+
+	public readonly CLASS_NAME: string = 'QuickBaseSsoAuth';
+	static readonly CLASS_NAME: string = 'QuickBaseSsoAuth';
+
+	/**
+	 * The current session, set by the last exchange
+	 */
+	public session: QuickBaseSsoSession | undefined;
+
+	private options: QuickBaseSsoAuthOptions;
+	private exchange: Promise<QuickBaseSsoSession> | undefined;
+
+	/**
+	 * Authenticate with an SSO session, exchanging a subject token with `exchangeSsoToken`
+	 *
+	 * The subject token is exchanged on the first request, and again when the issued token expires or
+	 * is rejected. Concurrent requests share a single exchange. Issued temporary tokens are sent as
+	 * `QB-TEMP-TOKEN`.
+	 *
+	 * Example:
+	 * ```typescript
+	 * const qb = new QuickBase({
+	 * 	realm: 'www',
+	 * 	auth: new QuickBaseSsoAuth({
+	 * 		subjectToken: async () => await createSamlAssertion(user)
+	 * 	})
+	 * });
+	 * ```
+	 *
+	 * @param options SSO options
+	 */
+	constructor(options: QuickBaseSsoAuthOptions) {
+		if(options.requestedTokenType && options.requestedTokenType !== SSO_TEMP_TOKEN){
+			throw new TypeError(`requestedTokenType must be ${SSO_TEMP_TOKEN}, ${options.requestedTokenType} can not be used with the RESTful API`);
+		}
+
+		this.options = options;
+	}
+
+	private isExpired(): boolean {
+		return !this.session || (this.session.expires !== undefined && this.session.expires <= Date.now());
+	}
+
+	async getHeaders(context: QuickBaseAuthContext): Promise<Record<string, string>> {
+		const headers: Record<string, string> = {};
+
+		if(this.options.appToken){
+			headers['QB-App-Token'] = this.options.appToken;
+		}
+
+		if(context.operationId === SSO_TOKEN_OPERATION){
+			return headers;
+		}
+
+		if(this.exchange){
+			await this.exchange;
+		}else
+		if(this.isExpired()){
+			await this.refresh(context);
+		}
+
+		const session = this.session!;
+
+		if(session.issuedTokenType !== SSO_TEMP_TOKEN){
+			throw new Error(`${session.issuedTokenType} can not be used with the RESTful API, request a ${SSO_TEMP_TOKEN}`);
+		}
+
+		headers.Authorization = `QB-TEMP-TOKEN ${session.token}`;
+
+		return headers;
+	}
+
+	async refresh({ request }: QuickBaseAuthContext): Promise<void> {
+		if(!this.exchange){
+			this.exchange = (async () => {
+				try {
+					const data: Omit<QuickBaseRequestExchangeSsoToken, 'requestOptions' | 'returnAxios'> = {
+						grant_type: 'urn:ietf:params:oauth:grant-type:token-exchange',
+						requested_token_type: this.options.requestedTokenType || SSO_TEMP_TOKEN,
+						subject_token: await resolveToken(this.options.subjectToken),
+						subject_token_type: (this.options.subjectTokenType || 'urn:ietf:params:oauth:token-type:saml2') as QuickBaseRequestExchangeSsoToken['subject_token_type']
+					};
+
+					const results = await request<QuickBaseResponseExchangeSsoToken>(SSO_TOKEN_OPERATION, {
+						method: 'POST',
+						url: '/auth/oauth/token',
+						data
+					});
+
+					this.session = {
+						token: results.data.access_token,
+						issuedTokenType: results.data.issued_token_type,
+						expires: this.options.lifetime ? Date.now() + this.options.lifetime : undefined
+					};
+
+					return this.session;
+				}finally{
+					this.exchange = undefined;
+				}
+			})();
+		}
+
+		await this.exchange;
+	}
+
+	async onUnauthorized(error: QuickBaseAuthError, context: QuickBaseAuthContext): Promise<boolean> {
+		if(context.operationId === SSO_TOKEN_OPERATION || !isTokenRejected(error)){
+			return false;
+		}
+
+		// Another request already exchanged the token this request was sent with
+		if(isSentWithTempToken(context.config, this.session && this.session.token)){
+			await this.refresh(context);
+		}
+
+		return true;
+	}
+
+	/**
+	 * Test if a variable is a `QuickBaseSsoAuth` object
+	 *
+	 * @param obj A variable you'd like to test
+	 */
+	static IsQuickBaseSsoAuth(obj: any): obj is QuickBaseSsoAuth {
+		return ((obj || {}) as QuickBaseSsoAuth).CLASS_NAME === QuickBaseSsoAuth.CLASS_NAME;
+	}
+
+}
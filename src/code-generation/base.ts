@@ -4,10 +4,36 @@
 import merge from 'deepmerge';
 import { debug } from 'debug';
 import { Throttle } from 'generic-throttle';
-import axios, {
+import {
 	AxiosRequestConfig,
 	AxiosResponse
 } from 'axios';
+import {
+	QuickBaseAuthContext,
+	QuickBaseAuthProvider,
+	QuickBaseSsoAuth,
+	QuickBaseSsoAuthOptions,
+	QuickBaseTempTokenCache,
+	getRequestDbid,
+	isSentWithTempToken,
+	isTokenRejected
+} from './auth';
+import {
+	QuickBaseFixtureOptions,
+	requestFixture
+} from './fixtures';
+import {
+	QuickBaseTransport,
+	getTransport
+} from './transport';
+
+/* Modules */
+export * from './auth';
+export * from './fixtures';
+export * from './query';
+export * from './schema';
+export * from './table';
+export * from './transport';
 
 /* Debug */
 const debugMain = debug('quickbase:main');
@@ -18,6 +44,16 @@ const debugResponse = debug('quickbase:response');
 const VERSION = require('../package.json').version;
 const IS_BROWSER = typeof(window) !== 'undefined';
 
+const DEFAULT_RETRY_POLICY: Required<Omit<QuickBaseRetryPolicy, 'onRetry'>> = {
+	maxAttempts: 3,
+	baseDelay: 500,
+	maxDelay: 30000,
+	jitter: true,
+	retryStatuses: [ 429, 500, 502, 503, 504 ],
+	retryErrorCodes: [ 'ECONNABORTED', 'ECONNREFUSED', 'ECONNRESET', 'EAI_AGAIN', 'EPIPE', 'ETIMEDOUT', 'ERR_NETWORK' ],
+	deadline: 0
+};
+
 /* Helpers */
 const delay = (time: number) => {
 	return new Promise((resolve) => {
@@ -44,10 +80,42 @@ const getRetryDelay = (headers: {
 	return +(headers['x-ratelimit-reset'] || 10000);
 };
 
+const getBackoffDelay = (policy: Required<Omit<QuickBaseRetryPolicy, 'onRetry'>>, attempt: number) => {
+	const backoff = Math.min(policy.maxDelay, policy.baseDelay * Math.pow(2, attempt - 1));
+
+	// Full jitter, spreads out retries from many clients failing at the same time
+	return Math.round(policy.jitter ? Math.random() * backoff : backoff);
+};
+
 type LowerKeysObject<T extends object> = {
 	[K in keyof T as (K extends string ? Lowercase<K> : K)]: T[K]
 };
 
+const getErrorResponse = (response: AxiosResponse): QuickBaseErrorResponse => {
+	let data = response.data;
+
+	// Text responses, such as from the solutions endpoints, may still carry a JSON error body
+	if(typeof(data) === 'string'){
+		try {
+			data = JSON.parse(data);
+		}catch(err){
+			// Plain text error body
+		}
+	}
+
+	if(data === null || typeof(data) !== 'object'){
+		return {
+			message: response.statusText || ('' + (data || '')),
+			description: '' + (data || '')
+		};
+	}
+
+	return {
+		message: data.message,
+		description: data.description
+	};
+};
+
 const objKeysToLowercase = <T extends object>(obj: T): LowerKeysObject<T> => {
 	return Object.fromEntries(Object.entries(obj).map(([key, value]) => [
 		key.toLocaleLowerCase(),
@@ -55,19 +123,133 @@ const objKeysToLowercase = <T extends object>(obj: T): LowerKeysObject<T> => {
 	])) as LowerKeysObject<T>;
 };
 
+// Plain objects and arrays are merged, class instances such as auth providers are kept by reference
+const isMergeable = (obj: any): boolean => {
+	if(obj === null || typeof(obj) !== 'object'){
+		return false;
+	}
+
+	const proto = Object.getPrototypeOf(obj);
+
+	return proto === null || proto === Object.prototype || Array.isArray(obj);
+};
+
+const getByteLength = (value: any): number => {
+	return new TextEncoder().encode(JSON.stringify(value)).length;
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+	if(signal && signal.aborted){
+		throw signal.reason || new Error('The operation was aborted');
+	}
+};
+
+const getErrorClass = (code: number, outcomeUnknown?: boolean): typeof QuickBaseError => {
+	switch(code){
+		case 0: return outcomeUnknown ? QuickBaseOutcomeUnknownError : QuickBaseNetworkError;
+		case 400: return QuickBaseValidationError;
+		case 401:
+		case 403: return QuickBaseAuthError;
+		case 404: return QuickBaseNotFoundError;
+		case 429: return QuickBaseRateLimitError;
+		default: return QuickBaseError;
+	}
+};
+
+const getLineErrors = (response: AxiosResponse): Record<string, string[]> | undefined => {
+	const data = response.data;
+
+	if(data === null || typeof(data) !== 'object'){
+		return undefined;
+	}
+
+	return (data.metadata && data.metadata.lineErrors) || data.lineErrors;
+};
+
+const getNetworkErrorCode = (err: any): string | undefined => {
+	const code = err && (err.code || (err.cause && err.cause.code));
+
+	// Cancelled requests are not network failures
+	return typeof(code) === 'string' && code !== 'ERR_CANCELED' ? code : undefined;
+};
+
+// Network errors raised before connecting, the request was never sent so it's safe to retry
+const UNSENT_ERROR_CODES = [ 'ECONNREFUSED', 'EAI_AGAIN', 'ENOTFOUND' ];
+
 /* Quickbase Error */
-export type QuickBaseErrorJSON = {
+export type QuickBaseErrorDetails = {
+	/**
+	 * The Quickbase API operation that failed, such as `runQuery`
+	 */
+	operationId?: string;
+
+	/**
+	 * The HTTP method of the failed request
+	 */
+	method?: string;
+
+	/**
+	 * The URL of the failed request, relative to the API version
+	 */
+	url?: string;
+
+	/**
+	 * The number of attempts made, including retries
+	 */
+	attempt?: number;
+
+	/**
+	 * `QuickBaseRateLimitError` only, the time to wait before retrying, in milliseconds
+	 */
+	retryAfter?: number;
+
+	/**
+	 * `QuickBaseValidationError` only, the upsert line errors keyed by line number
+	 */
+	lineErrors?: Record<string, string[]>;
+
+	/**
+	 * `QuickBaseNetworkError` only, the network error code, such as `ECONNRESET`
+	 */
+	errorCode?: string;
+
+	/**
+	 * `QuickBaseUpsertManyError` only, the position of the failed batch's first record in the original
+	 * `data` array
+	 */
+	offset?: number;
+
+	/**
+	 * `QuickBaseUpsertManyError` only, the merged results of the batches written before the failed batch
+	 */
+	results?: QuickBaseResultUpsert;
+
+	/**
+	 * `QuickBaseUpsertManyError` only, the error the failed batch was rejected with, or its serialized JSON
+	 */
+	error?: Error | QuickBaseErrorJSON | { message: string; };
+};
+
+export type QuickBaseErrorJSON = QuickBaseErrorDetails & {
 	code: number;
 	message: string;
 	description: string;
 	rayId: string;
+	outcomeUnknown?: boolean;
 };
 
 export class QuickBaseError extends Error {
 
+	public operationId?: string;
+	public method?: string;
+	public url?: string;
+	public attempt?: number;
+
 	/**
 	 * Extends the native JavaScript `Error` object for use with Quickbase API errors
 	 *
+	 * Errors thrown by `QuickBase` are one of the subclasses below where the status code allows.
+	 *
 	 * Example:
 	 * ```typescript
 	 * const qbErr = new QuickBaseError(403, 'Access Denied', 'User token is invalid', 'xxxx');
@@ -77,9 +259,19 @@ export class QuickBaseError extends Error {
 	 * @param message Error message
 	 * @param description Error description
 	 * @param rayId Quickbase API Ray ID
+	 * @param details The failed request and any subclass specific details
 	 */
-	constructor(public code: number, public message: string, public description: string, public rayId: string) {
+	constructor(public code: number, public message: string, public description: string, public rayId: string, details: QuickBaseErrorDetails = {}) {
 		super(message);
+
+		this.setDetails(details);
+	}
+
+	protected setDetails(details: QuickBaseErrorDetails): void {
+		this.operationId = details.operationId;
+		this.method = details.method;
+		this.url = details.url;
+		this.attempt = details.attempt;
 	}
 
 	/**
@@ -90,7 +282,11 @@ export class QuickBaseError extends Error {
 			code: this.code,
 			message: this.message,
 			description: this.description,
-			rayId: this.rayId
+			rayId: this.rayId,
+			operationId: this.operationId,
+			method: this.method,
+			url: this.url,
+			attempt: this.attempt
 		};
 	}
 
@@ -113,11 +309,16 @@ export class QuickBaseError extends Error {
 		this.description = json.description;
 		this.rayId = json.rayId;
 
+		this.setDetails(json);
+
 		return this;
 	}
 
 	/**
-	 * Create a new QuickBase instance from serialized JSON
+	 * Create a new QuickBaseError instance from serialized JSON
+	 *
+	 * The subclass is chosen from the error code, so a serialized `QuickBaseAuthError` is rebuilt as a
+	 * `QuickBaseAuthError`.
 	 *
 	 * @param json Serialized QuickBaseError class options
 	 */
@@ -130,7 +331,195 @@ export class QuickBaseError extends Error {
 			throw new TypeError('json argument must be type of object or a valid JSON string');
 		}
 
-		return new QuickBaseError(json.code, json.message, json.description, json.rayId);
+		const ErrorClass = json.offset !== undefined ? QuickBaseUpsertManyError : getErrorClass(json.code, json.outcomeUnknown);
+
+		return new ErrorClass(json.code, json.message, json.description, json.rayId, json);
+	}
+
+}
+
+/**
+ * Thrown for `401` and `403` responses, such as an invalid user token or an expired temporary token
+ */
+export class QuickBaseAuthError extends QuickBaseError {}
+
+/**
+ * Thrown for `404` responses
+ */
+export class QuickBaseNotFoundError extends QuickBaseError {}
+
+/**
+ * Thrown for `429` responses once the rate limit retries, if any, are exhausted
+ */
+export class QuickBaseRateLimitError extends QuickBaseError {
+
+	/**
+	 * The time to wait before retrying, in milliseconds, from the `Retry-After` or `X-RateLimit-Reset`
+	 * headers
+	 */
+	public retryAfter?: number;
+
+	protected setDetails(details: QuickBaseErrorDetails): void {
+		super.setDetails(details);
+
+		this.retryAfter = details.retryAfter;
+	}
+
+	toJSON(): QuickBaseErrorJSON {
+		return {
+			...super.toJSON(),
+			retryAfter: this.retryAfter
+		};
+	}
+
+}
+
+/**
+ * Thrown for `400` responses, such as a malformed query or an upsert with invalid values
+ */
+export class QuickBaseValidationError extends QuickBaseError {
+
+	/**
+	 * The upsert line errors keyed by line number, if returned
+	 */
+	public lineErrors?: Record<string, string[]>;
+
+	protected setDetails(details: QuickBaseErrorDetails): void {
+		super.setDetails(details);
+
+		this.lineErrors = details.lineErrors;
+	}
+
+	toJSON(): QuickBaseErrorJSON {
+		return {
+			...super.toJSON(),
+			lineErrors: this.lineErrors
+		};
+	}
+
+}
+
+/**
+ * Thrown when a request fails without a response, such as a connection reset or a timeout
+ *
+ * The `code` is always `0`.
+ */
+export class QuickBaseNetworkError extends QuickBaseError {
+
+	/**
+	 * The network error code, such as `ECONNRESET`
+	 */
+	public errorCode?: string;
+
+	protected setDetails(details: QuickBaseErrorDetails): void {
+		super.setDetails(details);
+
+		this.errorCode = details.errorCode;
+	}
+
+	toJSON(): QuickBaseErrorJSON {
+		return {
+			...super.toJSON(),
+			errorCode: this.errorCode
+		};
+	}
+
+}
+
+/**
+ * Thrown when a write fails without a response and is not safe to retry, the write may or may not
+ * have been applied
+ *
+ * Example:
+ * ```typescript
+ * try {
+ * 	await qb.upsert({ tableId: 'xxxxxxxxx', data: [] });
+ * }catch(err){
+ * 	if(err instanceof QuickBaseOutcomeUnknownError){
+ * 		// Check whether the records were created before trying again
+ * 	}
+ * }
+ * ```
+ */
+export class QuickBaseOutcomeUnknownError extends QuickBaseNetworkError {
+
+	toJSON(): QuickBaseErrorJSON {
+		return {
+			...super.toJSON(),
+			outcomeUnknown: true
+		};
+	}
+
+}
+
+/**
+ * Thrown by `upsertMany` when a batch fails, batches sent before it have already been written
+ *
+ * Example:
+ * ```typescript
+ * try {
+ * 	await qb.upsertMany({ tableId: 'xxxxxxxxx', data: records });
+ * }catch(err){
+ * 	if(err instanceof QuickBaseUpsertManyError){
+ * 		// Resume from the failed batch
+ * 		await qb.upsertMany({ tableId: 'xxxxxxxxx', data: records.slice(err.offset) });
+ * 	}
+ * }
+ * ```
+ */
+export class QuickBaseUpsertManyError extends QuickBaseError {
+
+	/**
+	 * The position of the failed batch's first record in the original `data` array
+	 */
+	public offset?: number;
+
+	/**
+	 * The merged results of the batches written before the failed batch
+	 */
+	public results?: QuickBaseResultUpsert;
+
+	/**
+	 * The error the failed batch was rejected with
+	 */
+	public error?: Error;
+
+	/**
+	 * The time to wait before retrying, in milliseconds, if the failed batch was rate limited
+	 */
+	public retryAfter?: number;
+
+	/**
+	 * The failed batch's line errors, keyed by position in the original `data` array (starting from 1)
+	 */
+	public lineErrors?: Record<string, string[]>;
+
+	protected setDetails(details: QuickBaseErrorDetails): void {
+		super.setDetails(details);
+
+		this.offset = details.offset;
+		this.results = details.results;
+		this.retryAfter = details.retryAfter;
+		this.lineErrors = details.lineErrors;
+
+		if(details.error instanceof Error || details.error === undefined){
+			this.error = details.error;
+		}else{
+			this.error = 'code' in details.error ? QuickBaseError.fromJSON(details.error) : new Error(details.error.message);
+		}
+	}
+
+	toJSON(): QuickBaseErrorJSON {
+		return {
+			...super.toJSON(),
+			offset: this.offset,
+			results: this.results,
+			error: this.error instanceof QuickBaseError ? this.error.toJSON() : {
+				message: this.error ? this.error.message : ''
+			},
+			retryAfter: this.retryAfter,
+			lineErrors: this.lineErrors
+		};
 	}
 
 }
@@ -154,13 +543,17 @@ export class QuickBase {
 		tempToken: '',
 		tempTokenDbid: '',
 		appToken: '',
+		auth: false,
 		userAgent: '',
 		autoRenewTempTokens: true,
 		connectionLimit: 10,
 		connectionLimitPeriod: 1000,
 		errorOnConnectionLimit: false,
 		retryOnQuotaExceeded: true,
-		proxy: false
+		retryPolicy: false,
+		proxy: false,
+		fixtures: false,
+		transport: 'axios'
 	};
 
 	/**
@@ -175,13 +568,25 @@ export class QuickBase {
 	 */
 	private throttle: Throttle;
 
+	/**
+	 * The temporary tokens set with `setTempToken()`, keyed by application or table ID
+	 */
+	private tempTokens: QuickBaseTempTokenCache = new QuickBaseTempTokenCache();
+
+	/**
+	 * The middleware added with `use()`, in order
+	 */
+	private middleware: QuickBaseMiddleware[] = [];
+
 	/**
 	 * The `QuickBase` instance settings
 	 */
 	public settings: Required<QuickBaseOptions>;
 
 	constructor(options?: QuickBaseOptions){
-		this.settings = merge(QuickBase.defaults, options || {});
+		this.settings = merge(QuickBase.defaults, options || {}, {
+			isMergeableObject: isMergeable
+		});
 
 		this.throttle = new Throttle(this.settings.connectionLimit, this.settings.connectionLimitPeriod, this.settings.errorOnConnectionLimit);
 
@@ -190,32 +595,120 @@ export class QuickBase {
 		return this;
 	}
 
-	private assignAuthorizationHeaders(headers?: AxiosRequestConfig['headers'], addToken = true) {
-		if(!headers){
-			headers = {};
-		}
+	/**
+	 * Authenticates with the `userToken`, `tempToken` and `appToken` settings when `auth` isn't set
+	 */
+	private readonly settingsAuth: QuickBaseAuthProvider = {
+		getHeaders: async ({ operationId, config }) => {
+			const headers: Record<string, string> = {};
 
-		if(this.settings.userToken){
-			if(addToken){
-				headers.Authorization = `QB-USER-TOKEN ${this.settings.userToken}`;
+			// Temporary token requests authenticate with the browser session, and are sent by renewals
+			const addToken = operationId !== 'getTempTokenDBID';
+
+			if(this.settings.userToken){
+				if(addToken){
+					headers.Authorization = `QB-USER-TOKEN ${this.settings.userToken}`;
+				}
+
+				return headers;
 			}
-		}else{
+
 			if(this.settings.appToken){
 				headers['QB-App-Token'] = this.settings.appToken;
 			}
 
-			if(addToken && this.settings.tempToken){
-				headers.Authorization = `QB-TEMP-TOKEN ${this.settings.tempToken}`;
+			if(addToken){
+				const dbid = this.getTempTokenDbid(config);
+
+				if(dbid){
+					// Hold the request until a renewal started by another request finishes
+					await this.tempTokens.waitForRenewal(dbid);
+
+					if(this.settings.autoRenewTempTokens && this.tempTokens.has(dbid) && this.tempTokens.needsRenewal(dbid)){
+						await this.renewTempToken(dbid);
+					}
+				}
+
+				const tempToken = (dbid && this.tempTokens.get(dbid)) || this.settings.tempToken;
+
+				if(tempToken){
+					headers.Authorization = `QB-TEMP-TOKEN ${tempToken}`;
+				}
 			}
+
+			return headers;
+		},
+		refresh: async ({ config }) => {
+			const dbid = this.getTempTokenDbid(config);
+
+			if(dbid){
+				await this.renewTempToken(dbid);
+			}
+		},
+		onUnauthorized: async (err, { operationId, config }) => {
+			const dbid = this.getTempTokenDbid(config);
+
+			if(operationId === 'getTempTokenDBID' || !this.settings.autoRenewTempTokens || !dbid || !isTokenRejected(err)){
+				return false;
+			}
+
+			// Another request already renewed the token this request was sent with
+			if(isSentWithTempToken(config, this.tempTokens.get(dbid))){
+				await this.renewTempToken(dbid);
+			}
+
+			return true;
 		}
+	};
+
+	/**
+	 * The application or table of a request with a stored temporary token, or the last `tempTokenDbid`
+	 */
+	private getTempTokenDbid(config: AxiosRequestConfig): string | undefined {
+		const dbid = getRequestDbid(config);
 
-		return headers;
+		return dbid && this.tempTokens.has(dbid) ? dbid : (this.settings.tempTokenDbid || undefined);
+	}
+
+	/**
+	 * Concurrent renewals of the same application or table share a single request
+	 */
+	private async renewTempToken(dbid: string): Promise<void> {
+		const tempToken = await this.tempTokens.renew(dbid, async () => {
+			debugMain(`Getting new temporary ticket for ${dbid}...`);
+
+			const results = await this.authRequest<QuickBaseResponseGetTempTokenDBID>('getTempTokenDBID', {
+				url: `/auth/temporary/${dbid}`,
+				withCredentials: true
+			});
+
+			return results.data.temporaryAuthorization;
+		});
+
+		this.settings.tempTokenDbid = dbid;
+		this.settings.tempToken = tempToken;
+	}
+
+	/**
+	 * Send an authentication request outside of middleware and the connection limit, so it isn't queued
+	 * behind the requests waiting on it
+	 */
+	private async authRequest<T = any>(operationId: string, options: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+		return await this.request<T>(merge.all([
+			this.getBaseRequest(),
+			options
+		]), {
+			id: operationId,
+			idempotent: true
+		});
 	}
 
 	private getBaseRequest(){
+		const server = this.settings.server.match(/^https?:\/\//i) ? this.settings.server : `https://${this.settings.server}`;
+
 		return {
 			method: 'GET',
-			baseURL: `https://${this.settings.server}/${this.settings.version}`,
+			baseURL: `${server}/${this.settings.version}`,
 			headers: {
 				'Content-Type': 'application/json; charset=UTF-8',
 				[IS_BROWSER ? 'X-User-Agent' : 'User-Agent']: `${this.settings.userAgent} node-quickbase/v${VERSION} ${IS_BROWSER ? (window.navigator ? window.navigator.userAgent : '') : 'nodejs/' + process.version}`.trim(),
@@ -225,37 +718,107 @@ export class QuickBase {
 		};
 	}
 
-	private async request<T = any>(options: AxiosRequestConfig, attempt = 0): Promise<AxiosResponse<T>> {
+	private getPolicyRetryDelay(err: any, headers: Parameters<typeof getRetryDelay>[0], tries: number, start: number): number | false {
+		if(!this.settings.retryPolicy){
+			return false;
+		}
+
+		const policy = {
+			...DEFAULT_RETRY_POLICY,
+			...this.settings.retryPolicy
+		};
+
+		if(tries >= policy.maxAttempts){
+			return false;
+		}
+
+		if(err instanceof QuickBaseNetworkError){
+			if(!err.errorCode || policy.retryErrorCodes.indexOf(err.errorCode) === -1){
+				return false;
+			}
+		}else
+		if(err instanceof QuickBaseError){
+			if(policy.retryStatuses.indexOf(err.code) === -1 || (err.code === 429 && !this.settings.retryOnQuotaExceeded)){
+				return false;
+			}
+		}else{
+			return false;
+		}
+
+		// Server hints take precedence over the backoff
+		const delayMs = headers['retry-after'] || headers['x-ratelimit-reset'] ? getRetryDelay(headers) : getBackoffDelay(policy, tries);
+
+		if(policy.deadline && (Date.now() - start) + delayMs > policy.deadline){
+			return false;
+		}
+
+		return delayMs;
+	}
+
+	private async request<T = any>(options: AxiosRequestConfig, operation: QuickBaseOperation, attempt = 0, tries = 1, start = Date.now()): Promise<AxiosResponse<T>> {
 		const id = 0 + (++this._id);
+		const auth = this.settings.auth || this.settingsAuth;
+		const context: QuickBaseAuthContext = {
+			quickbase: this,
+			operationId: operation.id,
+			config: options,
+			request: (operationId, config) => this.authRequest(operationId, config)
+		};
+
+		options.headers = {
+			...options.headers,
+			...(await auth.getHeaders(context))
+		};
 
 		try {
 			debugRequest(id, options);
 
-			options.headers = this.assignAuthorizationHeaders(options.headers, !options.url?.startsWith('/auth/temporary'));
-
-			const results = await axios.request<T>(options);
+			const transport = getTransport(this.settings.transport);
+			const results = this.settings.fixtures ? await requestFixture<T>(this.settings.fixtures, options, transport) : await transport<T>(options);
 
 			debugResponse(id, results);
 
 			return results;
 		}catch(err: any){
+			let error = err;
+			let headers: Parameters<typeof getRetryDelay>[0] = {};
+			let unsent = false;
+
+			const details: QuickBaseErrorDetails = {
+				operationId: operation.id || undefined,
+				method: (options.method || 'GET').toUpperCase(),
+				url: options.url,
+				attempt: tries
+			};
+
 			if(err.response){
-				const headers = objKeysToLowercase<{
+				const errHeaders = objKeysToLowercase<{
 					'x-ratelimit-reset': string;
 					'retry-after': string;
 					'qb-api-ray': string;
 				}>(err.response.headers);
 
-				const qbErr = new QuickBaseError(
+				headers = errHeaders;
+
+				const errResponse = getErrorResponse(err.response);
+
+				const ErrorClass = getErrorClass(err.response.status);
+
+				const qbErr = new ErrorClass(
 					err.response.status,
-					err.response.data.message,
-					err.response.data.description,
-					headers['qb-api-ray']
+					errResponse.message,
+					errResponse.description,
+					errHeaders['qb-api-ray'],
+					{
+						...details,
+						retryAfter: headers['retry-after'] || headers['x-ratelimit-reset'] ? getRetryDelay(headers) : undefined,
+						lineErrors: getLineErrors(err.response)
+					}
 				);
 
 				debugResponse(id, 'Quickbase Error', qbErr);
 
-				if(this.settings.retryOnQuotaExceeded && qbErr.code === 429){
+				if(!this.settings.retryPolicy && this.settings.retryOnQuotaExceeded && qbErr.code === 429){
 					const delayMs = getRetryDelay(headers);
 
 					debugResponse(id, `Waiting ${delayMs}ms until retrying...`);
@@ -264,62 +827,126 @@ export class QuickBase {
 
 					debugResponse(id, `Retrying...`);
 
-					return await this.request<T>(options);
+					return await this.request<T>(options, operation);
 				}
 
-				if(attempt >= 3){
-					throw qbErr;
-				}
+				if(qbErr instanceof QuickBaseAuthError && attempt < 3 && await auth.onUnauthorized(qbErr, context)){
+					debugResponse(id, `Retrying...`);
 
-				const errDescription = '' + (qbErr.description || '');
+					return await this.request<T>(options, operation, attempt + 1, tries, start);
+				}
 
-				if(this.settings.autoRenewTempTokens && this.settings.tempTokenDbid && (
-					errDescription.match(/Your ticket has expired/i)
-					||
-					errDescription.match(/Invalid Authorization/i)
-					||
-					errDescription.match(/Required header 'authorization' not found/i)
-				)){
-					debugResponse(id, `Getting new temporary ticket for ${this.settings.tempTokenDbid}...`);
+				error = qbErr;
+			}else{
+				debugResponse(id, 'Error', err);
 
-					const results = await this.request(merge.all([
-						this.getBaseRequest(),
-						{
-							url: `auth/temporary/${this.settings.tempTokenDbid}`,
-							withCredentials: true
-						}
-					]), attempt + 1);
+				const errorCode = getNetworkErrorCode(err);
 
-					this.setTempToken(this.settings.tempTokenDbid, results.data.temporaryAuthorization);
+				if(errorCode){
+					unsent = UNSENT_ERROR_CODES.indexOf(errorCode) !== -1;
 
-					debugResponse(id, `Retrying...`);
+					error = new QuickBaseNetworkError(0, err.message, '', '', {
+						...details,
+						errorCode
+					});
+				}
+			}
 
-					return await this.request<T>(options, attempt + 1);
+			// Without a response, a write that was sent may have been applied. Rate limited requests never are
+			if(!operation.idempotent && !(error instanceof QuickBaseRateLimitError) && !unsent){
+				if(error instanceof QuickBaseNetworkError){
+					throw new QuickBaseOutcomeUnknownError(0, `The outcome of ${operation.id} is unknown: ${error.message}`, '', '', error.toJSON());
 				}
 
-				throw qbErr;
+				throw error;
 			}
 
-			debugResponse(id, 'Error', err);
+			const delayMs = this.getPolicyRetryDelay(error, headers, tries, start);
+
+			if(delayMs === false){
+				throw error;
+			}
+
+			if(this.settings.retryPolicy && this.settings.retryPolicy.onRetry){
+				await this.settings.retryPolicy.onRetry({
+					attempt: tries,
+					delay: delayMs,
+					error,
+					config: options
+				});
+			}
 
-			throw err;
+			debugResponse(id, `Waiting ${delayMs}ms until retrying...`);
+
+			await delay(delayMs);
+
+			debugResponse(id, `Retrying...`);
+
+			return await this.request<T>(options, operation, attempt, tries + 1, start);
 		}
 	}
 
 	// @ts-ignore/@remove-line - `api` is consumed by the genarated code, typescript doesn't know this
-	private async api<T = any>(actOptions: AxiosRequestConfig, reqOptions?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-		return this.throttle.acquire(async () => {
-			return await this.request<T>(merge.all([
-				this.getBaseRequest(),
-				actOptions,
-				reqOptions || {}
-			]));
-		});
+	private async api<T = any>(actOptions: AxiosRequestConfig, reqOptions?: AxiosRequestConfig, operation: QuickBaseOperation = { id: '', idempotent: false }): Promise<AxiosResponse<T>> {
+		const dispatch = async (i: number, options: AxiosRequestConfig): Promise<AxiosResponse<T>> => {
+			if(i < this.middleware.length){
+				return await this.middleware[i](options, (next) => dispatch(i + 1, next));
+			}
+
+			return this.throttle.acquire(async () => {
+				return await this.request<T>(options, operation);
+			});
+		};
+
+		return await dispatch(0, merge.all([
+			this.getBaseRequest(),
+			actOptions,
+			reqOptions || {}
+		], {
+			isMergeableObject: isMergeable
+		}));
+	}
+
+	/**
+	 * Add a middleware to run around every API call
+	 *
+	 * Middleware receives the request configuration and a `next` function that sends it on, and
+	 * resolves with the response. It may modify the configuration, return a response without calling
+	 * `next`, or catch and transform errors. Middleware runs in the order it was added, outside of the
+	 * connection limit and retries.
+	 *
+	 * Example:
+	 * ```typescript
+	 * qb.use(async (config, next) => {
+	 * 	const start = Date.now();
+	 *
+	 * 	try {
+	 * 		return await next(config);
+	 * 	}finally{
+	 * 		console.log(config.method, config.url, Date.now() - start);
+	 * 	}
+	 * });
+	 * ```
+	 *
+	 * @param middleware Middleware function
+	 */
+	use(middleware: QuickBaseMiddleware): QuickBase {
+		if(typeof(middleware) !== 'function'){
+			throw new TypeError('middleware argument must be type of function');
+		}
+
+		this.middleware.push(middleware);
+
+		return this;
 	}
 
 	/**
 	 * Set the internally stored `tempToken` for use in subsequent API calls
 	 *
+	 * Tokens are stored per application or table, and used for requests to the same application or
+	 * table. Other requests use the last token set. Tokens are renewed shortly before they expire, five
+	 * minutes after being set, if `autoRenewTempTokens` is enabled.
+	 *
 	 * Example:
 	 * ```typescript
 	 * qb.setTempToken('xxxx.xxx[...]xxx', 'xxxxxxxxx');
@@ -332,9 +959,297 @@ export class QuickBase {
 		this.settings.tempTokenDbid = dbid;
 		this.settings.tempToken = tempToken;
 
+		this.tempTokens.set(dbid, tempToken);
+
+		return this;
+	}
+
+	/**
+	 * Authenticate all subsequent API calls with an SSO session
+	 *
+	 * The subject token is exchanged with `exchangeSsoToken` on the next API call, and exchanged again
+	 * whenever the issued token expires or is rejected. Sets `auth` to a `QuickBaseSsoAuth` provider.
+	 *
+	 * Example:
+	 * ```typescript
+	 * qb.startSsoSession({
+	 * 	subjectToken: async () => await createSamlAssertion(user)
+	 * });
+	 * ```
+	 *
+	 * @param options SSO options
+	 */
+	startSsoSession(options: QuickBaseSsoAuthOptions): QuickBase {
+		this.settings.auth = new QuickBaseSsoAuth(options);
+
 		return this;
 	}
 
+	/**
+	 * Iterate over every page of a query, automatically following `metadata.skip` and `metadata.numRecords`
+	 *
+	 * `options.top`, if defined, is used as the page size. Iteration stops once `metadata.totalRecords`
+	 * has been reached, a page comes back empty or `maxRecords` records have been returned.
+	 *
+	 * Example:
+	 * ```typescript
+	 * for await (const page of qb.iterateQuery({ tableId: 'xxxxxxxxx', where: '{3.GT.0}' })){
+	 * 	console.log(page.metadata.skip, page.data.length);
+	 * }
+	 * ```
+	 *
+	 * @param options Query for data method options object
+	 * @param options.maxRecords The maximum number of records to return across all pages
+	 * @param options.signal An `AbortSignal` to cancel the iteration, including the in-flight request
+	 */
+	public async *iterateQuery({ maxRecords, signal, requestOptions, options, ...body }: QuickBaseRequestIterateQuery): AsyncGenerator<QuickBaseResponseRunQuery> {
+		yield *this.paginate((skip, top) => {
+			return this.runQuery({
+				...body,
+				options: {
+					...options,
+					skip,
+					top: top as number
+				},
+				requestOptions: merge(requestOptions || {}, signal ? { signal } : {}, {
+					isMergeableObject: isMergeable
+				})
+			});
+		}, {
+			skip: options?.skip,
+			top: options?.top,
+			maxRecords,
+			signal
+		});
+	}
+
+	/**
+	 * Iterate over every record of a query, automatically following `metadata.skip` and `metadata.numRecords`
+	 *
+	 * Example:
+	 * ```typescript
+	 * for await (const record of qb.queryAll({ tableId: 'xxxxxxxxx', select: [ 3 ], maxRecords: 5000 })){
+	 * 	console.log(record[3].value);
+	 * }
+	 * ```
+	 *
+	 * @param options Query for data method options object
+	 * @param options.maxRecords The maximum number of records to return across all pages
+	 * @param options.signal An `AbortSignal` to cancel the iteration, including the in-flight request
+	 */
+	public async *queryAll(options: QuickBaseRequestIterateQuery): AsyncGenerator<QuickBaseRecord> {
+		for await (const page of this.iterateQuery(options)){
+			for(const record of page.data){
+				yield record;
+			}
+		}
+	}
+
+	/**
+	 * Iterate over every page of a report, automatically following `metadata.skip` and `metadata.numRecords`
+	 *
+	 * `top`, if defined, is used as the page size. Iteration stops once `metadata.totalRecords`
+	 * has been reached, a page comes back empty or `maxRecords` records have been returned.
+	 *
+	 * Example:
+	 * ```typescript
+	 * for await (const page of qb.iterateReport({ tableId: 'xxxxxxxxx', reportId: '1' })){
+	 * 	console.log(page.metadata.skip, page.data.length);
+	 * }
+	 * ```
+	 *
+	 * @param options Run a report method options object
+	 * @param options.maxRecords The maximum number of records to return across all pages
+	 * @param options.signal An `AbortSignal` to cancel the iteration, including the in-flight request
+	 */
+	public async *iterateReport({ maxRecords, signal, requestOptions, skip, top, ...params }: QuickBaseRequestIterateReport): AsyncGenerator<QuickBaseResponseRunReport> {
+		yield *this.paginate((skip, top) => {
+			return this.runReport({
+				...params,
+				skip,
+				top,
+				requestOptions: merge(requestOptions || {}, signal ? { signal } : {}, {
+					isMergeableObject: isMergeable
+				})
+			});
+		}, {
+			skip,
+			top,
+			maxRecords,
+			signal
+		});
+	}
+
+	/**
+	 * Iterate over every record of a report, automatically following `metadata.skip` and `metadata.numRecords`
+	 *
+	 * Example:
+	 * ```typescript
+	 * for await (const record of qb.reportAll({ tableId: 'xxxxxxxxx', reportId: '1' })){
+	 * 	console.log(record[3].value);
+	 * }
+	 * ```
+	 *
+	 * @param options Run a report method options object
+	 * @param options.maxRecords The maximum number of records to return across all pages
+	 * @param options.signal An `AbortSignal` to cancel the iteration, including the in-flight request
+	 */
+	public async *reportAll(options: QuickBaseRequestIterateReport): AsyncGenerator<QuickBaseRecord> {
+		for await (const page of this.iterateReport(options)){
+			for(const record of page.data){
+				yield record;
+			}
+		}
+	}
+
+	/**
+	 * Insert and/or update any number of records, split into batches by record count and payload size
+	 *
+	 * Batches are sent one at a time as separate `upsert` calls, each through the instance throttle, and
+	 * the responses are merged into a single `QuickBaseResultUpsert`. `lineErrors` keys are re-indexed to each record's
+	 * position in the original `data` array (starting from 1), and the record id arrays and `data` are
+	 * concatenated in input order. The merged `status` is `207` if any batch partially failed.
+	 *
+	 * If a batch fails, no further batches are sent and a `QuickBaseUpsertManyError` is thrown with the
+	 * offset of the failed batch and the merged results of the batches before it, which are not rolled back.
+	 *
+	 * Example:
+	 * ```typescript
+	 * const results = await qb.upsertMany({
+	 * 	tableId: 'xxxxxxxxx',
+	 * 	data: records,
+	 * 	batchSize: 500
+	 * });
+	 * ```
+	 *
+	 * @param options Insert/Update record(s) method options object
+	 * @param options.batchSize The maximum number of records per batch, default is `1000`
+	 * @param options.maxBatchBytes The maximum serialized size of each batch in bytes, default is `20971520` (20MB)
+	 */
+	public async upsertMany({ data = [], batchSize = 1000, maxBatchBytes = 20 * 1024 * 1024, ...options }: QuickBaseRequestUpsertMany): Promise<QuickBaseResultUpsert> {
+		const baseBytes = getByteLength({
+			to: options.tableId,
+			mergeFieldId: options.mergeFieldId,
+			fieldsToReturn: options.fieldsToReturn,
+			data: []
+		});
+
+		const batches: { offset: number; bytes: number; data: QuickBaseRecord[]; }[] = [];
+
+		data.forEach((record, i) => {
+			const recordBytes = getByteLength(record) + 1;
+			const batch = batches[batches.length - 1];
+
+			if(!batch || batch.data.length >= batchSize || batch.bytes + recordBytes > maxBatchBytes){
+				batches.push({
+					offset: i,
+					bytes: baseBytes + recordBytes,
+					data: [ record ]
+				});
+			}else{
+				batch.bytes += recordBytes;
+				batch.data.push(record);
+			}
+		});
+
+		const merged = {
+			status: 200,
+			metadata: {
+				createdRecordIds: [],
+				lineErrors: {},
+				unchangedRecordIds: [],
+				updatedRecordIds: [],
+				totalNumberOfRecordsProcessed: 0
+			},
+			data: []
+		} as QuickBaseResultUpsert;
+
+		for(const batch of batches){
+			let result: QuickBaseResultUpsert;
+
+			try {
+				result = await this.upsert({
+					...options,
+					data: batch.data
+				});
+			}catch(err: any){
+				const details: QuickBaseErrorDetails = err instanceof QuickBaseError ? err.toJSON() : {};
+				const lineErrors = details.lineErrors;
+
+				throw new QuickBaseUpsertManyError(
+					err instanceof QuickBaseError ? err.code : 0,
+					`Batch at offset ${batch.offset} failed: ${err && err.message}`,
+					err instanceof QuickBaseError ? err.description : '',
+					err instanceof QuickBaseError ? err.rayId : '',
+					{
+						...details,
+						lineErrors: lineErrors ? Object.fromEntries(Object.entries(lineErrors).map(([ line, errors ]) => {
+							return [ batch.offset + (+line), errors ];
+						})) : undefined,
+						offset: batch.offset,
+						results: merged,
+						error: err instanceof Error ? err : new Error('' + err)
+					}
+				);
+			}
+
+			merged.metadata.createdRecordIds.push(...(result.metadata.createdRecordIds || []));
+			merged.metadata.updatedRecordIds.push(...(result.metadata.updatedRecordIds || []));
+			merged.metadata.unchangedRecordIds.push(...(result.metadata.unchangedRecordIds || []));
+			merged.metadata.totalNumberOfRecordsProcessed += result.metadata.totalNumberOfRecordsProcessed || 0;
+
+			Object.entries(result.metadata.lineErrors || {}).forEach(([ line, errors ]) => {
+				merged.metadata.lineErrors[batch.offset + (+line)] = errors;
+			});
+
+			merged.data.push(...(result.data || []));
+
+			if(result.status === 207){
+				merged.status = 207;
+			}
+		}
+
+		return merged;
+	}
+
+	private async *paginate<T extends QuickBasePage>(getPage: (skip: number, top?: number) => Promise<T>, {
+		skip = 0,
+		top,
+		maxRecords,
+		signal
+	}: QuickBasePaginationOptions & {
+		skip?: number;
+		top?: number;
+	}): AsyncGenerator<T> {
+		let returned = 0;
+
+		while(maxRecords === undefined || returned < maxRecords){
+			throwIfAborted(signal);
+
+			const remaining = maxRecords === undefined ? undefined : maxRecords - returned;
+			const pageSize = remaining === undefined ? top : Math.min(top || remaining, remaining);
+
+			const page = await getPage(skip, pageSize);
+
+			throwIfAborted(signal);
+
+			const numRecords = page.metadata.numRecords;
+
+			if(remaining !== undefined && page.data.length > remaining){
+				page.data = page.data.slice(0, remaining);
+			}
+
+			returned += page.data.length;
+			skip = (page.metadata.skip || skip) + numRecords;
+
+			yield page;
+
+			if(numRecords === 0 || skip >= page.metadata.totalRecords){
+				return;
+			}
+		}
+	}
+
 	/**
 	 * Rebuild the QuickBase instance from serialized JSON
 	 *
@@ -349,7 +1264,9 @@ export class QuickBase {
 			throw new TypeError('json argument must be type of object or a valid JSON string');
 		}
 
-		this.settings = merge(this.settings, json);
+		this.settings = merge(this.settings, json, {
+			isMergeableObject: isMergeable
+		});
 
 		return this;
 	}
@@ -358,7 +1275,9 @@ export class QuickBase {
 	 * Serialize the QuickBase instance into JSON
 	 */
 	toJSON(): Required<QuickBaseOptions> {
-		return merge({}, this.settings);
+		return merge({}, this.settings, {
+			isMergeableObject: isMergeable
+		});
 	}
 
 	/**
@@ -396,6 +1315,8 @@ export type QuickBaseOptions = Partial<{
 	/**
 	 * Quickbase API Server FQDN
 	 *
+	 * May also be an origin including the protocol, such as `http://127.0.0.1:8080` for a `QuickBaseMockServer`
+	 *
 	 * Default is `api.quickbase.com`
 	 */
 	server: string;
@@ -449,6 +1370,16 @@ export type QuickBaseOptions = Partial<{
 	 */
 	appToken: string;
 
+	/**
+	 * An authentication provider, used instead of the `userToken`, `tempToken` and `appToken` settings
+	 *
+	 * Use `QuickBaseUserTokenAuth`, `QuickBaseTempTokenAuth`, `QuickBaseSsoAuth` or your own
+	 * `QuickBaseAuthProvider`, for example to load tokens from a secrets manager.
+	 *
+	 * Default is `false`
+	 */
+	auth: false | QuickBaseAuthProvider;
+
 	/**
 	 * Provide a custom User-Agent to help track API usage within your logs
 	 *
@@ -492,6 +1423,21 @@ export type QuickBaseOptions = Partial<{
 	 */
 	retryOnQuotaExceeded: boolean;
 
+	/**
+	 * Retry failed requests with exponential backoff
+	 *
+	 * When set, rate limited requests are also capped by `maxAttempts` instead of retrying until they
+	 * succeed. Temporary token renewals are not counted as attempts.
+	 *
+	 * Reads are always retried. Writes that are not safe to send twice, such as an `upsert` without a
+	 * `mergeFieldId`, are only retried when rate limited or never sent, such as on `ECONNREFUSED`.
+	 * Network failures after they were sent throw a `QuickBaseOutcomeUnknownError`, even when
+	 * `retryPolicy` is `false`.
+	 *
+	 * Default is `false`
+	 */
+	retryPolicy: false | QuickBaseRetryPolicy;
+
 	/**
 	 * Allows the use of a proxy for Quickbase API requests
 	 *
@@ -504,7 +1450,27 @@ export type QuickBaseOptions = Partial<{
 			username: string;
 			password: string;
 		}
-	}
+	};
+
+	/**
+	 * Record API responses to, or replay them from, a JSON fixture file
+	 *
+	 * Node.js only. Replayed responses are matched by method, URL, query parameters and body, so tests
+	 * can run without network access or credentials.
+	 *
+	 * Default is `false`
+	 */
+	fixtures: false | QuickBaseFixtureOptions;
+
+	/**
+	 * The HTTP transport used to send requests
+	 *
+	 * `axios`, `fetch` for the native Fetch API, or a custom `QuickBaseTransport` function. Responses are
+	 * shaped like an `AxiosResponse` whichever transport is used. The `fetch` transport ignores `proxy`.
+	 *
+	 * Default is `axios`
+	 */
+	transport: 'axios' | 'fetch' | QuickBaseTransport;
 }>;
 
 export type QuickBaseRequest = {
@@ -512,6 +1478,148 @@ export type QuickBaseRequest = {
 	returnAxios?: boolean;
 };
 
+export type QuickBaseOperation = {
+	/**
+	 * The Quickbase API operation ID, such as `runQuery`
+	 */
+	id: string;
+
+	/**
+	 * Whether the request is safe to send again when its outcome is unknown
+	 */
+	idempotent: boolean;
+};
+
+export type QuickBaseRetryInfo = {
+	/**
+	 * The number of the attempt that failed, starting at `1`
+	 */
+	attempt: number;
+
+	/**
+	 * The time to wait before the next attempt, in milliseconds
+	 */
+	delay: number;
+
+	/**
+	 * The error of the failed attempt, a `QuickBaseError` for Quickbase API errors
+	 */
+	error: any;
+
+	/**
+	 * The request configuration
+	 */
+	config: AxiosRequestConfig;
+};
+
+export type QuickBaseRetryPolicy = {
+	/**
+	 * The maximum number of attempts, including the first
+	 *
+	 * Default is `3`
+	 */
+	maxAttempts?: number;
+
+	/**
+	 * The backoff before the first retry, in milliseconds, doubled with each retry
+	 *
+	 * Default is `500`
+	 */
+	baseDelay?: number;
+
+	/**
+	 * The maximum backoff between attempts, in milliseconds
+	 *
+	 * Default is `30000`
+	 */
+	maxDelay?: number;
+
+	/**
+	 * Wait a random time between zero and the backoff
+	 *
+	 * Default is `true`
+	 */
+	jitter?: boolean;
+
+	/**
+	 * The HTTP status codes to retry
+	 *
+	 * Default is `[ 429, 500, 502, 503, 504 ]`
+	 */
+	retryStatuses?: number[];
+
+	/**
+	 * The network error codes to retry, such as `ECONNRESET`
+	 *
+	 * Default is `[ 'ECONNABORTED', 'ECONNREFUSED', 'ECONNRESET', 'EAI_AGAIN', 'EPIPE', 'ETIMEDOUT', 'ERR_NETWORK' ]`
+	 */
+	retryErrorCodes?: string[];
+
+	/**
+	 * The total time allowed for all attempts, in milliseconds. A retry that would wait past the
+	 * deadline is not made. `0` for no deadline
+	 *
+	 * Default is `0`
+	 */
+	deadline?: number;
+
+	/**
+	 * Called before waiting for each retry
+	 */
+	onRetry?: (info: QuickBaseRetryInfo) => void | Promise<void>;
+};
+
+export type QuickBaseMiddlewareNext = (config: AxiosRequestConfig) => Promise<AxiosResponse>;
+
+export type QuickBaseMiddleware = (config: AxiosRequestConfig, next: QuickBaseMiddlewareNext) => Promise<AxiosResponse>;
+
+export type QuickBaseRecord = Record<string, { value: any }>;
+
+export type QuickBasePage = {
+	data: QuickBaseRecord[];
+	metadata: {
+		skip?: number;
+		totalRecords: number;
+		numRecords: number;
+	};
+};
+
+export type QuickBasePaginationOptions = {
+	/**
+	 * The maximum number of records to return across all pages
+	 */
+	maxRecords?: number;
+
+	/**
+	 * Cancels the iteration, including any in-flight request
+	 */
+	signal?: AbortSignal;
+};
+
+export type QuickBaseRequestIterateQuery = Omit<QuickBaseRequestRunQuery, 'returnAxios' | 'options'> & QuickBasePaginationOptions & {
+	options?: Partial<NonNullable<QuickBaseRequestRunQuery['options']>>;
+};
+
+export type QuickBaseRequestIterateReport = Omit<QuickBaseRequestRunReport, 'returnAxios'> & QuickBasePaginationOptions;
+
+export type QuickBaseRequestUpsertMany = Omit<QuickBaseRequestUpsert, 'returnAxios'> & {
+	/**
+	 * The maximum number of records per batch
+	 *
+	 * Default is `1000`
+	 */
+	batchSize?: number;
+
+	/**
+	 * The maximum serialized size of each batch, in bytes
+	 *
+	 * Default is `20971520` (20MB), Quickbase rejects payloads larger than 25MB
+	 */
+	maxBatchBytes?: number;
+};
+
+//** SHARED TYPES **//
+
 //** REQUEST TYPES **//
 
 //** RESPONSE TYPES **//
@@ -31,6 +31,7 @@ type SwaggerBodyPropertyObject = {
 	additionalProperties: boolean;
 	properties: SwaggerBodySchema;
 	required?: string[] | false;
+	'x-ref-name'?: string;
 };
 
 type SwaggerBodyPropertyUnion = {
@@ -45,12 +46,15 @@ type SwaggerBodySchema = {
 	description?: string;
 	required?: string[] | false;
 	additionalProperties: boolean;
-	properties: Record<string, SwaggerBodyProperty>
+	properties: Record<string, SwaggerBodyProperty>;
+	'x-ref-name'?: string;
 };
 
 type SwaggerParameterBody = {
 	name: 'generated';
+	description?: string;
 	in: 'body';
+	'x-amf-mediaType'?: string;
 	schema: SwaggerBodySchema;
 };
 
@@ -92,35 +96,134 @@ type SwaggerRequest = {
 	parameters: SwaggerParameter[];
 };
 
-type SwaggerOperation = {
+type SwaggerMethod = 'post' | 'get' | 'delete' | 'put' | 'patch';
+
+type SwaggerOperation = SwaggerRequest & {
 	id: string;
 	path: string;
-	method: 'post' | 'get' | 'delete' | 'put';
+	method: SwaggerMethod;
 	pathParams: SwaggerParameterPath[];
 	queryParams: SwaggerParameterQuery[];
 	parameters: SwaggerParameter[];
-	responses: {
-		'200': {
-			description: string;
-			schema: SwaggerResponseBody;
-		}
-	}
+	responses: Record<string, SwaggerResponse>;
+};
+
+type SwaggerResponse = {
+	description: string;
+	'x-amf-mediaType'?: string;
+	schema?: SwaggerResponseBody;
 };
 
 type SwaggerAPI = {
 	host: string;
 	basePath: string;
 	paths: {
-		[key: string]: {
-			post?: SwaggerRequest;
-			get?: SwaggerRequest;
-			delete?: SwaggerRequest;
-			put?: SwaggerRequest;
-		}
+		[key: string]: Partial<Record<SwaggerMethod, SwaggerRequest>>
 	};
 	operations: SwaggerOperation[]
 };
 
+type OpenAPIReference = {
+	$ref: string;
+};
+
+type OpenAPISchema = {
+	$ref?: string;
+	description?: string;
+	type?: string | string[];
+	enum?: string[];
+	required?: string[];
+	additionalProperties?: boolean | OpenAPISchema;
+	properties?: Record<string, OpenAPISchema>;
+	items?: OpenAPISchema;
+	oneOf?: OpenAPISchema[];
+	anyOf?: OpenAPISchema[];
+	allOf?: OpenAPISchema[];
+	[key: string]: any;
+};
+
+type OpenAPIParameter = {
+	name: string;
+	in: 'path' | 'query' | 'header' | 'cookie';
+	description?: string;
+	required?: boolean;
+	example?: any;
+	schema?: OpenAPISchema;
+	type?: string;
+};
+
+type OpenAPIMediaTypes = Record<string, {
+	schema?: OpenAPISchema;
+}>;
+
+type OpenAPIOperation = {
+	operationId: string;
+	summary?: string;
+	description?: string;
+	tags?: string[];
+	parameters?: (OpenAPIParameter | OpenAPIReference)[];
+	requestBody?: {
+		description?: string;
+		required?: boolean;
+		content: OpenAPIMediaTypes;
+	} | OpenAPIReference;
+	responses: Record<string, {
+		description?: string;
+		content?: OpenAPIMediaTypes;
+	} | OpenAPIReference>;
+};
+
+type Swagger2Operation = SwaggerRequest & {
+	responses?: Record<string, any>;
+};
+
+type OpenAPIPaths<T> = Record<string, Partial<Record<SwaggerMethod, T>> & {
+	parameters?: (OpenAPIParameter | OpenAPIReference)[];
+}>;
+
+type OpenAPI3Document = {
+	openapi: string;
+	swagger?: undefined;
+	servers?: {
+		url: string;
+	}[];
+	paths: OpenAPIPaths<OpenAPIOperation>;
+	components?: Record<string, Record<string, any>>;
+	operations?: undefined;
+};
+
+type Swagger2Document = {
+	openapi?: undefined;
+	swagger?: string;
+	host?: string;
+	basePath?: string;
+	paths: OpenAPIPaths<Swagger2Operation>;
+	definitions?: Record<string, OpenAPISchema>;
+	operations?: SwaggerOperation[];
+};
+
+type OpenAPIDocument = OpenAPI3Document | Swagger2Document;
+
+type SharedTypeDefinition = {
+	name: string;
+	description: string;
+	schema?: SwaggerBodyPropertyString;
+	operationId?: string;
+	status?: string;
+	path?: string[];
+};
+
+type ResponseStatus = {
+	key: string;
+	status: string;
+};
+
+type SharedType = {
+	name: string;
+	signature: string;
+	declaration: string;
+};
+
 type FnArgHelp = {
 	arg: string;
 	description: string;
@@ -130,12 +233,17 @@ type FnArgHelp = {
 
 /* Dependencies */
 import fs from 'fs/promises';
+import path from 'path';
 
 import Debug from 'debug';
 import merge from 'deepmerge';
 
 const debug = Debug('quickbase:generate');
-const apiSpec: SwaggerAPI = require('../../assets/QuickBase_RESTful_API.json');
+const specPath = process.argv[2] ? path.resolve(process.cwd(), process.argv[2]) : '../../assets/QuickBase_RESTful_API.json';
+const outPath = process.argv[3] ? path.resolve(process.cwd(), process.argv[3]) : __dirname + '/../quickbase.ts';
+const rawSpec: OpenAPIDocument = require(specPath);
+
+let apiSpec: SwaggerAPI;
 
 /* Overrides */
 const typeOverrides = {
@@ -222,12 +330,20 @@ const typeOverrides = {
 const overrides: Record<string, Partial<{
 	request: Partial<{
 		args: Record<string, string>;
+		bodyArg: string;
 		schema: Partial<SwaggerBodySchema>;
 		withCredentials: boolean;
+		// Safe to retry when the outcome is unknown, `true` or an expression over the method arguments
+		idempotent: boolean | string;
 	}>;
 	response: Partial<SwaggerResponseBody>;
 	arrayMerge?: boolean;
 }>> = {
+	audit: {
+		request: {
+			idempotent: true
+		}
+	},
 	copyApp: {
 		response: {
 			required: [
@@ -296,6 +412,11 @@ const overrides: Record<string, Partial<{
 			}
 		}
 	},
+	createSolution: {
+		request: {
+			bodyArg: 'qbl'
+		}
+	},
 	createRelationship: {
 		request: {
 			args: {
@@ -371,7 +492,11 @@ const overrides: Record<string, Partial<{
 				'hasEveryoneOnTheInternet',
 				'variables',
 				'securityProperties'
-			]
+			],
+			properties: {
+				// @ts-ignore
+				dateFormat: typeOverrides.dateFormat
+			}
 		}
 	},
 	getField: {
@@ -554,11 +679,22 @@ const overrides: Record<string, Partial<{
 			withCredentials: true
 		}
 	},
+	getUsers: {
+		request: {
+			idempotent: true
+		}
+	},
+	platformAnalyticEventSummaries: {
+		request: {
+			idempotent: true
+		}
+	},
 	runFormula: {
 		request: {
 			args: {
 				from: 'tableId'
-			}
+			},
+			idempotent: true
 		}
 	},
 	runQuery: {
@@ -566,6 +702,7 @@ const overrides: Record<string, Partial<{
 			args: {
 				from: 'tableId'
 			},
+			idempotent: true,
 			schema: {
 				properties: {
 					// @ts-ignore
@@ -602,6 +739,9 @@ const overrides: Record<string, Partial<{
 		}
 	},
 	runReport: {
+		request: {
+			idempotent: true
+		},
 		response: {
 			properties: {
 				// @ts-ignore
@@ -633,7 +773,11 @@ const overrides: Record<string, Partial<{
 				'hasEveryoneOnTheInternet',
 				'variables',
 				'securityProperties'
-			]
+			],
+			properties: {
+				// @ts-ignore
+				dateFormat: typeOverrides.dateFormat
+			}
 		}
 	},
 	updateField: {
@@ -703,6 +847,11 @@ const overrides: Record<string, Partial<{
 			}
 		}
 	},
+	updateSolution: {
+		request: {
+			bodyArg: 'qbl'
+		}
+	},
 	updateTable: {
 		request: {
 			schema: {
@@ -714,11 +863,82 @@ const overrides: Record<string, Partial<{
 		request: {
 			args: {
 				to: 'tableId'
-			}
+			},
+			// Records are matched on the merge field, so sending the same upsert again does not duplicate them
+			idempotent: 'body.mergeFieldId !== undefined'
 		}
 	}
 };
 
+const sharedTypeDefinitions: SharedTypeDefinition[] = [
+	{
+		name: 'QuickBaseDateFormat',
+		description: 'The date format of a Quickbase application',
+		schema: {
+			description: '',
+			type: 'string',
+			enum: typeOverrides.dateFormat.enum
+		}
+	},
+	{
+		name: 'QuickBaseFieldType',
+		description: 'The type of a Quickbase field',
+		schema: {
+			description: '',
+			type: 'string',
+			enum: typeOverrides.fieldType.enum
+		}
+	},
+	{
+		name: 'QuickBaseReportType',
+		description: 'The type of a Quickbase report',
+		schema: {
+			description: '',
+			type: 'string',
+			enum: typeOverrides.reportType.enum
+		}
+	},
+	{
+		name: 'QuickBaseFieldPermission',
+		description: 'A role\'s permission on a Quickbase field',
+		operationId: 'getField',
+		path: [ 'properties', 'permissions', 'items' ]
+	},
+	{
+		name: 'QuickBaseApp',
+		description: 'A Quickbase application',
+		operationId: 'getApp'
+	},
+	{
+		name: 'QuickBaseErrorResponse',
+		description: 'The standard Quickbase API error response body',
+		operationId: 'upsert',
+		status: '400'
+	}
+];
+
+const sharedTypes: SharedType[] = [];
+
+// Header parameters set by the client itself, these are not exposed as method options
+const managedHeaders = [
+	'authorization',
+	'content-type',
+	'qb-app-token',
+	'qb-realm-hostname',
+	'user-agent'
+];
+
+// Names exported by the hand written modules, generated shared types must not collide with these
+const reservedTypeNames = [
+	'QuickBase',
+	'QuickBaseError',
+	'QuickBaseOptions',
+	'QuickBaseQuery',
+	'QuickBaseRecord',
+	'QuickBaseRequest',
+	'QuickBaseTable'
+];
+
 /* Functions */
 const buildAPIFunction = (operationObj: SwaggerOperation) => {
 	const pathObj = apiSpec.paths[operationObj.path][operationObj.method];
@@ -746,10 +966,25 @@ const buildAPIFunction = (operationObj: SwaggerOperation) => {
 	const method = operationObj.method.toUpperCase();
 	let url = operationObj.path;
 	const withCredentials = overrides[operationObj.id]?.request?.withCredentials || false;
+	const idempotent = overrides[operationObj.id]?.request?.idempotent ?? (method === 'GET' || method === 'PUT');
 	const bodyParam = operationObj.parameters.filter((param) => {
 		return param.in === 'body' && param.schema.properties;
 	})[0] as SwaggerParameterBody;
 
+	// Non-JSON bodies, such as QBL YAML, are passed as a single argument and sent as is
+	const rawBodyParam = bodyParam ? undefined : operationObj.parameters.filter((param) => {
+		return param.in === 'body' && !isJSONMediaType(getBodyMediaType(operationObj, param));
+	})[0] as SwaggerParameterBody | undefined;
+	const rawBodyArg = overrides[operationObj.id]?.request?.bodyArg || 'body';
+	const rawBodyMediaType = rawBodyParam ? getBodyMediaType(operationObj, rawBodyParam) : undefined;
+
+	const headerParams = operationObj.parameters.filter((param) => {
+		return param.in === 'header' && managedHeaders.indexOf(param.name.toLowerCase()) === -1;
+	}) as SwaggerParameterHeader[];
+
+	// YAML responses, such as QBL, are returned as text
+	const isYAMLResponse = !!operationObj.responses['200'] && isYAMLMediaType(getResponseMediaType(operationObj, '200'));
+
 	operationObj.pathParams.forEach(({ name, type, description, required }) => {
 		const override = overrides[operationObj.id]?.request;
 		const origName = '' + name;
@@ -795,6 +1030,20 @@ const buildAPIFunction = (operationObj: SwaggerOperation) => {
 		reqType.push(`	${name}${required ? '' : '?'}: ${transformType(type)};`);
 	});
 
+	headerParams.forEach(({ name, type, description, required }) => {
+		const arg = getHeaderArg(name);
+
+		fnArgs.push({
+			arg,
+			description: description
+		});
+
+		reqType.push(`	/**`);
+		reqType.push(`	 * ${description}`);
+		reqType.push(`	 */`);
+		reqType.push(`	${arg}${required ? '' : '?'}: ${transformType(type)};`);
+	});
+
 	if(bodyParam && bodyParam.schema.properties){
 		const bodySchema = getBodySchema(operationObj, bodyParam.schema);
 
@@ -805,20 +1054,55 @@ const buildAPIFunction = (operationObj: SwaggerOperation) => {
 		});
 	}
 
+	if(rawBodyParam && rawBodyMediaType){
+		const description = (rawBodyParam.description || `The ${rawBodyMediaType} request body`).replace(/\.?$/, '.');
+
+		fnArgs.push({
+			arg: rawBodyArg,
+			description
+		});
+
+		reqType.push(`	/**`);
+		reqType.push(`	 * ${escapeDescription(description)}`);
+		reqType.push(`	 */`);
+		reqType.push(`	${rawBodyArg}: string;`);
+	}
+
 	if(operationObj.responses['200'] && operationObj.responses['200'].schema){
 		if(operationObj.id === 'downloadFile'){
 			resType.push(`type ${resTypeName} = string;`);
 		}else{
-			resType.push('type ' + buildType({
-				operationObj,
-				key: resTypeName,
-				property: getResponseSchema(operationObj),
-				isNested: false,
-				tabLevel: 1
-			}).map((line) => {
-				return line.slice(1);
-			}).join('\n').trim());
+			resType.push(buildResponseType(operationObj, resTypeName));
+		}
+	}
+
+	const hasResponseType = resType.length > 0;
+	const statuses = getResponseStatuses(operationObj);
+
+	statuses.forEach(({ key, status }) => {
+		const statusType = buildResponseType(operationObj, `${resTypeName}${status}`, key, status);
+
+		if(resType.length > 0){
+			resType.push('', `export ${statusType}`);
+		}else{
+			resType.push(statusType);
 		}
+	});
+
+	// Operations documenting more than one success status resolve with a `status` discriminated union
+	const successStatuses = statuses.filter(({ status }) => {
+		return status.startsWith('2');
+	});
+
+	const resultTypeName = successStatuses.length > 0 && hasResponseType ? `QuickBaseResult${capitalizedOperation}` : resTypeName;
+
+	if(resultTypeName !== resTypeName){
+		resType.push('', `export type ${resultTypeName} = ${[
+			`(${resTypeName} & { status: 200; })`,
+			...successStatuses.map(({ status }) => {
+				return `(${resTypeName}${status} & { status: ${status}; })`;
+			})
+		].join(' | ')};`);
 	}
 
 	const override = overrides[operationObj.id]?.request;
@@ -852,7 +1136,7 @@ const buildAPIFunction = (operationObj: SwaggerOperation) => {
 	reqType.push('};');
 
 	const argsList = (returnAxiosDefaultValue?: string) => fnArgs.filter(arg => arg.definedParam !== false).map(({ arg, defaultValue }) => {
-		if(arg !== 'returnAxios' || !returnAxiosDefaultValue){
+		if((arg !== 'returnAxios' && arg !== 'parse') || !returnAxiosDefaultValue){
 			return `${arg}${defaultValue ? ` = ${defaultValue}` : ''}`;
 		}
 
@@ -864,10 +1148,18 @@ const buildAPIFunction = (operationObj: SwaggerOperation) => {
 		'/**',
 		` * ${pathObj.summary}`,
 		' *',
-		`${pathObj.description.split('\n').map((line) => {
+		`${(pathObj.description || '').split('\n').map((line) => {
 			return ` * ${escapeDescription(line)}`;
 		}).join('\n')}`,
 		' *',
+		resultTypeName !== resTypeName ? [
+			' * Resolves with a `status` property set to the HTTP status code of the response:',
+			` * - \`200\`: ${escapeDescription(getResponseDescription(operationObj, '200') || 'Success')}`,
+			successStatuses.map(({ key, status }) => {
+				return ` * - \`${status}\`: ${escapeDescription(getResponseDescription(operationObj, key))}`;
+			}).join('\n'),
+			' *'
+		].join('\n') : false,
 		` * [Quickbase Documentation](https://developer.quickbase.com/operation/${operationObj.id})`,
 		' *',
 		` * @param options ${pathObj.summary} method options object`,
@@ -875,23 +1167,38 @@ const buildAPIFunction = (operationObj: SwaggerOperation) => {
 			return ` * @param options.${arg} ${escapeDescription(description)}`;
 		}).join('\n'),
 		' */',
-		`public async ${operationObj.id}({ ${argsList().join(', ')} }: ${reqTypeName} & { returnAxios?: false }): Promise<${resTypeName}>;`,
-		`public async ${operationObj.id}({ ${argsList().join(', ')} }: ${reqTypeName} & { returnAxios: true }): Promise<AxiosResponse<${resTypeName}>>;`,
-		`public async ${operationObj.id}({ ${argsList('false').join(', ')} }: ${reqTypeName}${argsAreOptional ? ' = {}' : ''}): Promise<${resTypeName} | AxiosResponse<${resTypeName}>> {`,
-		`	const results = await this.api<${resTypeName}>({`,
+		`public async ${operationObj.id}({ ${argsList().join(', ')} }: ${reqTypeName} & { returnAxios?: false }): Promise<${resultTypeName}>;`,
+		`public async ${operationObj.id}({ ${argsList().join(', ')} }: ${reqTypeName} & { returnAxios: true }): Promise<AxiosResponse<${resultTypeName}>>;`,
+		`public async ${operationObj.id}({ ${argsList('false').join(', ')} }: ${reqTypeName}${argsAreOptional ? ' = {}' : ''}): Promise<${resultTypeName} | AxiosResponse<${resultTypeName}>> {`,
+		`	const results = await this.api<${resultTypeName}>({`,
 		`		method: '${method}',`,
 		`		url: \`${url}\`,`,
 		!!withCredentials ? `		withCredentials: true,` : false,
 		!!bodyParam ? `		data: ${getAxiosDataParam(operationObj)},` : false,
+		headerParams.length > 0 || !!rawBodyMediaType ? `		headers: {\n${[
+			...headerParams.map(({ name }) => {
+				return `			'${name}': ${getHeaderArg(name)}`;
+			}),
+			...(rawBodyMediaType ? [ `			'Content-Type': '${rawBodyMediaType}'` ] : [])
+		].join(',\n')}\n		},` : false,
+		!!rawBodyMediaType ? `		data: ${rawBodyArg},` : false,
+		isYAMLResponse ? `		responseType: 'text',` : false,
 		operationObj.queryParams.length === 0 ? false : `		params: {\n${operationObj.queryParams.map((queryParam) => {
 				return `			${queryParam.name}`;
 			}).join(',\n')}
 		}`,
-		`	}, requestOptions);`,
+		`	}, requestOptions, {`,
+		`		id: '${operationObj.id}',`,
+		`		idempotent: ${idempotent}`,
+		`	});`,
 		operationObj.id === 'getTempTokenDBID' ? [
 			'',
 			`	this.setTempToken(dbid, results.data.temporaryAuthorization);`
 		].join('\n') : false,
+		resultTypeName !== resTypeName ? [
+			'',
+			`	results.data.status = results.status as ${resultTypeName}['status'];`
+		].join('\n') : false,
 		'',
 		`	return returnAxios ? results : results.data;`,
 		'}'
@@ -1042,15 +1349,23 @@ const buildType = ({
 	}
 
 	if(property.type === 'array'){
-		if(property.items && property.items.type){
+		// Objects without properties, such as free form maps, fall through to the overrides below
+		if(property.items && property.items.type && !(property.items.type === 'object' && !property.items.properties)){
 			if(property.items.type === 'object'){
-				results.push(`${key}${required ? '' : '?'}${isNested ? ':' : ' ='} {`);
+				const body = buildBodyType(operationObj, property.items, tabLevel);
+				const sharedType = getSharedType(body, property.items['x-ref-name']);
 
-				buildBodyType(operationObj, property.items, isNested ? tabLevel : tabLevel).forEach((line) => {
-					results.push(line);
-				});
+				if(sharedType){
+					results.push(`${key}${required ? '' : '?'}${isNested ? ':' : ' ='} ${sharedType}[]${unionProp ? ' | false' : ''};`);
+				}else{
+					results.push(`${key}${required ? '' : '?'}${isNested ? ':' : ' ='} {`);
 
-				results.push(`}[]${unionProp ? ' | false' : ''};`);
+					body.forEach((line) => {
+						results.push(line);
+					});
+
+					results.push(`}[]${unionProp ? ' | false' : ''};`);
+				}
 			}else{
 				results.push(`${key}${required ? '' : '?'}: ${transformType(property.items.type)}[];`);
 			}
@@ -1071,13 +1386,20 @@ const buildType = ({
 	}else
 	if(property.type === 'object'){
 		if(property.properties){
-			results.push(`${key}${required ? '' : '?'}${isNested ? ':' : ' ='} {`);
+			const body = buildBodyType(operationObj, property, tabLevel);
+			const sharedType = getSharedType(body, isNested ? property['x-ref-name'] : undefined);
 
-			buildBodyType(operationObj, property, isNested ? tabLevel : tabLevel).forEach((line) => {
-				results.push(line);
-			});
+			if(sharedType){
+				results.push(`${key}${required ? '' : '?'}${isNested ? ':' : ' ='} ${sharedType};`);
+			}else{
+				results.push(`${key}${required ? '' : '?'}${isNested ? ':' : ' ='} {`);
 
-			results.push(`};`);
+				body.forEach((line) => {
+					results.push(line);
+				});
+
+				results.push(`};`);
+			}
 		}else
 		if(key === 'lineErrors'){
 			results.push(`${key}${required ? '' : '?'}${isNested ? ':' : ' ='} Record<string, string[]>;`);
@@ -1089,9 +1411,9 @@ const buildType = ({
 	}else{
 		if(property.type){
 			if(property.type === 'string' && property.enum){
-				results.push(`${key}${required ? '' : '?'}: ${property.enum.map((val) => {
-					return `'${val}'`;
-				}).join(' | ')};`);
+				const union = buildEnumType(property.enum);
+
+				results.push(`${key}${required ? '' : '?'}: ${getSharedEnumType(union) || union};`);
 			}else{
 				results.push(`${key}${required ? '' : '?'}: ${transformType(property.type)};`);
 			}
@@ -1107,6 +1429,83 @@ const buildType = ({
 	});
 };
 
+const buildEnumType = (values: string[]) => {
+	return values.map((val) => {
+		return `'${val}'`;
+	}).join(' | ');
+};
+
+const buildResponseType = (operationObj: SwaggerOperation, typeName: string, key = '200', status = key) => {
+	if(!isTypedSchema(operationObj.responses[key].schema)){
+		// Error responses documented by example only use the standard error format
+		if(isErrorStatus(status)){
+			return `type ${typeName} = QuickBaseErrorResponse;`;
+		}
+
+		return `type ${typeName} = ${isJSONMediaType(getResponseMediaType(operationObj, key)) ? 'any' : 'string'};`;
+	}
+
+	return 'type ' + buildType({
+		operationObj,
+		key: typeName,
+		property: getResponseSchema(operationObj, key),
+		isNested: false,
+		tabLevel: 1
+	}).map((line) => {
+		return line.slice(1);
+	}).join('\n').trim();
+};
+
+const buildSharedType = ({ name, description, schema, operationId, status, path = [] }: SharedTypeDefinition) => {
+	if(schema && schema.enum){
+		const union = buildEnumType(schema.enum);
+
+		sharedTypes.push({
+			name,
+			signature: `enum:${union}`,
+			declaration: buildSharedTypeDeclaration(name, description, union)
+		});
+
+		return;
+	}
+
+	const operationObj = apiSpec.operations.find((operation) => {
+		return operation.id === operationId;
+	});
+
+	// Definitions other than the Quickbase API may not have every operation
+	if(!operationObj){
+		debug(`[WARN] Unable to find operation ${operationId} for shared type ${name}. Skipping.`);
+
+		return;
+	}
+
+	const property = path.reduce((property: any, part) => {
+		if(!property || property[part] === undefined){
+			throw new Error(`Unable to find ${path.join('.')} in ${operationId} for shared type ${name}`);
+		}
+
+		return property[part];
+	}, getResponseSchema(operationObj, status)) as SwaggerBodySchema;
+
+	const body = buildBodyType(operationObj, property);
+
+	sharedTypes.push({
+		name,
+		signature: getTypeSignature(body),
+		declaration: buildSharedTypeDeclaration(name, description, [ '{', ...body, '}' ].join('\n'))
+	});
+};
+
+const buildSharedTypeDeclaration = (name: string, description: string, type: string) => {
+	return [
+		'/**',
+		` * ${escapeDescription(description)}`,
+		' */',
+		`export type ${name} = ${type};`
+	].join('\n');
+};
+
 const capitalizeFirstLetter = (string: string) => {
 	return string.charAt(0).toLocaleUpperCase() + string.slice(1);
 };
@@ -1134,6 +1533,10 @@ ${Object.entries(override.args).map(([ orgArg, newArg ]) => {
 \t\t}`;
 };
 
+const getBodyMediaType = (operationObj: SwaggerOperation, param: SwaggerParameterBody) => {
+	return param['x-amf-mediaType'] || operationObj.consumes[0] || 'application/json';
+};
+
 const getBodySchema = (operationObj: SwaggerOperation, schema: SwaggerBodySchema) => {
 	return merge.all([
 		schema,
@@ -1141,10 +1544,79 @@ const getBodySchema = (operationObj: SwaggerOperation, schema: SwaggerBodySchema
 	]) as SwaggerBodySchema;
 };
 
-const getResponseSchema = (operationObj: SwaggerOperation) => {
+const getSharedEnumType = (union: string) => {
+	const signature = `enum:${union}`;
+
+	return sharedTypes.find((sharedType) => {
+		return sharedType.signature === signature;
+	})?.name;
+};
+
+const getSharedType = (body: string[], refName?: string) => {
+	const signature = getTypeSignature(body);
+	const sharedType = sharedTypes.find((sharedType) => {
+		return sharedType.signature === signature;
+	});
+
+	if(sharedType){
+		return sharedType.name;
+	}
+
+	if(!refName){
+		return undefined;
+	}
+
+	let name = `QuickBase${capitalizeFirstLetter(refName.replace(/[^a-zA-Z0-9]/g, ''))}`;
+
+	if(reservedTypeNames.indexOf(name) !== -1){
+		name += 'Schema';
+	}
+
+	if(sharedTypes.some((sharedType) => sharedType.name === name)){
+		debug(`[WARN] Schema ${refName} differs from the shared type ${name} after overrides. Inlining.`);
+
+		return undefined;
+	}
+
+	const indent = Math.min(...body.map((line) => line.match(/^\t*/)![0].length));
+
+	sharedTypes.push({
+		name,
+		signature,
+		declaration: buildSharedTypeDeclaration(name, `Shared \`${refName}\` schema`, [
+			'{',
+			...body.map((line) => '\t' + line.slice(indent)),
+			'}'
+		].join('\n'))
+	});
+
+	return name;
+};
+
+const getHeaderArg = (name: string) => {
+	return name.split('-').map((part, i) => {
+		part = part.toLocaleLowerCase();
+
+		return i === 0 ? part : capitalizeFirstLetter(part);
+	}).join('');
+};
+
+const getResponseMediaType = (operationObj: SwaggerOperation, key: string) => {
+	return operationObj.responses[key]['x-amf-mediaType'] || operationObj.produces[0] || 'application/json';
+};
+
+const getResponseDescription = (operationObj: SwaggerOperation, key: string) => {
+	const response = operationObj.responses[key];
+	const description = (response.description || (response.schema && response.schema.description) || '').replace(/\s+/g, ' ').trim();
+
+	// Only the first sentence, longer descriptions are kept on the response type itself
+	return (description.match(/^.*?\.(?=\s|$)/) || [ description ])[0];
+};
+
+const getResponseSchema = (operationObj: SwaggerOperation, key = '200') => {
 	return merge.all([
-		operationObj.responses['200'].schema,
-		overrides[operationObj.id]?.response || {},
+		operationObj.responses[key].schema as SwaggerResponseBody,
+		key === '200' && overrides[operationObj.id]?.response || {},
 		{
 			description: ''
 		}
@@ -1154,10 +1626,58 @@ const getResponseSchema = (operationObj: SwaggerOperation) => {
 	} : undefined */) as SwaggerBodyProperty;
 };
 
+const getResponseStatuses = (operationObj: SwaggerOperation) => {
+	const results: ResponseStatus[] = [];
+
+	Object.keys(operationObj.responses).forEach((key) => {
+		// Keys such as `401/403` and `4xx/5xx` document several statuses at once
+		key.split('/').forEach((part) => {
+			const status = part.trim() === 'default' ? 'Default' : part.trim().toUpperCase();
+
+			if(status === '200' || !status.match(/^([1-5][0-9X]{2}|Default)$/)){
+				return;
+			}
+
+			if(!results.some((result) => result.status === status)){
+				results.push({
+					key,
+					status
+				});
+			}
+		});
+	});
+
+	return results;
+};
+
+const getTypeSignature = (lines: string[]) => {
+	return lines.map((line) => {
+		return line.trim();
+	}).filter((line) => {
+		return line && !line.startsWith('/**') && !line.startsWith('*');
+	}).join('').replace(/\s+/g, '');
+};
+
+const isJSONMediaType = (mediaType: string) => {
+	return !!mediaType.match(/json/i);
+};
+
+const isYAMLMediaType = (mediaType: string) => {
+	return !!mediaType.match(/yaml/i);
+};
+
+const isErrorStatus = (status: string) => {
+	return status === 'Default' || !!status.match(/^[45]/);
+};
+
 const isSwaggerBodyPropertyUnion = (obj: any): obj is SwaggerBodyPropertyUnion => {
 	return obj['x-amf-union'] !== undefined;
 };
 
+const isTypedSchema = (schema: any) => {
+	return !!schema && (schema.type !== undefined || isSwaggerBodyPropertyUnion(schema));
+};
+
 const transformType = (type: string) => {
 	if(type === 'integer'){
 		return 'number';
@@ -1166,12 +1686,291 @@ const transformType = (type: string) => {
 	return type;
 };
 
+/* OpenAPI */
+const SWAGGER_METHODS: SwaggerMethod[] = [ 'get', 'post', 'put', 'patch', 'delete' ];
+
+const isOpenAPIReference = (obj: any): obj is OpenAPIReference => {
+	return !!obj && typeof(obj.$ref) === 'string';
+};
+
+const resolveReference = (ref: string): any => {
+	if(!ref.startsWith('#/')){
+		throw new Error(`Unable to resolve external reference: ${ref}`);
+	}
+
+	return ref.slice(2).split('/').reduce((obj, part) => {
+		const key = decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~');
+
+		if(!obj || obj[key] === undefined){
+			throw new Error(`Unable to resolve reference: ${ref}`);
+		}
+
+		return obj[key];
+	}, rawSpec as any);
+};
+
+const dereference = <T>(obj: T | OpenAPIReference, seen: string[] = []): T => {
+	if(!isOpenAPIReference(obj)){
+		return obj;
+	}
+
+	if(seen.indexOf(obj.$ref) !== -1){
+		throw new Error(`Circular reference: ${[ ...seen, obj.$ref ].join(' -> ')}`);
+	}
+
+	return dereference<T>(resolveReference(obj.$ref), [ ...seen, obj.$ref ]);
+};
+
+const convertSchema = (schema: OpenAPISchema, seen: string[] = []): any => {
+	if(schema.$ref !== undefined){
+		const { $ref, ...siblings } = schema;
+
+		if(seen.indexOf($ref) !== -1){
+			debug(`[WARN] Circular reference: ${$ref}. Assigning as \`any\`.`);
+
+			return {
+				description: schema.description
+			};
+		}
+
+		const refName = $ref.match(/^#\/(?:components\/schemas|definitions)\/([^/]+)$/);
+
+		return convertSchema({
+			...resolveReference($ref),
+			...(refName ? { 'x-ref-name': decodeURIComponent(refName[1]) } : {}),
+			...siblings
+		}, [ ...seen, $ref ]);
+	}
+
+	const { oneOf, anyOf, allOf, ...rest } = schema;
+	const union = oneOf || anyOf;
+
+	if(union){
+		return {
+			description: rest.description,
+			'x-amf-union': union.map((variant) => convertSchema(variant, seen))
+		};
+	}
+
+	if(allOf){
+		return merge.all([
+			...allOf.map((part) => convertSchema(part, seen)),
+			convertSchema(rest, seen)
+		]);
+	}
+
+	const results: any = {
+		...rest
+	};
+
+	if(Array.isArray(rest.type)){
+		results.type = rest.type.filter((type) => type !== 'null')[0];
+	}
+
+	if(rest.properties){
+		results.properties = Object.fromEntries(Object.entries(rest.properties).map(([ key, property ]) => {
+			return [ key, convertSchema(property, seen) ];
+		}));
+	}
+
+	if(rest.items){
+		results.items = convertSchema(rest.items, seen);
+	}
+
+	if(rest.additionalProperties && typeof(rest.additionalProperties) === 'object'){
+		results.additionalProperties = convertSchema(rest.additionalProperties, seen);
+	}
+
+	return results;
+};
+
+const convertParameter = (param: OpenAPIParameter | OpenAPIReference): SwaggerParameter => {
+	const { schema, ...rest } = dereference<OpenAPIParameter>(param);
+
+	if(rest.in === 'cookie'){
+		throw new Error(`Unsupported cookie parameter: ${rest.name}`);
+	}
+
+	const converted = schema ? convertSchema(schema) : {};
+
+	return {
+		...rest,
+		description: rest.description || converted.description || '',
+		required: rest.required || false,
+		type: rest.type || converted.type || 'string',
+		...(converted.enum ? { enum: converted.enum } : {})
+	} as SwaggerParameter;
+};
+
+const getMediaTypeSchema = (content: OpenAPIMediaTypes | undefined) => {
+	if(!content){
+		return undefined;
+	}
+
+	const mediaType = Object.keys(content).find((type) => type.match(/json/i)) || Object.keys(content)[0];
+
+	if(!mediaType || !content[mediaType].schema){
+		return undefined;
+	}
+
+	return {
+		mediaType,
+		schema: convertSchema(content[mediaType].schema as OpenAPISchema)
+	};
+};
+
+const convertOperation = (pathKey: string, method: SwaggerMethod, operation: OpenAPIOperation, pathParameters: SwaggerParameter[]): SwaggerOperation => {
+	const parameters = pathParameters.filter((pathParam) => {
+		return !(operation.parameters || []).some((param) => {
+			const opParam = dereference<OpenAPIParameter>(param);
+
+			return opParam.name === pathParam.name && opParam.in === pathParam.in;
+		});
+	}).concat((operation.parameters || []).map(convertParameter));
+
+	const produces: string[] = [];
+	const responses: Record<string, any> = {};
+
+	Object.entries(operation.responses || {}).forEach(([ status, response ]) => {
+		const { description, content } = dereference(response);
+		const body = getMediaTypeSchema(content);
+
+		Object.keys(content || {}).forEach((mediaType) => {
+			if(produces.indexOf(mediaType) === -1){
+				produces.push(mediaType);
+			}
+		});
+
+		responses[status] = {
+			description: description || '',
+			...(body ? {
+				'x-amf-mediaType': body.mediaType,
+				schema: body.schema
+			} : {})
+		};
+	});
+
+	let consumes: string[] = [];
+
+	if(operation.requestBody){
+		const requestBody = dereference(operation.requestBody);
+		const body = getMediaTypeSchema(requestBody.content);
+
+		consumes = Object.keys(requestBody.content || {});
+
+		if(body){
+			parameters.push({
+				'x-amf-mediaType': body.mediaType,
+				name: 'generated',
+				description: requestBody.description,
+				in: 'body',
+				schema: body.schema
+			} as SwaggerParameterBody);
+		}
+	}
+
+	return {
+		id: operation.operationId,
+		path: pathKey,
+		method,
+		summary: operation.summary || '',
+		description: operation.description || '',
+		operationId: operation.operationId,
+		consumes: consumes.length > 0 ? consumes : [ 'application/json' ],
+		produces: produces.length > 0 ? produces : [ 'application/json' ],
+		parameters,
+		pathParams: parameters.filter((param) => param.in === 'path') as SwaggerParameterPath[],
+		queryParams: parameters.filter((param) => param.in === 'query') as SwaggerParameterQuery[],
+		responses: responses as SwaggerOperation['responses']
+	};
+};
+
+const convertSwagger2Operation = (pathKey: string, method: SwaggerMethod, operation: Swagger2Operation): SwaggerOperation => {
+	const parameters = operation.parameters.map((param) => {
+		return param.in === 'body' ? {
+			...param,
+			schema: convertSchema(param.schema as OpenAPISchema)
+		} : param;
+	});
+
+	return {
+		...operation,
+		id: operation.operationId,
+		path: pathKey,
+		method,
+		parameters,
+		pathParams: parameters.filter((param) => param.in === 'path') as SwaggerParameterPath[],
+		queryParams: parameters.filter((param) => param.in === 'query') as SwaggerParameterQuery[],
+		responses: Object.fromEntries(Object.entries(operation.responses || {}).map(([ status, response ]) => {
+			return [ status, response.schema ? {
+				...response,
+				schema: convertSchema(response.schema)
+			} : response ];
+		})) as SwaggerOperation['responses']
+	};
+};
+
+const isOpenAPI3Document = (spec: OpenAPIDocument): spec is OpenAPI3Document => {
+	return !!spec.openapi && spec.openapi.startsWith('3.');
+};
+
+const convertPaths = <T>(paths: OpenAPIPaths<T>, convert: (pathKey: string, method: SwaggerMethod, operation: T, pathParameters: SwaggerParameter[]) => SwaggerOperation) => {
+	const operations: SwaggerOperation[] = [];
+
+	Object.entries(paths).forEach(([ pathKey, pathItem ]) => {
+		const pathParameters = (pathItem.parameters || []).map(convertParameter);
+
+		SWAGGER_METHODS.forEach((method) => {
+			const operation = pathItem[method];
+
+			if(operation){
+				operations.push(convert(pathKey, method, operation, pathParameters));
+			}
+		});
+	});
+
+	return operations;
+};
+
+const normalizeSpec = (spec: OpenAPIDocument): SwaggerAPI => {
+	const isOpenAPI3 = isOpenAPI3Document(spec);
+
+	if(!isOpenAPI3 && spec.swagger !== '2.0'){
+		throw new Error(`Unsupported API specification version: ${spec.openapi || spec.swagger}`);
+	}
+
+	// Swagger 2.0 documents exported with a precomputed `operations` list are used as is
+	if(!isOpenAPI3 && spec.operations){
+		return spec as SwaggerAPI;
+	}
+
+	const operations = isOpenAPI3 ? convertPaths(spec.paths, convertOperation) : convertPaths(spec.paths, convertSwagger2Operation);
+
+	const server = isOpenAPI3 && spec.servers && spec.servers[0] ? new URL(spec.servers[0].url, 'https://localhost') : undefined;
+
+	return {
+		host: server ? server.host : (!isOpenAPI3 && spec.host || ''),
+		basePath: server ? server.pathname : (!isOpenAPI3 && spec.basePath || ''),
+		paths: operations.reduce((paths, operation) => {
+			paths[operation.path] = paths[operation.path] || {};
+			paths[operation.path][operation.method] = operation;
+
+			return paths;
+		}, {} as SwaggerAPI['paths']),
+		operations
+	};
+};
+
 /* Main */
 (async () => {
 	try {
 		const baseCodeBuffer = await fs.readFile(__dirname + '/base.ts');
 		const baseCode = baseCodeBuffer.toString();
 
+		apiSpec = normalizeSpec(rawSpec);
+
+		sharedTypeDefinitions.forEach(buildSharedType);
+
 		const results = apiSpec.operations.map((operation) => {
 			return {
 				operation,
@@ -1180,7 +1979,7 @@ const transformType = (type: string) => {
 		});
 
 		await fs.writeFile(
-			__dirname + '/../quickbase.ts',
+			outPath,
 			baseCode.split('\n').reduce((code, line) => {
 				if(line.match(/\@remove\-line/)){
 					return code;
@@ -1193,6 +1992,9 @@ const transformType = (type: string) => {
 						return `\t${line}`;
 					}).join('\n');
 				}).join('\n\n'))
+				.replace('//** SHARED TYPES **//', sharedTypes.map((sharedType) => {
+					return sharedType.declaration;
+				}).join('\n\n'))
 				.replace('//** REQUEST TYPES **//', results.map((result) => {
 					return `export ${result.api.types.req}`;
 				}).join('\n\n'))
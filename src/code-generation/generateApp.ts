@@ -0,0 +1,255 @@
+'use strict';
+
+/* Types */
+type AppSnapshot = {
+	appId: string;
+	tables: (QuickBaseResponseGetAppTables[number] & {
+		fields: QuickBaseResponseGetFields;
+	})[];
+};
+
+type GenerateOptions = {
+	appId?: string;
+	snapshot?: string;
+	saveSnapshot?: string;
+	out: string;
+	importFrom: string;
+};
+
+/* Dependencies */
+import fs from 'fs/promises';
+
+import Debug from 'debug';
+import * as dotenv from 'dotenv';
+
+import {
+	QuickBase,
+	QuickBaseResponseGetAppTables,
+	QuickBaseResponseGetFields
+} from '../quickbase';
+
+const debug = Debug('quickbase:generate');
+
+/* Overrides */
+const fieldTypeMap: Record<string, string> = {
+	'recordid': 'number',
+	'numeric': 'number',
+	'currency': 'number',
+	'percent': 'number',
+	'rating': 'number',
+	'duration': 'number',
+	'date': 'Date',
+	'datetime': 'Date',
+	'timestamp': 'Date',
+	'checkbox': 'boolean',
+	'multitext': 'string[]',
+	'user': 'QuickBaseUser',
+	'multiuser': 'QuickBaseUser[]',
+	'text': 'string',
+	'text-multiple-choice': 'string',
+	'text-multi-line': 'string',
+	'rich-text': 'string',
+	'email': 'string',
+	'url': 'string',
+	'phone': 'string',
+	'timeofday': 'string',
+	'address': 'string'
+};
+
+/* Functions */
+const buildTable = (table: AppSnapshot['tables'][number], tableNames: string[]) => {
+	const name = uniqueName(toPascalCase(table.name) || 'Table', tableNames);
+	const propertyNames: string[] = [];
+
+	const fields = table.fields.filter((field) => {
+		return !!field.label;
+	}).map((field) => {
+		return {
+			...field,
+			property: uniqueName(toCamelCase(field.label as string) || `field${field.id}`, propertyNames, field.id)
+		};
+	});
+
+	return [
+		`/* ${escapeComment(table.name)} */`,
+		`export const ${name}FieldIds = {`,
+		fields.map((field) => {
+			return `\t${field.property}: ${field.id}`;
+		}).join(',\n'),
+		'} as const;',
+		'',
+		`export type ${name}Record = {`,
+		fields.map((field) => {
+			return [
+				'\t/**',
+				`\t * ${escapeComment(field.label as string)} (${field.id}, ${field.fieldType || 'unknown'})`,
+				'\t */',
+				`\t${field.property}?: ${fieldTypeMap[field.fieldType || ''] || 'any'};`
+			].join('\n');
+		}).join('\n'),
+		'};',
+		'',
+		`export class ${name}Table extends QuickBaseTable<${name}Record> {`,
+		'',
+		`\tstatic readonly tableId: string = ${quote(table.id)};`,
+		`\tstatic readonly fieldIds = ${name}FieldIds;`,
+		'',
+		'\tconstructor(quickbase: QuickBase) {',
+		'\t\tsuper({',
+		'\t\t\tquickbase,',
+		`\t\t\ttableId: ${name}Table.tableId,`,
+		`\t\t\taliases: ${name}FieldIds,`,
+		'\t\t\tfields: [',
+		fields.map((field) => {
+			return `\t\t\t\t{ id: ${field.id}, label: ${quote(field.label as string)}, fieldType: ${quote(field.fieldType || '')} }`;
+		}).join(',\n'),
+		'\t\t\t]',
+		'\t\t});',
+		'\t}',
+		'',
+		'}'
+	].join('\n');
+};
+
+const buildApp = (snapshot: AppSnapshot, importFrom: string) => {
+	const tableNames: string[] = [];
+
+	return [
+		'\'use strict\';',
+		'',
+		`/* Generated from Quickbase application ${snapshot.appId}, do not modify by hand */`,
+		'',
+		'/* Dependencies */',
+		'import {',
+		'\tQuickBase,',
+		'\tQuickBaseTable',
+		`} from '${importFrom}';`,
+		'',
+		'/* Types */',
+		'export type QuickBaseUser = {',
+		'\tid: string;',
+		'\temail: string;',
+		'\tname: string;',
+		'\tuserName?: string;',
+		'};',
+		'',
+		`export const APP_ID: string = ${quote(snapshot.appId)};`,
+		'',
+		snapshot.tables.map((table) => {
+			return buildTable(table, tableNames);
+		}).join('\n\n'),
+		''
+	].join('\n');
+};
+
+const escapeComment = (value: string) => {
+	return value.replace(/\*\//g, '*\\/').replace(/\n/g, ' ');
+};
+
+const getArgs = (argv: string[]): GenerateOptions => {
+	const args: Record<string, string> = {};
+
+	for(let i = 0; i < argv.length; ++i){
+		const match = argv[i].match(/^--([a-zA-Z-]+)(?:=(.*))?$/);
+
+		if(!match){
+			throw new Error(`Unknown argument: ${argv[i]}`);
+		}
+
+		args[toCamelCase(match[1])] = match[2] !== undefined ? match[2] : argv[++i];
+	}
+
+	if(!args.appId && !args.snapshot){
+		throw new Error('Usage: generateApp.ts (--appId <appId> | --snapshot <file>) [--saveSnapshot <file>] [--out <file>] [--importFrom <module>]');
+	}
+
+	return {
+		appId: args.appId,
+		snapshot: args.snapshot,
+		saveSnapshot: args.saveSnapshot,
+		out: args.out || `./${args.appId || 'app'}.ts`,
+		importFrom: args.importFrom || 'quickbase'
+	};
+};
+
+const getSnapshot = async (appId: string): Promise<AppSnapshot> => {
+	dotenv.config();
+
+	const qb = new QuickBase({
+		realm: process.env.QB_REALM,
+		userToken: process.env.QB_USERTOKEN
+	});
+
+	debug(`Loading tables for ${appId}...`);
+
+	const tables = await qb.getAppTables({
+		appId
+	});
+
+	return {
+		appId,
+		tables: await Promise.all(tables.map(async (table) => {
+			debug(`Loading fields for ${table.id}...`);
+
+			return {
+				...table,
+				fields: await qb.getFields({
+					tableId: table.id
+				})
+			};
+		}))
+	};
+};
+
+const quote = (value: string) => {
+	return `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'').replace(/\n/g, '\\n')}'`;
+};
+
+const toCamelCase = (value: string) => {
+	const pascal = toPascalCase(value);
+
+	return pascal.charAt(0).toLocaleLowerCase() + pascal.slice(1);
+};
+
+const toPascalCase = (value: string) => {
+	return value.replace(/#/g, ' Number ').split(/[^a-zA-Z0-9]+/).filter((part) => {
+		return !!part;
+	}).map((part) => {
+		return part.charAt(0).toLocaleUpperCase() + part.slice(1);
+	}).join('').replace(/^(\d)/, '_$1');
+};
+
+const uniqueName = (name: string, used: string[], fieldId?: number) => {
+	if(used.indexOf(name) !== -1){
+		name = fieldId !== undefined ? `${name}${fieldId}` : `${name}${used.length}`;
+	}
+
+	used.push(name);
+
+	return name;
+};
+
+/* Main */
+(async () => {
+	try {
+		const options = getArgs(process.argv.slice(2));
+
+		const snapshot: AppSnapshot = options.snapshot
+			? JSON.parse((await fs.readFile(options.snapshot)).toString())
+			: await getSnapshot(options.appId as string);
+
+		if(options.saveSnapshot){
+			debug(`Saving snapshot to ${options.saveSnapshot}...`);
+
+			await fs.writeFile(options.saveSnapshot, JSON.stringify(snapshot, null, '\t'));
+		}
+
+		debug(`Writing ${options.out}...`);
+
+		await fs.writeFile(options.out, buildApp(snapshot, options.importFrom));
+	}catch(err: any){
+		console.error(err);
+
+		process.exit(1);
+	}
+})();
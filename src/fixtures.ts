@@ -0,0 +1,227 @@
+'use strict';
+
+/* Dependencies */
+import {
+	existsSync,
+	mkdirSync,
+	readFileSync,
+	writeFileSync
+} from 'fs';
+import { dirname } from 'path';
+import {
+	AxiosError,
+	AxiosRequestConfig,
+	AxiosResponse,
+	InternalAxiosRequestConfig
+} from 'axios';
+import {
+	QuickBaseTransport,
+	axiosTransport
+} from './transport';
+
+/* Types */
+export type QuickBaseFixtureOptions = {
+	/**
+	 * `record` sends requests as usual and saves every request and response pair, `replay` serves
+	 * responses from the saved pairs without sending any requests
+	 */
+	mode: 'record' | 'replay';
+
+	/**
+	 * Path of the JSON fixture file
+	 */
+	path: string;
+};
+
+export type QuickBaseFixture = {
+	request: {
+		method: string;
+		url: string;
+		params?: Record<string, any>;
+		data?: any;
+	};
+	response: {
+		status: number;
+		statusText: string;
+		headers: Record<string, string>;
+		data: any;
+	};
+};
+
+type FixtureSession = {
+	fixtures: QuickBaseFixture[];
+	used: boolean[];
+};
+
+/* Globals */
+const REDACTED = '[REDACTED]';
+const SECRET_KEYS = /^(access_token|appToken|subject_token|tempToken|temporaryAuthorization|token|userToken)$/i;
+const IGNORED_HEADERS = [ 'set-cookie' ];
+
+const sessions = new Map<string, FixtureSession>();
+
+/* Helpers */
+const isPlainObject = (obj: any): boolean => {
+	return obj !== null && typeof(obj) === 'object' && Object.getPrototypeOf(obj) === Object.prototype;
+};
+
+const redact = (value: any): any => {
+	if(Array.isArray(value)){
+		return value.map(redact);
+	}
+
+	if(isPlainObject(value)){
+		return Object.entries(value).reduce((results, [ key, item ]) => {
+			results[key] = SECRET_KEYS.test(key) && typeof(item) === 'string' ? REDACTED : redact(item);
+
+			return results;
+		}, {} as Record<string, any>);
+	}
+
+	return value;
+};
+
+const stableStringify = (value: any): string => {
+	if(Array.isArray(value)){
+		return `[${value.map(stableStringify).join(',')}]`;
+	}
+
+	if(isPlainObject(value)){
+		return `{${Object.keys(value).filter((key) => value[key] !== undefined).sort().map((key) => {
+			return `${JSON.stringify(key)}:${stableStringify(value[key])}`;
+		}).join(',')}}`;
+	}
+
+	return JSON.stringify(value === undefined ? null : value);
+};
+
+const toFixtureRequest = (config: AxiosRequestConfig): QuickBaseFixture['request'] => {
+	const params = Object.entries(config.params || {}).filter(([ , value ]) => value !== undefined);
+
+	return redact({
+		method: (config.method || 'GET').toUpperCase(),
+		url: '/' + (config.url || '').replace(/^\//, ''),
+		params: params.length > 0 ? Object.fromEntries(params) : undefined,
+		data: config.data
+	});
+};
+
+const toFixtureResponse = (response: AxiosResponse): QuickBaseFixture['response'] => {
+	const headers = JSON.parse(JSON.stringify(response.headers || {}));
+
+	IGNORED_HEADERS.forEach((header) => {
+		delete headers[header];
+	});
+
+	return {
+		status: response.status,
+		statusText: response.statusText,
+		headers,
+		data: redact(response.data)
+	};
+};
+
+const getSession = ({ mode, path }: QuickBaseFixtureOptions): FixtureSession => {
+	let session = sessions.get(path);
+
+	if(!session){
+		// Recording always starts a new fixture file
+		const fixtures: QuickBaseFixture[] = mode === 'replay' && existsSync(path) ? JSON.parse(readFileSync(path).toString()) : [];
+
+		session = {
+			fixtures,
+			used: fixtures.map(() => false)
+		};
+
+		sessions.set(path, session);
+	}
+
+	return session;
+};
+
+const record = (options: QuickBaseFixtureOptions, config: AxiosRequestConfig, response: AxiosResponse) => {
+	const session = getSession(options);
+
+	session.fixtures.push({
+		request: toFixtureRequest(config),
+		response: toFixtureResponse(response)
+	});
+
+	session.used.push(true);
+
+	mkdirSync(dirname(options.path), {
+		recursive: true
+	});
+
+	writeFileSync(options.path, JSON.stringify(session.fixtures, null, '\t'));
+};
+
+const replay = <T = any>(options: QuickBaseFixtureOptions, config: AxiosRequestConfig): AxiosResponse<T> => {
+	const session = getSession(options);
+	const request = toFixtureRequest(config);
+	const key = stableStringify(request);
+
+	const matches = session.fixtures.reduce((matches, fixture, i) => {
+		return stableStringify(fixture.request) === key ? matches.concat(i) : matches;
+	}, [] as number[]);
+
+	if(matches.length === 0){
+		throw new Error(`No fixture recorded for ${request.method} ${request.url} in ${options.path}`);
+	}
+
+	// Identical requests are answered in recorded order, the last response is repeated once all are used
+	const index = matches.find((i) => !session.used[i]) ?? matches[matches.length - 1];
+	const fixture = session.fixtures[index];
+
+	session.used[index] = true;
+
+	const response: AxiosResponse<T> = {
+		data: JSON.parse(JSON.stringify(fixture.response.data)),
+		status: fixture.response.status,
+		statusText: fixture.response.statusText,
+		headers: {
+			...fixture.response.headers
+		},
+		config: config as InternalAxiosRequestConfig,
+		request: {}
+	};
+
+	const validateStatus = config.validateStatus || ((status: number) => status >= 200 && status < 300);
+
+	if(!validateStatus(response.status)){
+		throw new AxiosError(`Request failed with status code ${response.status}`, response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST, response.config, response.request, response);
+	}
+
+	return response;
+};
+
+/* Functions */
+/**
+ * Send a request through the fixture file, used by `QuickBase` when its `fixtures` option is set
+ *
+ * Requests are matched by method, URL, query parameters and body. Request headers are never saved,
+ * tokens in request and response bodies are redacted.
+ *
+ * @param options Fixture mode and path
+ * @param config Axios request configuration
+ * @param transport The transport used to send requests while recording
+ */
+export const requestFixture = async <T = any>(options: QuickBaseFixtureOptions, config: AxiosRequestConfig, transport: QuickBaseTransport = axiosTransport): Promise<AxiosResponse<T>> => {
+	if(options.mode === 'replay'){
+		return replay<T>(options, config);
+	}
+
+	try {
+		const response = await transport<T>(config);
+
+		record(options, config, response);
+
+		return response;
+	}catch(err: any){
+		if(err.response){
+			record(options, config, err.response);
+		}
+
+		throw err;
+	}
+};
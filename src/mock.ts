@@ -0,0 +1,1630 @@
+'use strict';
+
+/* Dependencies */
+import {
+	IncomingMessage,
+	Server,
+	ServerResponse,
+	createServer
+} from 'http';
+import { AddressInfo } from 'net';
+import {
+	QuickBaseQuery,
+	QuickBaseQueryCondition,
+	QuickBaseQueryNode,
+	QuickBaseQueryParseError
+} from './query';
+import type {
+	QuickBaseApp,
+	QuickBaseRecord,
+	QuickBaseResponseGetReport,
+	QuickBaseResponseGetTable
+} from './quickbase';
+
+/* Types */
+export type QuickBaseMockUser = {
+	email: string;
+	id: string;
+	name: string;
+	userName: string;
+};
+
+export type QuickBaseMockServerOptions = {
+	/**
+	 * User tokens accepted by the mock server, any user token is accepted if empty
+	 */
+	userTokens?: string[];
+
+	/**
+	 * Lifetime of temporary tokens issued by `auth/temporary/{dbid}` and `auth/oauth/token`, in milliseconds
+	 *
+	 * Default is `300000` (5 minutes)
+	 */
+	tempTokenLifetime?: number;
+
+	/**
+	 * The user reported as the owner and modifier of records and files
+	 */
+	user?: QuickBaseMockUser;
+};
+
+export type QuickBaseMockRequest = {
+	method: string;
+
+	/**
+	 * The request path and query string, with or without the API version prefix
+	 */
+	url: string;
+	headers?: Record<string, string | string[] | undefined>;
+	body?: any;
+};
+
+export type QuickBaseMockResponse = {
+	status: number;
+	headers: Record<string, string>;
+	body: any;
+};
+
+type MockApp = QuickBaseApp & {
+	ancestorId?: string;
+};
+
+type MockField = {
+	id: number;
+	label: string;
+	fieldType: string;
+	mode: string;
+	noWrap: boolean;
+	bold: boolean;
+	required: boolean;
+	appearsByDefault: boolean;
+	findEnabled: boolean;
+	unique: boolean;
+	doesDataCopy: boolean;
+	fieldHelp: string;
+	audited: boolean;
+	properties: Record<string, any>;
+	summaryWhere?: string;
+};
+
+type MockFileVersion = {
+	versionNumber: number;
+	fileName: string;
+	uploaded: string;
+	creator: QuickBaseMockUser;
+	data: string;
+};
+
+type MockRecord = Record<number, any>;
+
+type MockTable = {
+	appId: string;
+	info: QuickBaseResponseGetTable;
+	fields: MockField[];
+	records: MockRecord[];
+	reports: QuickBaseResponseGetReport[];
+};
+
+type MockRelationship = {
+	id: number;
+	parentTableId: string;
+	childTableId: string;
+};
+
+type MockContext = {
+	params: URLSearchParams;
+	body: any;
+	status: number;
+};
+
+type MockRoute = [ string, RegExp, (context: MockContext, ...args: string[]) => any ];
+
+/* Helpers */
+const NUMERIC_TYPES = [ 'numeric', 'currency', 'percent', 'rating', 'duration', 'recordid' ];
+const FIELD_ATTRIBUTES = [ 'label', 'noWrap', 'bold', 'required', 'appearsByDefault', 'findEnabled', 'unique', 'fieldHelp', 'audited' ] as const;
+const TABLE_ATTRIBUTES = [ 'name', 'description', 'singleRecordName', 'pluralRecordName' ] as const;
+const USAGE_KEYS = [ 'actions', 'appHomePages', 'dashboards', 'defaultReports', 'exactForms', 'fields', 'forms', 'notifications', 'personalReports', 'pipelines', 'relationships', 'reminders', 'reports', 'roles', 'tableImports', 'tableRules', 'webhooks' ];
+const DAY = 24 * 60 * 60 * 1000;
+
+class MockError extends Error {
+
+	constructor(public status: number, public message: string, public description: string) {
+		super(message);
+	}
+
+}
+
+const fail = (status: number, message: string, description: string): never => {
+	throw new MockError(status, message, description);
+};
+
+const clone = <T>(value: T): T => {
+	return JSON.parse(JSON.stringify(value));
+};
+
+const now = () => {
+	return new Date().toISOString();
+};
+
+const isNumeric = (value: string) => {
+	return value !== '' && !isNaN(+value);
+};
+
+const startOfDay = (time: number) => {
+	return time - (time % DAY);
+};
+
+const parseDate = (value: string) => {
+	if(value.toLowerCase() === 'today'){
+		return startOfDay(Date.now());
+	}
+
+	return isNumeric(value) ? +value : Date.parse(value);
+};
+
+const getDateRange = (value: string): [ number, number ] => {
+	const today = startOfDay(Date.now());
+	const relative = value.trim().toLowerCase().match(/^(last|next)\s+(\d+)\s*d(ays?)?$/);
+
+	switch(value.trim().toLowerCase()){
+		case 'today': return [ today, today + DAY ];
+		case 'yesterday': return [ today - DAY, today ];
+		case 'tomorrow': return [ today + DAY, today + 2 * DAY ];
+	}
+
+	if(relative){
+		return relative[1] === 'last' ? [ today - (+relative[2] - 1) * DAY, today + DAY ] : [ today, today + +relative[2] * DAY ];
+	}
+
+	const date = parseDate(value);
+
+	if(isNaN(date)){
+		return fail(400, 'Bad Request', `Invalid date range '${value}'`);
+	}
+
+	return [ startOfDay(date), startOfDay(date) + DAY ];
+};
+
+const toText = (value: any): string => {
+	if(value === null || value === undefined){
+		return '';
+	}
+
+	if(Array.isArray(value)){
+		return value.map(toText).join(';');
+	}
+
+	if(typeof(value) === 'object'){
+		if(value.email !== undefined){
+			return '' + value.email;
+		}
+
+		if(Array.isArray(value.versions)){
+			return value.versions.length > 0 ? value.versions[value.versions.length - 1].fileName : '';
+		}
+
+		return JSON.stringify(value);
+	}
+
+	return '' + value;
+};
+
+const compareText = (a: string, b: string) => {
+	if(isNumeric(a) && isNumeric(b)){
+		return +a - +b;
+	}
+
+	const dateA = Date.parse(a);
+	const dateB = Date.parse(b);
+
+	if(!isNumeric(a) && !isNumeric(b) && !isNaN(dateA) && !isNaN(dateB)){
+		return dateA - dateB;
+	}
+
+	return a.toLowerCase().localeCompare(b.toLowerCase());
+};
+
+const isEqualText = (value: any, expected: string) => {
+	if(typeof(value) === 'boolean'){
+		return value === ([ 'true', '1', 'yes', 'y' ].indexOf(expected.toLowerCase()) !== -1);
+	}
+
+	const actual = toText(value);
+
+	if(isNumeric(actual) && isNumeric(expected)){
+		return +actual === +expected;
+	}
+
+	return actual.toLowerCase() === expected.toLowerCase();
+};
+
+const matchCondition = (value: any, { operator, value: expected }: QuickBaseQueryCondition): boolean => {
+	const actual = toText(value);
+	const lower = actual.toLowerCase();
+
+	switch(operator){
+		case 'CT': return lower.indexOf(expected.toLowerCase()) !== -1;
+		case 'XCT': return lower.indexOf(expected.toLowerCase()) === -1;
+		case 'HAS': return (Array.isArray(value) ? value : [ value ]).some((item) => isEqualText(item, expected));
+		case 'XHAS': return !(Array.isArray(value) ? value : [ value ]).some((item) => isEqualText(item, expected));
+		case 'EX':
+		case 'TV': return isEqualText(value, expected);
+		case 'XEX': return !isEqualText(value, expected);
+		case 'SW': return lower.startsWith(expected.toLowerCase());
+		case 'XSW': return !lower.startsWith(expected.toLowerCase());
+		case 'LT': return actual !== '' && compareText(actual, expected) < 0;
+		case 'LTE': return actual !== '' && compareText(actual, expected) <= 0;
+		case 'GT': return actual !== '' && compareText(actual, expected) > 0;
+		case 'GTE': return actual !== '' && compareText(actual, expected) >= 0;
+	}
+
+	const date = parseDate(actual);
+
+	if(actual === '' || isNaN(date)){
+		return operator === 'XIR';
+	}
+
+	switch(operator){
+		case 'BF': return date < parseDate(expected);
+		case 'OBF': return date <= parseDate(expected);
+		case 'AF': return date > parseDate(expected);
+		case 'OAF': return date >= parseDate(expected);
+	}
+
+	const [ start, end ] = getDateRange(expected);
+	const inRange = date >= start && date < end;
+
+	return operator === 'IR' ? inRange : !inRange;
+};
+
+const parseWhere = (where?: string): QuickBaseQueryNode => {
+	try {
+		return QuickBaseQuery.parse(where || '').node;
+	}catch(err){
+		if(err instanceof QuickBaseQueryParseError){
+			return fail(400, 'Bad Request', `Invalid query: ${err.message}`);
+		}
+
+		throw err;
+	}
+};
+
+const getEmptyValue = (field: MockField) => {
+	if(field.fieldType === 'checkbox'){
+		return false;
+	}
+
+	if(NUMERIC_TYPES.indexOf(field.fieldType) !== -1){
+		return null;
+	}
+
+	if(field.fieldType === 'multitext' || field.fieldType === 'multiuser'){
+		return [];
+	}
+
+	return '';
+};
+
+const summarize = (values: any[], summaryFunction: string) => {
+	const numbers = values.filter((value) => value !== null && value !== '' && !isNaN(+value)).map((value) => +value);
+	const sum = numbers.reduce((total, value) => total + value, 0);
+
+	switch(summaryFunction){
+		case 'COUNT': return values.length;
+		case 'DISTINCT-COUNT': return values.map(toText).filter((value, i, arr) => arr.indexOf(value) === i).length;
+		case 'COMBINED-TEXT': return values.map(toText).filter((value) => value !== '').join('; ');
+		case 'SUM': return sum;
+		case 'AVG': return numbers.length > 0 ? sum / numbers.length : null;
+		case 'MAX': return numbers.length > 0 ? Math.max(...numbers) : null;
+		case 'MIN': return numbers.length > 0 ? Math.min(...numbers) : null;
+		case 'STD-DEV': {
+			if(numbers.length === 0){
+				return null;
+			}
+
+			const avg = sum / numbers.length;
+
+			return Math.sqrt(numbers.reduce((total, value) => total + Math.pow(value - avg, 2), 0) / numbers.length);
+		}
+	}
+
+	return null;
+};
+
+const formatField = (field: MockField, includePermissions = false) => {
+	const { summaryWhere, ...results } = field;
+
+	return includePermissions ? {
+		...results,
+		permissions: []
+	} : results;
+};
+
+const createField = (id: number, label: string, fieldType: string, options: Partial<MockField> = {}): MockField => {
+	return {
+		id,
+		label,
+		fieldType,
+		mode: '',
+		noWrap: false,
+		bold: false,
+		required: false,
+		appearsByDefault: true,
+		findEnabled: true,
+		unique: false,
+		doesDataCopy: false,
+		fieldHelp: '',
+		audited: false,
+		properties: {},
+		...options
+	};
+};
+
+const getBuiltInFields = () => {
+	return [
+		createField(1, 'Date Created', 'timestamp', { appearsByDefault: false }),
+		createField(2, 'Date Modified', 'timestamp', { appearsByDefault: false }),
+		createField(3, 'Record ID#', 'recordid', { appearsByDefault: false, unique: true }),
+		createField(4, 'Record Owner', 'user', { appearsByDefault: false }),
+		createField(5, 'Last Modified By', 'user', { appearsByDefault: false })
+	];
+};
+
+const sortFields = (fields: MockField[]) => {
+	// User defined fields are listed before the built in ones
+	return fields.slice().sort((a, b) => {
+		return (a.id <= 5 ? 1 : 0) - (b.id <= 5 ? 1 : 0) || a.id - b.id;
+	});
+};
+
+const paginate = <T>(items: T[], skip?: any, top?: any) => {
+	const start = +(skip || 0);
+
+	return items.slice(start, top ? start + +top : undefined);
+};
+
+/* Main Class */
+export class QuickBaseMockServer {
+
+	public readonly CLASS_NAME: string = 'QuickBaseMockServer';
+	static readonly CLASS_NAME: string = 'QuickBaseMockServer';
+
+	/**
+	 * The default settings of a `QuickBaseMockServer` instance
+	 */
+	static defaults: Required<QuickBaseMockServerOptions> = {
+		userTokens: [],
+		tempTokenLifetime: 5 * 60 * 1000,
+		user: {
+			email: 'mock@example.com',
+			id: '1.mock',
+			name: 'Mock User',
+			userName: 'mock'
+		}
+	};
+
+	/**
+	 * The `QuickBaseMockServer` instance settings
+	 */
+	public settings: Required<QuickBaseMockServerOptions>;
+
+	private apps = new Map<string, MockApp>();
+	private tables = new Map<string, MockTable>();
+	private relationships: MockRelationship[] = [];
+	private tempTokens = new Map<string, number>();
+	private sequence: number = 0;
+	private server?: Server;
+
+	private readonly routes: MockRoute[] = [
+		[ 'POST', /^\/apps$/, ({ body }) => this.createApp(body) ],
+		[ 'GET', /^\/apps\/([^/]+)$/, (_, appId) => this.getApp(appId) ],
+		[ 'POST', /^\/apps\/([^/]+)$/, ({ body }, appId) => this.updateApp(appId, body) ],
+		[ 'DELETE', /^\/apps\/([^/]+)$/, ({ body }, appId) => this.deleteApp(appId, body) ],
+		[ 'GET', /^\/apps\/([^/]+)\/events$/, (_, appId) => this.getApp(appId) && [] ],
+		[ 'POST', /^\/apps\/([^/]+)\/copy$/, ({ body }, appId) => this.copyApp(appId, body) ],
+		[ 'POST', /^\/tables$/, ({ params, body }) => this.createTable(params.get('appId'), body) ],
+		[ 'GET', /^\/tables$/, ({ params }) => this.getAppTables(params.get('appId')) ],
+		[ 'GET', /^\/tables\/([^/]+)$/, ({ params }, tableId) => this.getTable(tableId, params.get('appId')).info ],
+		[ 'POST', /^\/tables\/([^/]+)$/, ({ params, body }, tableId) => this.updateTable(tableId, params.get('appId'), body) ],
+		[ 'DELETE', /^\/tables\/([^/]+)$/, ({ params }, tableId) => this.deleteTable(tableId, params.get('appId')) ],
+		[ 'GET', /^\/tables\/([^/]+)\/relationships$/, ({ params }, tableId) => this.getRelationships(tableId, params.get('skip')) ],
+		[ 'POST', /^\/tables\/([^/]+)\/relationship$/, ({ body }, tableId) => this.createRelationship(tableId, body) ],
+		[ 'POST', /^\/tables\/([^/]+)\/relationship\/(\d+)$/, ({ body }, tableId, relationshipId) => this.updateRelationship(tableId, +relationshipId, body) ],
+		[ 'DELETE', /^\/tables\/([^/]+)\/relationship\/(\d+)$/, (_, tableId, relationshipId) => this.deleteRelationship(tableId, +relationshipId) ],
+		[ 'GET', /^\/reports$/, ({ params }) => this.getTable(params.get('tableId')).reports ],
+		[ 'GET', /^\/reports\/([^/]+)$/, ({ params }, reportId) => this.getReport(params.get('tableId'), reportId) ],
+		[ 'POST', /^\/reports\/([^/]+)\/run$/, ({ params }, reportId) => this.runReport(params.get('tableId'), reportId, params.get('skip'), params.get('top')) ],
+		[ 'GET', /^\/fields$/, ({ params }) => this.getFields(params.get('tableId'), params.get('includeFieldPerms') === 'true') ],
+		[ 'POST', /^\/fields$/, ({ params, body }) => this.createField(params.get('tableId'), body) ],
+		[ 'DELETE', /^\/fields$/, ({ params, body }) => this.deleteFields(params.get('tableId'), body) ],
+		[ 'GET', /^\/fields\/usage$/, ({ params }) => this.getFieldsUsage(params.get('tableId'), params.get('skip'), params.get('top')) ],
+		[ 'GET', /^\/fields\/usage\/(\d+)$/, ({ params }, fieldId) => this.getFieldUsage(params.get('tableId'), +fieldId) ],
+		[ 'GET', /^\/fields\/(\d+)$/, ({ params }, fieldId) => formatField(this.getField(this.getTable(params.get('tableId')), +fieldId), params.get('includeFieldPerms') === 'true') ],
+		[ 'POST', /^\/fields\/(\d+)$/, ({ params, body }, fieldId) => this.updateField(params.get('tableId'), +fieldId, body) ],
+		[ 'POST', /^\/records$/, (context) => this.upsert(context) ],
+		[ 'DELETE', /^\/records$/, ({ body }) => this.deleteRecords(body) ],
+		[ 'POST', /^\/records\/query$/, ({ body }) => this.runQuery(body) ],
+		[ 'GET', /^\/auth\/temporary\/([^/]+)$/, (_, dbid) => this.getTempToken(dbid) ],
+		[ 'POST', /^\/auth\/oauth\/token$/, ({ body }) => this.exchangeSsoToken(body) ],
+		[ 'GET', /^\/files\/([^/]+)\/(\d+)\/(\d+)\/(\d+)$/, (_, tableId, recordId, fieldId, versionNumber) => this.getFile(tableId, +recordId, +fieldId, +versionNumber).data ],
+		[ 'DELETE', /^\/files\/([^/]+)\/(\d+)\/(\d+)\/(\d+)$/, (_, tableId, recordId, fieldId, versionNumber) => this.deleteFile(tableId, +recordId, +fieldId, +versionNumber) ]
+	];
+
+	/**
+	 * An in-memory Quickbase API for running tests offline
+	 *
+	 * Implements the apps, tables, fields, records, reports, files and relationships endpoints, including
+	 * `where` clause evaluation, lookup and summary fields. Point a `QuickBase` instance at it with the
+	 * `server` option.
+	 *
+	 * Example:
+	 * ```typescript
+	 * const mock = new QuickBaseMockServer();
+	 *
+	 * const qb = new QuickBase({
+	 * 	server: await mock.listen(),
+	 * 	realm: 'mock',
+	 * 	userToken: 'mock'
+	 * });
+	 *
+	 * // ...
+	 *
+	 * await mock.close();
+	 * ```
+	 *
+	 * @param options Mock server options
+	 */
+	constructor(options?: QuickBaseMockServerOptions) {
+		this.settings = {
+			...QuickBaseMockServer.defaults,
+			...(options || {})
+		};
+
+		return this;
+	}
+
+	/**
+	 * Start an HTTP server for the mock API
+	 *
+	 * Resolves with the origin to pass as the `server` option of a `QuickBase` instance.
+	 *
+	 * @param port Port to listen on, a random free port is used by default
+	 * @param hostname Hostname to listen on, default is `127.0.0.1`
+	 */
+	async listen(port: number = 0, hostname: string = '127.0.0.1'): Promise<string> {
+		if(this.server){
+			throw new Error('Mock server is already listening');
+		}
+
+		const server = createServer((req, res) => {
+			this.onRequest(req, res);
+		});
+
+		await new Promise<void>((resolve, reject) => {
+			server.once('error', reject);
+			server.listen(port, hostname, resolve);
+		});
+
+		this.server = server;
+
+		return `http://${hostname}:${(server.address() as AddressInfo).port}`;
+	}
+
+	/**
+	 * Stop the HTTP server started by `listen()`
+	 */
+	async close(): Promise<void> {
+		const server = this.server;
+
+		if(!server){
+			return;
+		}
+
+		this.server = undefined;
+
+		server.closeAllConnections();
+
+		await new Promise<void>((resolve, reject) => {
+			server.close((err) => err ? reject(err) : resolve());
+		});
+	}
+
+	/**
+	 * Remove all apps, tables, records and temporary tokens
+	 */
+	reset(): QuickBaseMockServer {
+		this.apps.clear();
+		this.tables.clear();
+		this.tempTokens.clear();
+		this.relationships = [];
+
+		return this;
+	}
+
+	/**
+	 * Handle a single API request without going through HTTP
+	 *
+	 * Example:
+	 * ```typescript
+	 * const { status, body } = mock.handle({
+	 * 	method: 'POST',
+	 * 	url: '/v1/apps',
+	 * 	headers: { 'QB-Realm-Hostname': 'mock', Authorization: 'QB-USER-TOKEN mock' },
+	 * 	body: { name: 'Test App' }
+	 * });
+	 * ```
+	 *
+	 * @param request The request method, URL, headers and parsed body
+	 */
+	handle(request: QuickBaseMockRequest): QuickBaseMockResponse {
+		const url = new URL(request.url, 'http://localhost');
+		const path = url.pathname.replace(/^\/v\d+(?=\/)/, '').replace(/(.)\/$/, '$1');
+		const method = request.method.toUpperCase();
+		const headers = {
+			'qb-api-ray': `mock-${++this.sequence}`
+		};
+
+		try {
+			let args: string[] | undefined;
+
+			const route = this.routes.find(([ routeMethod, pattern ]) => {
+				args = routeMethod === method ? (path.match(pattern) || undefined) : undefined;
+
+				return !!args;
+			});
+
+			if(!route || !args){
+				return fail(404, 'Not Found', `${method} ${path} is not supported by the mock server`);
+			}
+
+			if(!path.startsWith('/auth/temporary/') && path !== '/auth/oauth/token'){
+				this.authenticate(request.headers || {});
+			}
+
+			const context: MockContext = {
+				params: url.searchParams,
+				body: request.body || {},
+				status: 200
+			};
+
+			const body = route[2](context, ...args.slice(1).map(decodeURIComponent));
+
+			return {
+				status: context.status,
+				headers,
+				body: body === undefined ? {} : body
+			};
+		}catch(err){
+			if(err instanceof MockError){
+				return {
+					status: err.status,
+					headers,
+					body: {
+						message: err.message,
+						description: err.description
+					}
+				};
+			}
+
+			throw err;
+		}
+	}
+
+	/**
+	 * Test if a variable is a `QuickBaseMockServer` object
+	 *
+	 * @param obj A variable you'd like to test
+	 */
+	static IsQuickBaseMockServer(obj: any): obj is QuickBaseMockServer {
+		return ((obj || {}) as QuickBaseMockServer).CLASS_NAME === QuickBaseMockServer.CLASS_NAME;
+	}
+
+	private onRequest(req: IncomingMessage, res: ServerResponse) {
+		const chunks: Buffer[] = [];
+
+		req.on('data', (chunk: Buffer) => {
+			chunks.push(chunk);
+		});
+
+		req.on('end', () => {
+			let response: QuickBaseMockResponse;
+
+			try {
+				const raw = Buffer.concat(chunks).toString('utf8');
+
+				response = this.handle({
+					method: req.method || 'GET',
+					url: req.url || '/',
+					headers: req.headers,
+					body: raw && ('' + req.headers['content-type']).match(/json/i) ? JSON.parse(raw) : (raw || undefined)
+				});
+			}catch(err: any){
+				response = {
+					status: err instanceof SyntaxError ? 400 : 500,
+					headers: {},
+					body: {
+						message: err instanceof SyntaxError ? 'Bad Request' : 'Internal Server Error',
+						description: err.message
+					}
+				};
+			}
+
+			const isText = typeof(response.body) === 'string';
+
+			res.writeHead(response.status, {
+				...response.headers,
+				'Content-Type': isText ? 'text/plain; charset=utf-8' : 'application/json; charset=utf-8'
+			});
+
+			res.end(isText ? response.body : JSON.stringify(response.body));
+		});
+	}
+
+	private authenticate(headers: Record<string, string | string[] | undefined>) {
+		const getHeader = (name: string) => {
+			const key = Object.keys(headers).find((key) => key.toLowerCase() === name);
+			const value = key ? headers[key] : undefined;
+
+			return Array.isArray(value) ? value[0] : value;
+		};
+
+		if(!getHeader('qb-realm-hostname')){
+			return fail(400, 'Bad Request', 'Required header \'QB-Realm-Hostname\' not found');
+		}
+
+		const authorization = getHeader('authorization');
+
+		if(!authorization){
+			return fail(401, 'Unauthorized', 'Required header \'authorization\' not found');
+		}
+
+		const [ type, token ] = authorization.split(' ');
+
+		if(type === 'QB-USER-TOKEN' && token){
+			if(this.settings.userTokens.length > 0 && this.settings.userTokens.indexOf(token) === -1){
+				return fail(401, 'Unauthorized', 'Invalid Authorization');
+			}
+
+			return;
+		}
+
+		if(type === 'QB-TEMP-TOKEN' && token){
+			const expires = this.tempTokens.get(token);
+
+			if(expires === undefined){
+				return fail(401, 'Unauthorized', 'Invalid Authorization');
+			}
+
+			if(expires <= Date.now()){
+				return fail(401, 'Unauthorized', 'Your ticket has expired.');
+			}
+
+			return;
+		}
+
+		return fail(401, 'Unauthorized', 'Invalid Authorization');
+	}
+
+	private nextId(): string {
+		const id = (++this.sequence).toString(36);
+
+		return 'b' + '00000000'.slice(id.length) + id;
+	}
+
+	private getTempToken(dbid: string) {
+		if(!this.apps.has(dbid) && !this.tables.has(dbid)){
+			return fail(404, 'Not Found', `No app or table with ID ${dbid}`);
+		}
+
+		const token = `mock.${dbid}.${++this.sequence}`;
+
+		this.tempTokens.set(token, Date.now() + this.settings.tempTokenLifetime);
+
+		return {
+			temporaryAuthorization: token
+		};
+	}
+
+	private exchangeSsoToken(body: any) {
+		// Any subject token is accepted, SAML assertions are not verified
+		if(!body.subject_token){
+			return fail(400, 'Bad Request', 'subject_token is required');
+		}
+
+		const token = `mock.sso.${++this.sequence}`;
+
+		this.tempTokens.set(token, Date.now() + this.settings.tempTokenLifetime);
+
+		return {
+			access_token: token,
+			issued_token_type: body.requested_token_type,
+			token_type: 'N_A'
+		};
+	}
+
+	/* Apps */
+	private getApp(appId: string): MockApp {
+		const app = this.apps.get(appId);
+
+		if(!app){
+			return fail(404, 'Not Found', `App with ID ${appId} not found`);
+		}
+
+		return app;
+	}
+
+	private createApp(body: any): MockApp {
+		if(!body.name){
+			return fail(400, 'Bad Request', 'Required property \'name\' not found');
+		}
+
+		const app: MockApp = {
+			name: body.name,
+			description: body.description || '',
+			created: now(),
+			updated: now(),
+			dateFormat: 'MM-DD-YYYY',
+			timeZone: '(UTC) Coordinated Universal Time',
+			id: this.nextId(),
+			hasEveryoneOnTheInternet: false,
+			variables: clone(body.variables || []),
+			securityProperties: {
+				allowClone: false,
+				allowExport: false,
+				enableAppTokens: false,
+				hideFromPublic: false,
+				mustBeRealmApproved: false,
+				useIPFilter: false,
+				...(body.securityProperties || {})
+			}
+		};
+
+		this.apps.set(app.id, app);
+
+		return app;
+	}
+
+	private updateApp(appId: string, body: any): MockApp {
+		const app = this.getApp(appId);
+
+		if(body.name !== undefined){
+			app.name = body.name;
+		}
+
+		if(body.description !== undefined){
+			app.description = body.description;
+		}
+
+		(body.variables || []).forEach((variable: MockApp['variables'][number]) => {
+			const existing = app.variables.find((appVariable) => appVariable.name === variable.name);
+
+			if(existing){
+				existing.value = variable.value;
+			}else{
+				app.variables.push({ ...variable });
+			}
+		});
+
+		app.securityProperties = {
+			...app.securityProperties,
+			...(body.securityProperties || {})
+		};
+
+		app.updated = now();
+
+		return app;
+	}
+
+	private deleteApp(appId: string, body: any) {
+		const app = this.getApp(appId);
+
+		if(body.name !== app.name){
+			return fail(400, 'Bad Request', 'The application name does not match');
+		}
+
+		this.getAppTableIds(appId).forEach((tableId) => {
+			this.removeTable(tableId);
+		});
+
+		this.apps.delete(appId);
+
+		return {
+			deletedAppId: appId
+		};
+	}
+
+	private copyApp(appId: string, body: any): MockApp {
+		const source = this.getApp(appId);
+		const properties = body.properties || {};
+		const app = this.createApp({
+			...clone(source),
+			name: body.name,
+			description: body.description === undefined ? source.description : body.description
+		});
+
+		app.ancestorId = source.id;
+
+		const tableIds: Record<string, string> = {};
+
+		this.getAppTableIds(appId).forEach((tableId) => {
+			const table = clone(this.tables.get(tableId)!);
+			const id = this.nextId();
+
+			tableIds[tableId] = id;
+
+			table.appId = app.id;
+			table.info.id = id;
+			table.info.created = table.info.updated = now();
+			table.reports.forEach((report) => {
+				report.query.tableId = id;
+			});
+
+			if(!properties.keepData){
+				table.records = [];
+			}else
+			if(properties.excludeFiles){
+				table.fields.filter((field) => field.fieldType === 'file').forEach((field) => {
+					table.records.forEach((record) => {
+						delete record[field.id];
+					});
+				});
+			}
+
+			this.tables.set(id, table);
+		});
+
+		this.relationships.filter((relationship) => {
+			return tableIds[relationship.childTableId] && tableIds[relationship.parentTableId];
+		}).forEach((relationship) => {
+			this.relationships.push({
+				id: relationship.id,
+				parentTableId: tableIds[relationship.parentTableId],
+				childTableId: tableIds[relationship.childTableId]
+			});
+		});
+
+		return app;
+	}
+
+	/* Tables */
+	private getAppTableIds(appId: string): string[] {
+		return Array.from(this.tables.entries()).filter(([ , table ]) => {
+			return table.appId === appId;
+		}).map(([ tableId ]) => tableId);
+	}
+
+	private getAppTables(appId: string | null) {
+		this.getApp(appId || '');
+
+		return this.getAppTableIds(appId || '').map((tableId) => {
+			return this.tables.get(tableId)!.info;
+		});
+	}
+
+	private getTable(tableId: string | null, appId?: string | null): MockTable {
+		const table = this.tables.get(tableId || '');
+
+		if(!table || (appId && table.appId !== appId)){
+			return fail(404, 'Not Found', `Table with ID ${tableId} not found`);
+		}
+
+		return table;
+	}
+
+	private createTable(appId: string | null, body: any) {
+		this.getApp(appId || '');
+
+		if(!body.name){
+			return fail(400, 'Bad Request', 'Required property \'name\' not found');
+		}
+
+		const id = this.nextId();
+		const table: MockTable = {
+			appId: appId!,
+			info: {
+				name: body.name,
+				id,
+				alias: `_DBID_${('' + body.name).toUpperCase().replace(/[^A-Z0-9]+/g, '_')}`,
+				description: body.description || '',
+				created: now(),
+				updated: now(),
+				nextRecordId: 1,
+				nextFieldId: 6,
+				defaultSortFieldId: 3,
+				defaultSortOrder: 'ASC',
+				keyFieldId: 3,
+				singleRecordName: body.singleRecordName || 'Record',
+				pluralRecordName: body.pluralRecordName || 'Records',
+				sizeLimit: '500 MB',
+				spaceUsed: '0 KB',
+				spaceRemaining: '500 MB'
+			},
+			fields: getBuiltInFields(),
+			records: [],
+			reports: [{
+				id: '1',
+				name: 'List All',
+				type: 'table',
+				description: '',
+				ownerId: 0,
+				query: {
+					tableId: id,
+					filter: '',
+					formulaFields: [],
+					fields: [],
+					sortBy: [],
+					groupBy: []
+				},
+				properties: {
+					displayOnlyNewOrChangedRecords: false,
+					columnProperties: []
+				},
+				usedLast: '',
+				usedCount: 0
+			}]
+		};
+
+		this.tables.set(id, table);
+
+		return table.info;
+	}
+
+	private updateTable(tableId: string, appId: string | null, body: any) {
+		const table = this.getTable(tableId, appId);
+
+		TABLE_ATTRIBUTES.forEach((attribute) => {
+			if(body[attribute] !== undefined){
+				table.info[attribute] = body[attribute];
+			}
+		});
+
+		table.info.updated = now();
+
+		return table.info;
+	}
+
+	private deleteTable(tableId: string, appId: string | null) {
+		this.getTable(tableId, appId);
+		this.removeTable(tableId);
+
+		return {
+			deletedTableId: tableId
+		};
+	}
+
+	private removeTable(tableId: string) {
+		this.relationships.filter((relationship) => {
+			return relationship.childTableId === tableId || relationship.parentTableId === tableId;
+		}).forEach((relationship) => {
+			if(this.tables.has(relationship.childTableId)){
+				this.removeRelationship(relationship);
+			}
+		});
+
+		this.tables.delete(tableId);
+	}
+
+	/* Fields */
+	private getField(table: MockTable, fieldId: number): MockField {
+		const field = table.fields.find((field) => field.id === fieldId);
+
+		if(!field){
+			return fail(404, 'Not Found', `Field with ID ${fieldId} not found`);
+		}
+
+		return field;
+	}
+
+	private getFields(tableId: string | null, includePermissions: boolean) {
+		return sortFields(this.getTable(tableId).fields).map((field) => formatField(field, includePermissions));
+	}
+
+	private addField(table: MockTable, label: string, fieldType: string, options: Partial<MockField> = {}): MockField {
+		const field = createField(table.info.nextFieldId++, label, fieldType, options);
+
+		table.fields.push(field);
+
+		return field;
+	}
+
+	private createField(tableId: string | null, body: any) {
+		const table = this.getTable(tableId);
+
+		if(!body.label || !body.fieldType){
+			return fail(400, 'Bad Request', 'Required properties \'label\' and \'fieldType\' not found');
+		}
+
+		const options: Partial<MockField> = {
+			properties: clone(body.properties || {})
+		};
+
+		FIELD_ATTRIBUTES.forEach((attribute) => {
+			if(body[attribute] !== undefined){
+				(options as any)[attribute] = body[attribute];
+			}
+		});
+
+		return formatField(this.addField(table, body.label, body.fieldType, options));
+	}
+
+	private updateField(tableId: string | null, fieldId: number, body: any) {
+		const table = this.getTable(tableId);
+		const field = this.getField(table, fieldId);
+
+		FIELD_ATTRIBUTES.forEach((attribute) => {
+			if(body[attribute] !== undefined){
+				(field as any)[attribute] = body[attribute];
+			}
+		});
+
+		field.properties = {
+			...field.properties,
+			...(body.properties || {})
+		};
+
+		return formatField(field);
+	}
+
+	private deleteFields(tableId: string | null, body: any) {
+		const table = this.getTable(tableId);
+		const results = {
+			deletedFieldIds: [] as number[],
+			errors: [] as string[]
+		};
+
+		(body.fieldIds || []).forEach((fieldId: number) => {
+			const field = table.fields.find((field) => field.id === fieldId);
+
+			if(!field){
+				results.errors.push(`Error: Field ID ${fieldId} does not exist`);
+			}else
+			if(fieldId <= 5){
+				results.errors.push(`Error: Built in field ID ${fieldId} can not be deleted`);
+			}else{
+				const relationship = this.relationships.find((relationship) => {
+					return relationship.childTableId === table.info.id && relationship.id === fieldId;
+				});
+
+				if(relationship){
+					this.removeRelationship(relationship);
+				}else{
+					this.removeFields(table, [ fieldId ]);
+				}
+
+				results.deletedFieldIds.push(fieldId);
+			}
+		});
+
+		return results;
+	}
+
+	private removeFields(table: MockTable, fieldIds: number[]) {
+		table.fields = table.fields.filter((field) => fieldIds.indexOf(field.id) === -1);
+		table.records.forEach((record) => {
+			fieldIds.forEach((fieldId) => {
+				delete record[fieldId];
+			});
+		});
+	}
+
+	private getUsage(table: MockTable, field: MockField) {
+		const relationships = this.relationships.filter((relationship) => {
+			return relationship.childTableId === table.info.id && relationship.id === field.id;
+		}).length + Array.from(this.tables.values()).reduce((count, other) => {
+			return count + other.fields.filter((otherField) => {
+				return otherField.mode === 'lookup' && otherField.properties.lookupTargetFieldId === field.id && this.getRelationship(other, otherField.properties.lookupReferenceFieldId)?.parentTableId === table.info.id;
+			}).length;
+		}, 0);
+
+		return {
+			field: {
+				name: field.label,
+				id: field.id,
+				type: field.fieldType
+			},
+			usage: USAGE_KEYS.reduce((usage, key) => {
+				usage[key] = {
+					count: key === 'relationships' ? relationships : 0
+				};
+
+				return usage;
+			}, {} as Record<string, { count: number; }>)
+		};
+	}
+
+	private getFieldsUsage(tableId: string | null, skip: string | null, top: string | null) {
+		const table = this.getTable(tableId);
+
+		return paginate(sortFields(table.fields), skip, top).map((field) => this.getUsage(table, field));
+	}
+
+	private getFieldUsage(tableId: string | null, fieldId: number) {
+		const table = this.getTable(tableId);
+
+		return [ this.getUsage(table, this.getField(table, fieldId)) ];
+	}
+
+	/* Relationships */
+	private getRelationship(table: MockTable, relationshipId: number): MockRelationship | undefined {
+		return this.relationships.find((relationship) => {
+			return relationship.childTableId === table.info.id && relationship.id === relationshipId;
+		});
+	}
+
+	private formatRelationship(relationship: MockRelationship) {
+		const child = this.tables.get(relationship.childTableId)!;
+		const parent = this.tables.get(relationship.parentTableId);
+		const toInfo = (field: MockField) => ({
+			id: field.id,
+			label: field.label,
+			type: field.fieldType
+		});
+
+		return {
+			id: relationship.id,
+			parentTableId: relationship.parentTableId,
+			childTableId: relationship.childTableId,
+			foreignKeyField: toInfo(this.getField(child, relationship.id)),
+			isCrossApp: !parent || parent.appId !== child.appId,
+			lookupFields: child.fields.filter((field) => {
+				return field.mode === 'lookup' && field.properties.lookupReferenceFieldId === relationship.id;
+			}).map(toInfo),
+			summaryFields: (parent ? parent.fields : []).filter((field) => {
+				return field.mode === 'summary' && field.properties.summaryReferenceFieldId === relationship.id && field.properties.summaryTableId === child.info.id;
+			}).map(toInfo)
+		};
+	}
+
+	private getRelationships(tableId: string, skip: string | null) {
+		this.getTable(tableId);
+
+		const relationships = this.relationships.filter((relationship) => relationship.childTableId === tableId);
+		const page = paginate(relationships, skip);
+
+		return {
+			relationships: page.map((relationship) => this.formatRelationship(relationship)),
+			metadata: {
+				skip: +(skip || 0),
+				totalRelationships: relationships.length,
+				numRelationships: page.length
+			}
+		};
+	}
+
+	private addRelationshipFields(relationship: MockRelationship, body: any) {
+		const child = this.getTable(relationship.childTableId);
+		const parent = this.getTable(relationship.parentTableId);
+
+		(body.lookupFieldIds || []).forEach((fieldId: number) => {
+			const target = this.getField(parent, fieldId);
+
+			this.addField(child, `${parent.info.singleRecordName} - ${target.label}`, target.fieldType, {
+				mode: 'lookup',
+				properties: {
+					lookupReferenceFieldId: relationship.id,
+					lookupTargetFieldId: target.id
+				}
+			});
+		});
+
+		(body.summaryFields || []).forEach((summary: any) => {
+			const target = summary.summaryFid === undefined ? undefined : this.getField(child, summary.summaryFid);
+
+			if(summary.accumulationType !== 'COUNT' && !target){
+				return fail(400, 'Bad Request', `summaryFid is required for ${summary.accumulationType} summary fields`);
+			}
+
+			if(summary.where){
+				parseWhere(summary.where);
+			}
+
+			const fieldType = summary.accumulationType === 'COMBINED-TEXT' ? 'text' : ([ 'MAX', 'MIN' ].indexOf(summary.accumulationType) !== -1 ? target!.fieldType : 'numeric');
+
+			this.addField(parent, summary.label || `${summary.accumulationType} ${child.info.name}${target ? ' - ' + target.label : ''}`, fieldType, {
+				mode: 'summary',
+				summaryWhere: summary.where,
+				properties: {
+					summaryReferenceFieldId: relationship.id,
+					summaryTableId: child.info.id,
+					summaryTargetFieldId: target ? target.id : undefined,
+					summaryFunction: summary.accumulationType
+				}
+			});
+		});
+	}
+
+	private createRelationship(tableId: string, body: any) {
+		const child = this.getTable(tableId);
+		const parent = this.getTable(body.parentTableId);
+		const foreignKey = this.addField(child, body.foreignKeyField?.label || `Related ${parent.info.singleRecordName}`, 'numeric', {
+			properties: {
+				foreignKey: true
+			}
+		});
+
+		const relationship: MockRelationship = {
+			id: foreignKey.id,
+			parentTableId: parent.info.id,
+			childTableId: child.info.id
+		};
+
+		this.relationships.push(relationship);
+		this.addRelationshipFields(relationship, body);
+
+		return this.formatRelationship(relationship);
+	}
+
+	private updateRelationship(tableId: string, relationshipId: number, body: any) {
+		const relationship = this.getRelationship(this.getTable(tableId), relationshipId);
+
+		if(!relationship){
+			return fail(404, 'Not Found', `Relationship with ID ${relationshipId} not found`);
+		}
+
+		this.addRelationshipFields(relationship, body);
+
+		return this.formatRelationship(relationship);
+	}
+
+	private deleteRelationship(tableId: string, relationshipId: number) {
+		const relationship = this.getRelationship(this.getTable(tableId), relationshipId);
+
+		if(!relationship){
+			return fail(404, 'Not Found', `Relationship with ID ${relationshipId} not found`);
+		}
+
+		this.removeRelationship(relationship);
+
+		return {
+			relationshipId
+		};
+	}
+
+	private removeRelationship(relationship: MockRelationship) {
+		const child = this.tables.get(relationship.childTableId)!;
+		const parent = this.tables.get(relationship.parentTableId);
+
+		this.removeFields(child, child.fields.filter((field) => {
+			return field.id === relationship.id || (field.mode === 'lookup' && field.properties.lookupReferenceFieldId === relationship.id);
+		}).map((field) => field.id));
+
+		if(parent){
+			this.removeFields(parent, parent.fields.filter((field) => {
+				return field.mode === 'summary' && field.properties.summaryReferenceFieldId === relationship.id && field.properties.summaryTableId === child.info.id;
+			}).map((field) => field.id));
+		}
+
+		this.relationships = this.relationships.filter((other) => other !== relationship);
+	}
+
+	/* Records */
+	private getValue(table: MockTable, record: MockRecord, field: MockField): any {
+		if(field.mode === 'lookup'){
+			const relationship = this.getRelationship(table, field.properties.lookupReferenceFieldId);
+			const parent = relationship && this.tables.get(relationship.parentTableId);
+			const parentRecord = parent && parent.records.find((parentRecord) => parentRecord[3] === record[relationship!.id]);
+			const target = parent && parent.fields.find((target) => target.id === field.properties.lookupTargetFieldId);
+
+			return parentRecord && target ? this.getValue(parent!, parentRecord, target) : getEmptyValue(field);
+		}
+
+		if(field.mode === 'summary'){
+			const child = this.tables.get(field.properties.summaryTableId);
+
+			if(!child){
+				return getEmptyValue(field);
+			}
+
+			const where = parseWhere(field.summaryWhere);
+			const target = child.fields.find((target) => target.id === field.properties.summaryTargetFieldId);
+			const records = child.records.filter((childRecord) => {
+				return childRecord[field.properties.summaryReferenceFieldId] === record[3] && this.matchRecord(child, childRecord, where);
+			});
+
+			return summarize(records.map((childRecord) => target ? this.getValue(child, childRecord, target) : childRecord[3]), field.properties.summaryFunction);
+		}
+
+		if(field.fieldType === 'file'){
+			const versions: MockFileVersion[] = record[field.id] || [];
+
+			return {
+				url: versions.length > 0 ? `files/${table.info.id}/${record[3]}/${field.id}/${versions[versions.length - 1].versionNumber}` : '',
+				versions: versions.map(({ data, ...version }) => version)
+			};
+		}
+
+		return record[field.id] === undefined ? getEmptyValue(field) : record[field.id];
+	}
+
+	private formatRecord(table: MockTable, record: MockRecord, fieldIds: number[]): QuickBaseRecord {
+		return fieldIds.reduce((results, fieldId) => {
+			results[fieldId] = {
+				value: this.getValue(table, record, this.getField(table, fieldId))
+			};
+
+			return results;
+		}, {} as QuickBaseRecord);
+	}
+
+	private matchRecord(table: MockTable, record: MockRecord, node: QuickBaseQueryNode): boolean {
+		if(node.type === 'group'){
+			const matches = (condition: QuickBaseQueryNode) => this.matchRecord(table, record, condition);
+
+			return node.conjunction === 'AND' ? node.conditions.every(matches) : node.conditions.some(matches);
+		}
+
+		const field = table.fields.find((field) => field.id === node.fieldId);
+
+		if(!field){
+			return fail(400, 'Bad Request', `Invalid query: field ID ${node.fieldId} does not exist`);
+		}
+
+		return matchCondition(this.getValue(table, record, field), node);
+	}
+
+	private queryRecords(table: MockTable, where?: string, sortBy?: { fieldId: number; order?: string; }[] | false, groupBy?: { fieldId: number; }[]) {
+		const node = parseWhere(where);
+		const sort = (groupBy || []).map(({ fieldId }) => ({ fieldId, order: 'ASC' })).concat(sortBy === false ? [] : (sortBy && sortBy.length > 0 ? sortBy : [{
+			fieldId: table.info.defaultSortFieldId,
+			order: table.info.defaultSortOrder
+		}]) as { fieldId: number; order: string; }[]);
+
+		const fields = sort.map(({ fieldId }) => this.getField(table, fieldId));
+
+		return table.records.filter((record) => {
+			return this.matchRecord(table, record, node);
+		}).sort((a, b) => {
+			for(let i = 0; i < sort.length; ++i){
+				const results = compareText(toText(this.getValue(table, a, fields[i])), toText(this.getValue(table, b, fields[i])));
+
+				if(results !== 0){
+					return sort[i].order === 'DESC' ? -results : results;
+				}
+			}
+
+			return a[3] - b[3];
+		});
+	}
+
+	private getDefaultFieldIds(table: MockTable): number[] {
+		return sortFields(table.fields).filter((field) => field.appearsByDefault).map((field) => field.id);
+	}
+
+	private runQuery(body: any) {
+		const table = this.getTable(body.from);
+		const fieldIds: number[] = body.select && body.select.length > 0 ? body.select : this.getDefaultFieldIds(table);
+		const records = this.queryRecords(table, body.where, body.sortBy, body.groupBy);
+		const page = paginate(records, body.options?.skip, body.options?.top);
+
+		return {
+			fields: fieldIds.map((fieldId) => {
+				const field = this.getField(table, fieldId);
+
+				return {
+					id: field.id,
+					label: field.label,
+					type: field.fieldType
+				};
+			}),
+			data: page.map((record) => this.formatRecord(table, record, fieldIds)),
+			metadata: {
+				skip: +(body.options?.skip || 0),
+				numFields: fieldIds.length,
+				totalRecords: records.length,
+				numRecords: page.length
+			}
+		};
+	}
+
+	private getReport(tableId: string | null, reportId: string) {
+		const report = this.getTable(tableId).reports.find((report) => report.id === reportId);
+
+		if(!report){
+			return fail(404, 'Not Found', `Report with ID ${reportId} not found`);
+		}
+
+		return report;
+	}
+
+	private runReport(tableId: string | null, reportId: string, skip: string | null, top: string | null) {
+		const table = this.getTable(tableId);
+		const report = this.getReport(tableId, reportId);
+		const fieldIds = report.query.fields.length > 0 ? report.query.fields : this.getDefaultFieldIds(table);
+		const records = this.queryRecords(table, report.query.filter, report.query.sortBy, report.query.groupBy);
+		const page = paginate(records, skip, top);
+
+		report.usedLast = now();
+		report.usedCount++;
+
+		return {
+			fields: fieldIds.map((fieldId) => {
+				const field = this.getField(table, fieldId);
+
+				return {
+					id: field.id,
+					label: field.label,
+					type: field.fieldType,
+					labelOverride: ''
+				};
+			}),
+			data: page.map((record) => this.formatRecord(table, record, fieldIds)),
+			metadata: {
+				skip: +(skip || 0),
+				numFields: fieldIds.length,
+				totalRecords: records.length,
+				numRecords: page.length
+			}
+		};
+	}
+
+	// Uniqueness is not enforced, fields can be marked unique while holding duplicate values
+	private getLineErrors(table: MockTable, data: QuickBaseRecord, existing?: MockRecord): string[] {
+		const errors: string[] = [];
+
+		Object.keys(data).forEach((fieldId) => {
+			const field = table.fields.find((field) => field.id === +fieldId);
+
+			if(!field){
+				errors.push(`Field with ID "${fieldId}" does not exist.`);
+			}else
+			if(field.mode !== '' || (field.id <= 5 && field.id !== 3)){
+				errors.push(`Field with ID "${fieldId}" is read only.`);
+			}
+		});
+
+		table.fields.forEach((field) => {
+			const value = data[field.id] ? data[field.id].value : undefined;
+
+			if(field.required && !existing && (value === undefined || value === null || value === '')){
+				errors.push(`Missing value for required field with ID "${field.id}".`);
+			}
+		});
+
+		return errors;
+	}
+
+	private upsert(context: MockContext) {
+		const body = context.body;
+		const table = this.getTable(body.to);
+		const fieldsToReturn: number[] = [ 3 ].concat((body.fieldsToReturn || []).filter((fieldId: number) => fieldId !== 3));
+		const mergeField = body.mergeFieldId === undefined ? undefined : this.getField(table, body.mergeFieldId);
+		const results = {
+			data: [] as QuickBaseRecord[],
+			metadata: {
+				createdRecordIds: [] as number[],
+				updatedRecordIds: [] as number[],
+				unchangedRecordIds: [] as number[],
+				totalNumberOfRecordsProcessed: 0
+			} as Record<string, any>
+		};
+
+		const lineErrors: Record<string, string[]> = {};
+
+		(body.data || []).forEach((data: QuickBaseRecord, i: number) => {
+			const key = mergeField ? data[mergeField.id] : data[3];
+			const existing = key === undefined || key.value === '' || key.value === null ? undefined : table.records.find((record) => {
+				return isEqualText(record[mergeField ? mergeField.id : 3], toText(key.value));
+			});
+
+			const errors = !mergeField && key && key.value !== '' && key.value !== null && !existing ? [
+				`No record found with record ID "${key.value}".`
+			] : this.getLineErrors(table, data, existing);
+
+			if(errors.length > 0){
+				lineErrors[i + 1] = errors;
+
+				return;
+			}
+
+			const record: MockRecord = existing || {};
+			const changed = Object.entries(data).filter(([ fieldId, { value } ]) => {
+				return +fieldId !== 3 && (this.getField(table, +fieldId).fieldType === 'file' || JSON.stringify(record[+fieldId]) !== JSON.stringify(value));
+			});
+
+			changed.forEach(([ fieldId, { value } ]) => {
+				const field = this.getField(table, +fieldId);
+
+				if(field.fieldType === 'file'){
+					const versions: MockFileVersion[] = record[field.id] || [];
+
+					versions.push({
+						versionNumber: versions.length > 0 ? versions[versions.length - 1].versionNumber + 1 : 1,
+						fileName: value.fileName,
+						uploaded: now(),
+						creator: this.settings.user,
+						data: value.data
+					});
+
+					record[field.id] = versions;
+				}else{
+					record[field.id] = NUMERIC_TYPES.indexOf(field.fieldType) !== -1 && typeof(value) === 'string' && isNumeric(value) ? +value : value;
+				}
+			});
+
+			if(!existing){
+				record[1] = now();
+				record[3] = table.info.nextRecordId++;
+				record[4] = this.settings.user;
+
+				table.records.push(record);
+				results.metadata.createdRecordIds.push(record[3]);
+			}else
+			if(changed.length > 0){
+				results.metadata.updatedRecordIds.push(record[3]);
+			}else{
+				results.metadata.unchangedRecordIds.push(record[3]);
+			}
+
+			if(!existing || changed.length > 0){
+				record[2] = now();
+				record[5] = this.settings.user;
+			}
+
+			results.data.push(this.formatRecord(table, record, fieldsToReturn));
+		});
+
+		results.metadata.totalNumberOfRecordsProcessed = results.data.length;
+
+		if(Object.keys(lineErrors).length > 0){
+			results.metadata.lineErrors = lineErrors;
+
+			context.status = 207;
+		}
+
+		return results;
+	}
+
+	private deleteRecords(body: any) {
+		const table = this.getTable(body.from);
+
+		if(!body.where){
+			return fail(400, 'Bad Request', 'Required property \'where\' not found');
+		}
+
+		const records = this.queryRecords(table, body.where);
+
+		table.records = table.records.filter((record) => records.indexOf(record) === -1);
+
+		return {
+			numberDeleted: records.length
+		};
+	}
+
+	/* Files */
+	private getFileVersions(tableId: string, recordId: number, fieldId: number): MockFileVersion[] {
+		const table = this.getTable(tableId);
+		const field = this.getField(table, fieldId);
+		const record = table.records.find((record) => record[3] === recordId);
+
+		if(!record){
+			return fail(404, 'Not Found', `Record with ID ${recordId} not found`);
+		}
+
+		if(field.fieldType !== 'file'){
+			return fail(400, 'Bad Request', `Field with ID ${fieldId} is not a file attachment field`);
+		}
+
+		return record[fieldId] || [];
+	}
+
+	private getFile(tableId: string, recordId: number, fieldId: number, versionNumber: number): MockFileVersion {
+		const versions = this.getFileVersions(tableId, recordId, fieldId);
+		const version = versionNumber === 0 ? versions[versions.length - 1] : versions.find((version) => version.versionNumber === versionNumber);
+
+		if(!version){
+			return fail(404, 'Not Found', `File version ${versionNumber} not found`);
+		}
+
+		return version;
+	}
+
+	private deleteFile(tableId: string, recordId: number, fieldId: number, versionNumber: number) {
+		const versions = this.getFileVersions(tableId, recordId, fieldId);
+		const { data, ...version } = this.getFile(tableId, recordId, fieldId, versionNumber);
+
+		versions.splice(versions.findIndex((other) => other.versionNumber === version.versionNumber), 1);
+
+		return version;
+	}
+
+}
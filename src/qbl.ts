@@ -0,0 +1,216 @@
+'use strict';
+
+/* Dependencies */
+import {
+	Document,
+	Pair,
+	Scalar,
+	YAMLMap,
+	YAMLSeq,
+	isAlias,
+	isMap,
+	isScalar,
+	isSeq,
+	parseDocument
+} from 'yaml';
+
+/* Types */
+export type QuickBaseQBLResource = {
+	/**
+	 * The resource type, for example `QB::Application` or `QB::Application::Role`
+	 */
+	Type: string;
+
+	/**
+	 * The resource properties
+	 */
+	Properties?: Record<string, any>;
+
+	[key: string]: any;
+};
+
+export type QuickBaseQBLDocument = {
+	/**
+	 * Solution metadata, included in exported QBL
+	 */
+	Solution?: {
+		Id?: string;
+		Name?: string;
+		Owner?: string;
+		ExportDate?: string;
+		[key: string]: any;
+	};
+
+	/**
+	 * The QBL version of the document
+	 */
+	Version?: number | string;
+
+	/**
+	 * The solution resources, keyed by logical id
+	 */
+	Resources?: Record<string, QuickBaseQBLResource>;
+
+	[key: string]: any;
+};
+
+/* Helpers */
+const isCustomTag = (tag?: string): tag is string => {
+	return !!tag && tag.startsWith('!') && !tag.startsWith('!!');
+};
+
+const isPlainObject = (obj: any): boolean => {
+	if(obj === null || typeof(obj) !== 'object'){
+		return false;
+	}
+
+	const proto = Object.getPrototypeOf(obj);
+
+	return proto === Object.prototype || proto === null;
+};
+
+const fromNode = (doc: Document, node: unknown): any => {
+	if(isAlias(node)){
+		return fromNode(doc, node.resolve(doc));
+	}
+
+	let value: any;
+
+	if(isMap(node)){
+		value = node.items.reduce((obj, pair) => {
+			obj['' + (isScalar(pair.key) ? pair.key.value : pair.key)] = fromNode(doc, pair.value);
+
+			return obj;
+		}, {} as Record<string, any>);
+	}else
+	if(isSeq(node)){
+		value = node.items.map((item) => {
+			return fromNode(doc, item);
+		});
+	}else
+	if(isScalar(node)){
+		value = node.value;
+	}else{
+		return node === undefined ? null : node;
+	}
+
+	return isCustomTag(node.tag) ? new QuickBaseQBLTag(node.tag, value) : value;
+};
+
+const toNode = (doc: Document, value: any): any => {
+	if(QuickBaseQBLTag.IsQuickBaseQBLTag(value)){
+		const node = toNode(doc, value.value);
+
+		node.tag = value.tag;
+
+		return node;
+	}
+
+	if(Array.isArray(value)){
+		const seq = new YAMLSeq();
+
+		value.forEach((item) => {
+			seq.items.push(toNode(doc, item));
+		});
+
+		return seq;
+	}
+
+	if(isPlainObject(value)){
+		const map = new YAMLMap();
+
+		Object.entries(value).forEach(([ key, item ]) => {
+			map.items.push(new Pair(new Scalar(key), toNode(doc, item)));
+		});
+
+		return map;
+	}
+
+	return doc.createNode(value);
+};
+
+/* Main Class */
+export class QuickBaseQBLTag {
+
+	public readonly CLASS_NAME: string = 'QuickBaseQBLTag';
+	static readonly CLASS_NAME: string = 'QuickBaseQBLTag';
+
+	/**
+	 * A QBL value with a custom YAML tag, such as `!Ref`
+	 *
+	 * Example:
+	 * ```typescript
+	 * const roleRef = new QuickBaseQBLTag('!Ref', { Role: '$Role_Viewer' });
+	 * ```
+	 *
+	 * @param tag YAML tag, including the leading `!`
+	 * @param value Tagged value
+	 */
+	constructor(public tag: string, public value: any) {}
+
+	/**
+	 * Serialize the tagged value into JSON, keyed by its tag
+	 */
+	toJSON(): Record<string, any> {
+		return {
+			[this.tag]: this.value
+		};
+	}
+
+	/**
+	 * Test if a variable is a `QuickBaseQBLTag` object
+	 *
+	 * @param obj A variable you'd like to test
+	 */
+	static IsQuickBaseQBLTag(obj: any): obj is QuickBaseQBLTag {
+		return ((obj || {}) as QuickBaseQBLTag).CLASS_NAME === QuickBaseQBLTag.CLASS_NAME;
+	}
+
+}
+
+/* Functions */
+/**
+ * Parse QBL YAML into an object
+ *
+ * Custom tags, such as `!Ref`, are kept as `QuickBaseQBLTag` instances so the document can be
+ * stringified back without losing them.
+ *
+ * Example:
+ * ```typescript
+ * const qbl = parseQBL(await qb.exportSolution({ solutionId: 'xxxxxxxxx' }));
+ * ```
+ *
+ * @param qbl QBL YAML string
+ */
+export const parseQBL = (qbl: string): QuickBaseQBLDocument => {
+	const doc = parseDocument(qbl);
+
+	if(doc.errors.length > 0){
+		throw doc.errors[0];
+	}
+
+	return fromNode(doc, doc.contents) || {};
+};
+
+/**
+ * Serialize an object into QBL YAML
+ *
+ * Strings are returned as is.
+ *
+ * @param qbl QBL object or YAML string
+ */
+export const stringifyQBL = (qbl: string | QuickBaseQBLDocument): string => {
+	if(typeof(qbl) === 'string'){
+		return qbl;
+	}
+
+	const doc = new Document();
+
+	doc.contents = toNode(doc, qbl);
+
+	return doc.toString({
+		lineWidth: 0,
+		nullStr: '',
+		singleQuote: true
+	});
+};
@@ -0,0 +1,686 @@
+'use strict';
+
+/* Types */
+export type QuickBaseQueryOperator =
+	'CT' | 'XCT' |
+	'HAS' | 'XHAS' |
+	'EX' | 'XEX' |
+	'TV' |
+	'SW' | 'XSW' |
+	'BF' | 'OBF' |
+	'AF' | 'OAF' |
+	'IR' | 'XIR' |
+	'LT' | 'LTE' |
+	'GT' | 'GTE';
+
+export type QuickBaseQueryConjunction = 'AND' | 'OR';
+
+export type QuickBaseQueryValue = string | number | boolean | Date | null | undefined;
+
+export type QuickBaseQueryCondition = {
+	type: 'condition';
+	fieldId: number;
+	operator: QuickBaseQueryOperator;
+	value: string;
+};
+
+export type QuickBaseQueryGroup = {
+	type: 'group';
+	conjunction: QuickBaseQueryConjunction;
+	conditions: QuickBaseQueryNode[];
+};
+
+export type QuickBaseQueryNode = QuickBaseQueryCondition | QuickBaseQueryGroup;
+
+/* Globals */
+export const QUICKBASE_QUERY_OPERATORS: QuickBaseQueryOperator[] = [
+	'CT', 'XCT',
+	'HAS', 'XHAS',
+	'EX', 'XEX',
+	'TV',
+	'SW', 'XSW',
+	'BF', 'OBF',
+	'AF', 'OAF',
+	'IR', 'XIR',
+	'LT', 'LTE',
+	'GT', 'GTE'
+];
+
+/* Helpers */
+const escapeValue = (value: string) => {
+	return value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'');
+};
+
+const formatValue = (value: QuickBaseQueryValue): string => {
+	if(value === null || value === undefined){
+		return '';
+	}
+
+	if(value instanceof Date){
+		if(isNaN(value.valueOf())){
+			throw new TypeError('value must be a valid Date');
+		}
+
+		return '' + value.valueOf();
+	}
+
+	return '' + value;
+};
+
+const isOperator = (operator: any): operator is QuickBaseQueryOperator => {
+	return QUICKBASE_QUERY_OPERATORS.indexOf(operator) !== -1;
+};
+
+const toNode = (query: QuickBaseQuery | QuickBaseQueryNode): QuickBaseQueryNode => {
+	return QuickBaseQuery.IsQuickBaseQuery(query) ? query.node : query;
+};
+
+const stringifyNode = (node: QuickBaseQueryNode, isNested = false): string => {
+	if(node.type === 'condition'){
+		return `{${node.fieldId}.${node.operator}.'${escapeValue(node.value)}'}`;
+	}
+
+	const conditions = node.conditions.map((condition) => {
+		return stringifyNode(condition, node.conditions.length > 1);
+	}).filter((condition) => {
+		return condition !== '';
+	});
+
+	const where = conditions.join(node.conjunction);
+
+	return isNested && conditions.length > 1 ? `(${where})` : where;
+};
+
+class Parser {
+
+	private pos: number = 0;
+
+	constructor(private readonly where: string) {}
+
+	parse(): QuickBaseQueryNode {
+		this.skipWhitespace();
+
+		if(this.pos >= this.where.length){
+			return {
+				type: 'group',
+				conjunction: 'AND',
+				conditions: []
+			};
+		}
+
+		const node = this.parseOr();
+
+		this.skipWhitespace();
+
+		if(this.pos < this.where.length){
+			throw this.error(`Unexpected character '${this.where[this.pos]}'`);
+		}
+
+		return node;
+	}
+
+	private parseOr(): QuickBaseQueryNode {
+		return this.parseGroup('OR', () => this.parseAnd());
+	}
+
+	private parseAnd(): QuickBaseQueryNode {
+		return this.parseGroup('AND', () => this.parseTerm());
+	}
+
+	private parseGroup(conjunction: QuickBaseQueryConjunction, parseOperand: () => QuickBaseQueryNode): QuickBaseQueryNode {
+		const conditions = [ parseOperand() ];
+
+		while(this.consumeConjunction(conjunction)){
+			conditions.push(parseOperand());
+		}
+
+		if(conditions.length === 1){
+			return conditions[0];
+		}
+
+		return {
+			type: 'group',
+			conjunction,
+			conditions
+		};
+	}
+
+	private parseTerm(): QuickBaseQueryNode {
+		this.skipWhitespace();
+
+		if(this.where[this.pos] === '('){
+			++this.pos;
+
+			const node = this.parseOr();
+
+			this.skipWhitespace();
+			this.expect(')');
+
+			return node;
+		}
+
+		return this.parseCondition();
+	}
+
+	private parseCondition(): QuickBaseQueryCondition {
+		this.expect('{');
+
+		const fieldIdPos = this.pos;
+		const fieldId = this.where[this.pos] === '\'' ? this.readQuoted() : this.readUntil('.');
+
+		if(!fieldId.match(/^\d+$/)){
+			throw this.error(`Invalid field id '${fieldId}'`, fieldIdPos);
+		}
+
+		this.expect('.');
+
+		const operatorPos = this.pos;
+		const operator = this.readUntil('.').toUpperCase();
+
+		if(!isOperator(operator)){
+			throw this.error(`Invalid operator '${operator}'`, operatorPos);
+		}
+
+		this.expect('.');
+
+		const value = this.where[this.pos] === '\'' ? this.readQuoted() : this.readUntil('}');
+
+		this.expect('}');
+
+		return {
+			type: 'condition',
+			fieldId: +fieldId,
+			operator,
+			value
+		};
+	}
+
+	private consumeConjunction(conjunction: QuickBaseQueryConjunction): boolean {
+		this.skipWhitespace();
+
+		if(this.where.slice(this.pos, this.pos + conjunction.length).toUpperCase() !== conjunction){
+			return false;
+		}
+
+		this.pos += conjunction.length;
+
+		return true;
+	}
+
+	private expect(char: string) {
+		if(this.where[this.pos] !== char){
+			throw this.error(this.pos < this.where.length ? `Expected '${char}' but found '${this.where[this.pos]}'` : `Expected '${char}' but reached the end of the query`);
+		}
+
+		++this.pos;
+	}
+
+	private readQuoted(): string {
+		const start = this.pos;
+		let value = '';
+
+		++this.pos;
+
+		while(this.pos < this.where.length){
+			const char = this.where[this.pos++];
+
+			if(char === '\''){
+				return value;
+			}
+
+			if(char === '\\' && this.pos < this.where.length){
+				value += this.where[this.pos++];
+			}else{
+				value += char;
+			}
+		}
+
+		throw this.error('Unterminated quoted value', start);
+	}
+
+	private readUntil(char: string): string {
+		const start = this.pos;
+		const end = this.where.indexOf(char, start);
+
+		if(end === -1){
+			this.pos = this.where.length;
+
+			throw this.error(`Expected '${char}' but reached the end of the query`);
+		}
+
+		this.pos = end;
+
+		return this.where.slice(start, end).trim();
+	}
+
+	private skipWhitespace() {
+		while(this.pos < this.where.length && this.where[this.pos].match(/\s/)){
+			++this.pos;
+		}
+	}
+
+	private error(message: string, position: number = this.pos) {
+		return new QuickBaseQueryParseError(`${message} at position ${position}`, this.where, position);
+	}
+
+}
+
+const remapNode = (node: QuickBaseQueryNode, getFieldId: (fieldId: number) => number | undefined, strict: boolean): QuickBaseQueryNode => {
+	if(node.type === 'group'){
+		return {
+			...node,
+			conditions: node.conditions.map((condition) => {
+				return remapNode(condition, getFieldId, strict);
+			})
+		};
+	}
+
+	const fieldId = getFieldId(node.fieldId);
+
+	if(fieldId === undefined && strict){
+		throw new Error(`No field id mapping defined for field ${node.fieldId}`);
+	}
+
+	return {
+		...node,
+		fieldId: fieldId === undefined ? node.fieldId : fieldId
+	};
+};
+
+const collectFieldIds = (node: QuickBaseQueryNode, fieldIds: number[] = []): number[] => {
+	if(node.type === 'group'){
+		node.conditions.forEach((condition) => {
+			collectFieldIds(condition, fieldIds);
+		});
+	}else
+	if(fieldIds.indexOf(node.fieldId) === -1){
+		fieldIds.push(node.fieldId);
+	}
+
+	return fieldIds;
+};
+
+/* Query Parse Error */
+export class QuickBaseQueryParseError extends Error {
+
+	/**
+	 * Thrown when a Quickbase query language string can not be parsed
+	 *
+	 * @param message Error message, including the position of the error
+	 * @param where The query that failed to parse
+	 * @param position Zero-based character offset into `where` where the error occurred
+	 */
+	constructor(public message: string, public where: string, public position: number) {
+		super(message);
+	}
+
+}
+
+/* Main Class */
+export class QuickBaseQuery {
+
+	public readonly CLASS_NAME: string = 'QuickBaseQuery';
+	static readonly CLASS_NAME: string = 'QuickBaseQuery';
+
+	/**
+	 * Builds a `where` clause in the Quickbase query language
+	 *
+	 * Values are always quoted and escaped, the result of `toString()` can be passed directly to the
+	 * `where` option of `runQuery()`, `deleteRecords()` and the like.
+	 *
+	 * Example:
+	 * ```typescript
+	 * const where = QuickBaseQuery.GT(3, 0).and(QuickBaseQuery.CT(6, "O'Brien")).toString();
+	 * // {3.GT.'0'}AND{6.CT.'O\'Brien'}
+	 * ```
+	 *
+	 * @param node The query condition or group to wrap
+	 */
+	constructor(public readonly node: QuickBaseQueryNode) {}
+
+	/**
+	 * Combine this query with one or more queries, all of which must match
+	 *
+	 * @param queries Queries to combine with
+	 */
+	and(...queries: (QuickBaseQuery | QuickBaseQueryNode)[]): QuickBaseQuery {
+		return QuickBaseQuery.and(this, ...queries);
+	}
+
+	/**
+	 * Combine this query with one or more queries, any of which may match
+	 *
+	 * @param queries Queries to combine with
+	 */
+	or(...queries: (QuickBaseQuery | QuickBaseQueryNode)[]): QuickBaseQuery {
+		return QuickBaseQuery.or(this, ...queries);
+	}
+
+	/**
+	 * Get the unique field IDs referenced by the query, in order of appearance
+	 */
+	getFieldIds(): number[] {
+		return collectFieldIds(this.node);
+	}
+
+	/**
+	 * Create a new query with its field IDs rewritten, for example after copying a report filter between apps
+	 *
+	 * Example:
+	 * ```typescript
+	 * const query = QuickBaseQuery.parse(report.query.filter).remapFieldIds({ 6: 12, 7: 13 });
+	 * ```
+	 *
+	 * @param mapping Old field IDs mapped to new field IDs, or a function returning the new field ID
+	 * @param strict If `true`, throw if a field ID has no mapping, otherwise it is left as is
+	 */
+	remapFieldIds(mapping: Record<number, number> | ((fieldId: number) => number | undefined), strict = false): QuickBaseQuery {
+		const getFieldId = typeof(mapping) === 'function' ? mapping : (fieldId: number) => mapping[fieldId];
+
+		return new QuickBaseQuery(remapNode(this.node, getFieldId, strict));
+	}
+
+	/**
+	 * Serialize the query into a Quickbase query language string
+	 */
+	toString(): string {
+		return stringifyNode(this.node);
+	}
+
+	/**
+	 * Serialize the query into a Quickbase query language string
+	 */
+	toJSON(): string {
+		return this.toString();
+	}
+
+	/**
+	 * Parse a Quickbase query language string into a new query
+	 *
+	 * `AND` takes precedence over `OR`, parentheses may be used for grouping. Throws a
+	 * `QuickBaseQueryParseError` with the position of the problem if the string is invalid.
+	 *
+	 * Example:
+	 * ```typescript
+	 * const query = QuickBaseQuery.parse("{3.GT.0}AND({6.CT.'foo'}OR{6.CT.'bar'})");
+	 * ```
+	 *
+	 * @param where Quickbase query language string
+	 */
+	static parse(where: string): QuickBaseQuery {
+		if(typeof(where) !== 'string'){
+			throw new TypeError('where argument must be type of string');
+		}
+
+		return new QuickBaseQuery(new Parser(where).parse());
+	}
+
+	/**
+	 * Serialize a query node into a Quickbase query language string
+	 *
+	 * @param node The query condition or group to serialize
+	 */
+	static stringify(node: QuickBaseQuery | QuickBaseQueryNode): string {
+		return stringifyNode(toNode(node));
+	}
+
+	/**
+	 * Create a new query matching all of the given queries
+	 *
+	 * @param queries Queries to combine
+	 */
+	static and(...queries: (QuickBaseQuery | QuickBaseQueryNode)[]): QuickBaseQuery {
+		return QuickBaseQuery.group('AND', queries);
+	}
+
+	/**
+	 * Create a new query matching any of the given queries
+	 *
+	 * @param queries Queries to combine
+	 */
+	static or(...queries: (QuickBaseQuery | QuickBaseQueryNode)[]): QuickBaseQuery {
+		return QuickBaseQuery.group('OR', queries);
+	}
+
+	/**
+	 * Create a new query group
+	 *
+	 * @param conjunction `AND` or `OR`
+	 * @param queries Queries to combine
+	 */
+	static group(conjunction: QuickBaseQueryConjunction, queries: (QuickBaseQuery | QuickBaseQueryNode)[]): QuickBaseQuery {
+		if(conjunction !== 'AND' && conjunction !== 'OR'){
+			throw new TypeError(`Invalid conjunction: ${conjunction}`);
+		}
+
+		return new QuickBaseQuery({
+			type: 'group',
+			conjunction,
+			conditions: queries.map(toNode)
+		});
+	}
+
+	/**
+	 * Create a new query condition
+	 *
+	 * @param fieldId Field ID to compare against
+	 * @param operator Query language comparison operator
+	 * @param value Value to compare with, `Date`s are sent as milliseconds since epoch
+	 */
+	static condition(fieldId: number, operator: QuickBaseQueryOperator, value: QuickBaseQueryValue): QuickBaseQuery {
+		if(!Number.isInteger(fieldId) || fieldId < 0){
+			throw new TypeError(`Invalid field id: ${fieldId}`);
+		}
+
+		if(!isOperator(operator)){
+			throw new TypeError(`Invalid operator: ${operator}`);
+		}
+
+		return new QuickBaseQuery({
+			type: 'condition',
+			fieldId,
+			operator,
+			value: formatValue(value)
+		});
+	}
+
+	/**
+	 * Contains
+	 *
+	 * @param fieldId Field ID to compare against
+	 * @param value Value to compare with
+	 */
+	static CT(fieldId: number, value: QuickBaseQueryValue): QuickBaseQuery {
+		return QuickBaseQuery.condition(fieldId, 'CT', value);
+	}
+
+	/**
+	 * Does not contain
+	 *
+	 * @param fieldId Field ID to compare against
+	 * @param value Value to compare with
+	 */
+	static XCT(fieldId: number, value: QuickBaseQueryValue): QuickBaseQuery {
+		return QuickBaseQuery.condition(fieldId, 'XCT', value);
+	}
+
+	/**
+	 * Has, for list-user and multi-select text fields
+	 *
+	 * @param fieldId Field ID to compare against
+	 * @param value Value to compare with
+	 */
+	static HAS(fieldId: number, value: QuickBaseQueryValue): QuickBaseQuery {
+		return QuickBaseQuery.condition(fieldId, 'HAS', value);
+	}
+
+	/**
+	 * Does not have, for list-user and multi-select text fields
+	 *
+	 * @param fieldId Field ID to compare against
+	 * @param value Value to compare with
+	 */
+	static XHAS(fieldId: number, value: QuickBaseQueryValue): QuickBaseQuery {
+		return QuickBaseQuery.condition(fieldId, 'XHAS', value);
+	}
+
+	/**
+	 * Is equal to
+	 *
+	 * @param fieldId Field ID to compare against
+	 * @param value Value to compare with
+	 */
+	static EX(fieldId: number, value: QuickBaseQueryValue): QuickBaseQuery {
+		return QuickBaseQuery.condition(fieldId, 'EX', value);
+	}
+
+	/**
+	 * Is not equal to
+	 *
+	 * @param fieldId Field ID to compare against
+	 * @param value Value to compare with
+	 */
+	static XEX(fieldId: number, value: QuickBaseQueryValue): QuickBaseQuery {
+		return QuickBaseQuery.condition(fieldId, 'XEX', value);
+	}
+
+	/**
+	 * True value, same as `EX` for most fields
+	 *
+	 * @param fieldId Field ID to compare against
+	 * @param value Value to compare with
+	 */
+	static TV(fieldId: number, value: QuickBaseQueryValue): QuickBaseQuery {
+		return QuickBaseQuery.condition(fieldId, 'TV', value);
+	}
+
+	/**
+	 * Starts with
+	 *
+	 * @param fieldId Field ID to compare against
+	 * @param value Value to compare with
+	 */
+	static SW(fieldId: number, value: QuickBaseQueryValue): QuickBaseQuery {
+		return QuickBaseQuery.condition(fieldId, 'SW', value);
+	}
+
+	/**
+	 * Does not start with
+	 *
+	 * @param fieldId Field ID to compare against
+	 * @param value Value to compare with
+	 */
+	static XSW(fieldId: number, value: QuickBaseQueryValue): QuickBaseQuery {
+		return QuickBaseQuery.condition(fieldId, 'XSW', value);
+	}
+
+	/**
+	 * Is before
+	 *
+	 * @param fieldId Field ID to compare against
+	 * @param value Value to compare with
+	 */
+	static BF(fieldId: number, value: QuickBaseQueryValue): QuickBaseQuery {
+		return QuickBaseQuery.condition(fieldId, 'BF', value);
+	}
+
+	/**
+	 * Is on or before
+	 *
+	 * @param fieldId Field ID to compare against
+	 * @param value Value to compare with
+	 */
+	static OBF(fieldId: number, value: QuickBaseQueryValue): QuickBaseQuery {
+		return QuickBaseQuery.condition(fieldId, 'OBF', value);
+	}
+
+	/**
+	 * Is after
+	 *
+	 * @param fieldId Field ID to compare against
+	 * @param value Value to compare with
+	 */
+	static AF(fieldId: number, value: QuickBaseQueryValue): QuickBaseQuery {
+		return QuickBaseQuery.condition(fieldId, 'AF', value);
+	}
+
+	/**
+	 * Is on or after
+	 *
+	 * @param fieldId Field ID to compare against
+	 * @param value Value to compare with
+	 */
+	static OAF(fieldId: number, value: QuickBaseQueryValue): QuickBaseQuery {
+		return QuickBaseQuery.condition(fieldId, 'OAF', value);
+	}
+
+	/**
+	 * Is during, for example `today` or `last 7 days`
+	 *
+	 * @param fieldId Field ID to compare against
+	 * @param value Value to compare with
+	 */
+	static IR(fieldId: number, value: QuickBaseQueryValue): QuickBaseQuery {
+		return QuickBaseQuery.condition(fieldId, 'IR', value);
+	}
+
+	/**
+	 * Is not during
+	 *
+	 * @param fieldId Field ID to compare against
+	 * @param value Value to compare with
+	 */
+	static XIR(fieldId: number, value: QuickBaseQueryValue): QuickBaseQuery {
+		return QuickBaseQuery.condition(fieldId, 'XIR', value);
+	}
+
+	/**
+	 * Is less than
+	 *
+	 * @param fieldId Field ID to compare against
+	 * @param value Value to compare with
+	 */
+	static LT(fieldId: number, value: QuickBaseQueryValue): QuickBaseQuery {
+		return QuickBaseQuery.condition(fieldId, 'LT', value);
+	}
+
+	/**
+	 * Is less than or equal to
+	 *
+	 * @param fieldId Field ID to compare against
+	 * @param value Value to compare with
+	 */
+	static LTE(fieldId: number, value: QuickBaseQueryValue): QuickBaseQuery {
+		return QuickBaseQuery.condition(fieldId, 'LTE', value);
+	}
+
+	/**
+	 * Is greater than
+	 *
+	 * @param fieldId Field ID to compare against
+	 * @param value Value to compare with
+	 */
+	static GT(fieldId: number, value: QuickBaseQueryValue): QuickBaseQuery {
+		return QuickBaseQuery.condition(fieldId, 'GT', value);
+	}
+
+	/**
+	 * Is greater than or equal to
+	 *
+	 * @param fieldId Field ID to compare against
+	 * @param value Value to compare with
+	 */
+	static GTE(fieldId: number, value: QuickBaseQueryValue): QuickBaseQuery {
+		return QuickBaseQuery.condition(fieldId, 'GTE', value);
+	}
+
+	/**
+	 * Test if a variable is a `QuickBaseQuery` object
+	 *
+	 * @param obj A variable you'd like to test
+	 */
+	static IsQuickBaseQuery(obj: any): obj is QuickBaseQuery {
+		return ((obj || {}) as QuickBaseQuery).CLASS_NAME === QuickBaseQuery.CLASS_NAME;
+	}
+
+}
@@ -5,10 +5,36 @@
 import merge from 'deepmerge';
 import { debug } from 'debug';
 import { Throttle } from 'generic-throttle';
-import axios, {
+import {
 	AxiosRequestConfig,
 	AxiosResponse
 } from 'axios';
+import {
+	QuickBaseAuthContext,
+	QuickBaseAuthProvider,
+	QuickBaseSsoAuth,
+	QuickBaseSsoAuthOptions,
+	QuickBaseTempTokenCache,
+	getRequestDbid,
+	isSentWithTempToken,
+	isTokenRejected
+} from './auth';
+import {
+	QuickBaseFixtureOptions,
+	requestFixture
+} from './fixtures';
+import {
+	QuickBaseTransport,
+	getTransport
+} from './transport';
+
+/* Modules */
+export * from './auth';
+export * from './fixtures';
+export * from './query';
+export * from './schema';
+export * from './table';
+export * from './transport';
 
 /* Debug */
 const debugMain = debug('quickbase:main');
@@ -19,6 +45,16 @@ const debugResponse = debug('quickbase:response');
 const VERSION = require('../package.json').version;
 const IS_BROWSER = typeof(window) !== 'undefined';
 
+const DEFAULT_RETRY_POLICY: Required<Omit<QuickBaseRetryPolicy, 'onRetry'>> = {
+	maxAttempts: 3,
+	baseDelay: 500,
+	maxDelay: 30000,
+	jitter: true,
+	retryStatuses: [ 429, 500, 502, 503, 504 ],
+	retryErrorCodes: [ 'ECONNABORTED', 'ECONNREFUSED', 'ECONNRESET', 'EAI_AGAIN', 'EPIPE', 'ETIMEDOUT', 'ERR_NETWORK' ],
+	deadline: 0
+};
+
 /* Helpers */
 const delay = (time: number) => {
 	return new Promise((resolve) => {
@@ -45,10 +81,42 @@ const getRetryDelay = (headers: {
 	return +(headers['x-ratelimit-reset'] || 10000);
 };
 
+const getBackoffDelay = (policy: Required<Omit<QuickBaseRetryPolicy, 'onRetry'>>, attempt: number) => {
+	const backoff = Math.min(policy.maxDelay, policy.baseDelay * Math.pow(2, attempt - 1));
+
+	// Full jitter, spreads out retries from many clients failing at the same time
+	return Math.round(policy.jitter ? Math.random() * backoff : backoff);
+};
+
 type LowerKeysObject<T extends object> = {
 	[K in keyof T as (K extends string ? Lowercase<K> : K)]: T[K]
 };
 
+const getErrorResponse = (response: AxiosResponse): QuickBaseErrorResponse => {
+	let data = response.data;
+
+	// Text responses, such as from the solutions endpoints, may still carry a JSON error body
+	if(typeof(data) === 'string'){
+		try {
+			data = JSON.parse(data);
+		}catch(err){
+			// Plain text error body
+		}
+	}
+
+	if(data === null || typeof(data) !== 'object'){
+		return {
+			message: response.statusText || ('' + (data || '')),
+			description: '' + (data || '')
+		};
+	}
+
+	return {
+		message: data.message,
+		description: data.description
+	};
+};
+
 const objKeysToLowercase = <T extends object>(obj: T): LowerKeysObject<T> => {
 	return Object.fromEntries(Object.entries(obj).map(([key, value]) => [
 		key.toLocaleLowerCase(),
@@ -56,19 +124,133 @@ const objKeysToLowercase = <T extends object>(obj: T): LowerKeysObject<T> => {
 	])) as LowerKeysObject<T>;
 };
 
+// Plain objects and arrays are merged, class instances such as auth providers are kept by reference
+const isMergeable = (obj: any): boolean => {
+	if(obj === null || typeof(obj) !== 'object'){
+		return false;
+	}
+
+	const proto = Object.getPrototypeOf(obj);
+
+	return proto === null || proto === Object.prototype || Array.isArray(obj);
+};
+
+const getByteLength = (value: any): number => {
+	return new TextEncoder().encode(JSON.stringify(value)).length;
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+	if(signal && signal.aborted){
+		throw signal.reason || new Error('The operation was aborted');
+	}
+};
+
+const getErrorClass = (code: number, outcomeUnknown?: boolean): typeof QuickBaseError => {
+	switch(code){
+		case 0: return outcomeUnknown ? QuickBaseOutcomeUnknownError : QuickBaseNetworkError;
+		case 400: return QuickBaseValidationError;
+		case 401:
+		case 403: return QuickBaseAuthError;
+		case 404: return QuickBaseNotFoundError;
+		case 429: return QuickBaseRateLimitError;
+		default: return QuickBaseError;
+	}
+};
+
+const getLineErrors = (response: AxiosResponse): Record<string, string[]> | undefined => {
+	const data = response.data;
+
+	if(data === null || typeof(data) !== 'object'){
+		return undefined;
+	}
+
+	return (data.metadata && data.metadata.lineErrors) || data.lineErrors;
+};
+
+const getNetworkErrorCode = (err: any): string | undefined => {
+	const code = err && (err.code || (err.cause && err.cause.code));
+
+	// Cancelled requests are not network failures
+	return typeof(code) === 'string' && code !== 'ERR_CANCELED' ? code : undefined;
+};
+
+// Network errors raised before connecting, the request was never sent so it's safe to retry
+const UNSENT_ERROR_CODES = [ 'ECONNREFUSED', 'EAI_AGAIN', 'ENOTFOUND' ];
+
 /* Quickbase Error */
-export type QuickBaseErrorJSON = {
+export type QuickBaseErrorDetails = {
+	/**
+	 * The Quickbase API operation that failed, such as `runQuery`
+	 */
+	operationId?: string;
+
+	/**
+	 * The HTTP method of the failed request
+	 */
+	method?: string;
+
+	/**
+	 * The URL of the failed request, relative to the API version
+	 */
+	url?: string;
+
+	/**
+	 * The number of attempts made, including retries
+	 */
+	attempt?: number;
+
+	/**
+	 * `QuickBaseRateLimitError` only, the time to wait before retrying, in milliseconds
+	 */
+	retryAfter?: number;
+
+	/**
+	 * `QuickBaseValidationError` only, the upsert line errors keyed by line number
+	 */
+	lineErrors?: Record<string, string[]>;
+
+	/**
+	 * `QuickBaseNetworkError` only, the network error code, such as `ECONNRESET`
+	 */
+	errorCode?: string;
+
+	/**
+	 * `QuickBaseUpsertManyError` only, the position of the failed batch's first record in the original
+	 * `data` array
+	 */
+	offset?: number;
+
+	/**
+	 * `QuickBaseUpsertManyError` only, the merged results of the batches written before the failed batch
+	 */
+	results?: QuickBaseResultUpsert;
+
+	/**
+	 * `QuickBaseUpsertManyError` only, the error the failed batch was rejected with, or its serialized JSON
+	 */
+	error?: Error | QuickBaseErrorJSON | { message: string; };
+};
+
+export type QuickBaseErrorJSON = QuickBaseErrorDetails & {
 	code: number;
 	message: string;
 	description: string;
 	rayId: string;
+	outcomeUnknown?: boolean;
 };
 
 export class QuickBaseError extends Error {
 
+	public operationId?: string;
+	public method?: string;
+	public url?: string;
+	public attempt?: number;
+
 	/**
 	 * Extends the native JavaScript `Error` object for use with Quickbase API errors
 	 *
+	 * Errors thrown by `QuickBase` are one of the subclasses below where the status code allows.
+	 *
 	 * Example:
 	 * ```typescript
 	 * const qbErr = new QuickBaseError(403, 'Access Denied', 'User token is invalid', 'xxxx');
@@ -78,9 +260,19 @@ export class QuickBaseError extends Error {
 	 * @param message Error message
 	 * @param description Error description
 	 * @param rayId Quickbase API Ray ID
+	 * @param details The failed request and any subclass specific details
 	 */
-	constructor(public code: number, public message: string, public description: string, public rayId: string) {
+	constructor(public code: number, public message: string, public description: string, public rayId: string, details: QuickBaseErrorDetails = {}) {
 		super(message);
+
+		this.setDetails(details);
+	}
+
+	protected setDetails(details: QuickBaseErrorDetails): void {
+		this.operationId = details.operationId;
+		this.method = details.method;
+		this.url = details.url;
+		this.attempt = details.attempt;
 	}
 
 	/**
@@ -91,7 +283,11 @@ export class QuickBaseError extends Error {
 			code: this.code,
 			message: this.message,
 			description: this.description,
-			rayId: this.rayId
+			rayId: this.rayId,
+			operationId: this.operationId,
+			method: this.method,
+			url: this.url,
+			attempt: this.attempt
 		};
 	}
 
@@ -114,11 +310,16 @@ export class QuickBaseError extends Error {
 		this.description = json.description;
 		this.rayId = json.rayId;
 
+		this.setDetails(json);
+
 		return this;
 	}
 
 	/**
-	 * Create a new QuickBase instance from serialized JSON
+	 * Create a new QuickBaseError instance from serialized JSON
+	 *
+	 * The subclass is chosen from the error code, so a serialized `QuickBaseAuthError` is rebuilt as a
+	 * `QuickBaseAuthError`.
 	 *
 	 * @param json Serialized QuickBaseError class options
 	 */
@@ -131,7 +332,195 @@ export class QuickBaseError extends Error {
 			throw new TypeError('json argument must be type of object or a valid JSON string');
 		}
 
-		return new QuickBaseError(json.code, json.message, json.description, json.rayId);
+		const ErrorClass = json.offset !== undefined ? QuickBaseUpsertManyError : getErrorClass(json.code, json.outcomeUnknown);
+
+		return new ErrorClass(json.code, json.message, json.description, json.rayId, json);
+	}
+
+}
+
+/**
+ * Thrown for `401` and `403` responses, such as an invalid user token or an expired temporary token
+ */
+export class QuickBaseAuthError extends QuickBaseError {}
+
+/**
+ * Thrown for `404` responses
+ */
+export class QuickBaseNotFoundError extends QuickBaseError {}
+
+/**
+ * Thrown for `429` responses once the rate limit retries, if any, are exhausted
+ */
+export class QuickBaseRateLimitError extends QuickBaseError {
+
+	/**
+	 * The time to wait before retrying, in milliseconds, from the `Retry-After` or `X-RateLimit-Reset`
+	 * headers
+	 */
+	public retryAfter?: number;
+
+	protected setDetails(details: QuickBaseErrorDetails): void {
+		super.setDetails(details);
+
+		this.retryAfter = details.retryAfter;
+	}
+
+	toJSON(): QuickBaseErrorJSON {
+		return {
+			...super.toJSON(),
+			retryAfter: this.retryAfter
+		};
+	}
+
+}
+
+/**
+ * Thrown for `400` responses, such as a malformed query or an upsert with invalid values
+ */
+export class QuickBaseValidationError extends QuickBaseError {
+
+	/**
+	 * The upsert line errors keyed by line number, if returned
+	 */
+	public lineErrors?: Record<string, string[]>;
+
+	protected setDetails(details: QuickBaseErrorDetails): void {
+		super.setDetails(details);
+
+		this.lineErrors = details.lineErrors;
+	}
+
+	toJSON(): QuickBaseErrorJSON {
+		return {
+			...super.toJSON(),
+			lineErrors: this.lineErrors
+		};
+	}
+
+}
+
+/**
+ * Thrown when a request fails without a response, such as a connection reset or a timeout
+ *
+ * The `code` is always `0`.
+ */
+export class QuickBaseNetworkError extends QuickBaseError {
+
+	/**
+	 * The network error code, such as `ECONNRESET`
+	 */
+	public errorCode?: string;
+
+	protected setDetails(details: QuickBaseErrorDetails): void {
+		super.setDetails(details);
+
+		this.errorCode = details.errorCode;
+	}
+
+	toJSON(): QuickBaseErrorJSON {
+		return {
+			...super.toJSON(),
+			errorCode: this.errorCode
+		};
+	}
+
+}
+
+/**
+ * Thrown when a write fails without a response and is not safe to retry, the write may or may not
+ * have been applied
+ *
+ * Example:
+ * ```typescript
+ * try {
+ * 	await qb.upsert({ tableId: 'xxxxxxxxx', data: [] });
+ * }catch(err){
+ * 	if(err instanceof QuickBaseOutcomeUnknownError){
+ * 		// Check whether the records were created before trying again
+ * 	}
+ * }
+ * ```
+ */
+export class QuickBaseOutcomeUnknownError extends QuickBaseNetworkError {
+
+	toJSON(): QuickBaseErrorJSON {
+		return {
+			...super.toJSON(),
+			outcomeUnknown: true
+		};
+	}
+
+}
+
+/**
+ * Thrown by `upsertMany` when a batch fails, batches sent before it have already been written
+ *
+ * Example:
+ * ```typescript
+ * try {
+ * 	await qb.upsertMany({ tableId: 'xxxxxxxxx', data: records });
+ * }catch(err){
+ * 	if(err instanceof QuickBaseUpsertManyError){
+ * 		// Resume from the failed batch
+ * 		await qb.upsertMany({ tableId: 'xxxxxxxxx', data: records.slice(err.offset) });
+ * 	}
+ * }
+ * ```
+ */
+export class QuickBaseUpsertManyError extends QuickBaseError {
+
+	/**
+	 * The position of the failed batch's first record in the original `data` array
+	 */
+	public offset?: number;
+
+	/**
+	 * The merged results of the batches written before the failed batch
+	 */
+	public results?: QuickBaseResultUpsert;
+
+	/**
+	 * The error the failed batch was rejected with
+	 */
+	public error?: Error;
+
+	/**
+	 * The time to wait before retrying, in milliseconds, if the failed batch was rate limited
+	 */
+	public retryAfter?: number;
+
+	/**
+	 * The failed batch's line errors, keyed by position in the original `data` array (starting from 1)
+	 */
+	public lineErrors?: Record<string, string[]>;
+
+	protected setDetails(details: QuickBaseErrorDetails): void {
+		super.setDetails(details);
+
+		this.offset = details.offset;
+		this.results = details.results;
+		this.retryAfter = details.retryAfter;
+		this.lineErrors = details.lineErrors;
+
+		if(details.error instanceof Error || details.error === undefined){
+			this.error = details.error;
+		}else{
+			this.error = 'code' in details.error ? QuickBaseError.fromJSON(details.error) : new Error(details.error.message);
+		}
+	}
+
+	toJSON(): QuickBaseErrorJSON {
+		return {
+			...super.toJSON(),
+			offset: this.offset,
+			results: this.results,
+			error: this.error instanceof QuickBaseError ? this.error.toJSON() : {
+				message: this.error ? this.error.message : ''
+			},
+			retryAfter: this.retryAfter,
+			lineErrors: this.lineErrors
+		};
 	}
 
 }
@@ -155,13 +544,17 @@ export class QuickBase {
 		tempToken: '',
 		tempTokenDbid: '',
 		appToken: '',
+		auth: false,
 		userAgent: '',
 		autoRenewTempTokens: true,
 		connectionLimit: 10,
 		connectionLimitPeriod: 1000,
 		errorOnConnectionLimit: false,
 		retryOnQuotaExceeded: true,
-		proxy: false
+		retryPolicy: false,
+		proxy: false,
+		fixtures: false,
+		transport: 'axios'
 	};
 
 	/**
@@ -176,13 +569,25 @@ export class QuickBase {
 	 */
 	private throttle: Throttle;
 
+	/**
+	 * The temporary tokens set with `setTempToken()`, keyed by application or table ID
+	 */
+	private tempTokens: QuickBaseTempTokenCache = new QuickBaseTempTokenCache();
+
+	/**
+	 * The middleware added with `use()`, in order
+	 */
+	private middleware: QuickBaseMiddleware[] = [];
+
 	/**
 	 * The `QuickBase` instance settings
 	 */
 	public settings: Required<QuickBaseOptions>;
 
 	constructor(options?: QuickBaseOptions){
-		this.settings = merge(QuickBase.defaults, options || {});
+		this.settings = merge(QuickBase.defaults, options || {}, {
+			isMergeableObject: isMergeable
+		});
 
 		this.throttle = new Throttle(this.settings.connectionLimit, this.settings.connectionLimitPeriod, this.settings.errorOnConnectionLimit);
 
@@ -191,32 +596,120 @@ export class QuickBase {
 		return this;
 	}
 
-	private assignAuthorizationHeaders(headers?: AxiosRequestConfig['headers'], addToken = true) {
-		if(!headers){
-			headers = {};
-		}
+	/**
+	 * Authenticates with the `userToken`, `tempToken` and `appToken` settings when `auth` isn't set
+	 */
+	private readonly settingsAuth: QuickBaseAuthProvider = {
+		getHeaders: async ({ operationId, config }) => {
+			const headers: Record<string, string> = {};
 
-		if(this.settings.userToken){
-			if(addToken){
-				headers.Authorization = `QB-USER-TOKEN ${this.settings.userToken}`;
+			// Temporary token requests authenticate with the browser session, and are sent by renewals
+			const addToken = operationId !== 'getTempTokenDBID';
+
+			if(this.settings.userToken){
+				if(addToken){
+					headers.Authorization = `QB-USER-TOKEN ${this.settings.userToken}`;
+				}
+
+				return headers;
 			}
-		}else{
+
 			if(this.settings.appToken){
 				headers['QB-App-Token'] = this.settings.appToken;
 			}
 
-			if(addToken && this.settings.tempToken){
-				headers.Authorization = `QB-TEMP-TOKEN ${this.settings.tempToken}`;
+			if(addToken){
+				const dbid = this.getTempTokenDbid(config);
+
+				if(dbid){
+					// Hold the request until a renewal started by another request finishes
+					await this.tempTokens.waitForRenewal(dbid);
+
+					if(this.settings.autoRenewTempTokens && this.tempTokens.has(dbid) && this.tempTokens.needsRenewal(dbid)){
+						await this.renewTempToken(dbid);
+					}
+				}
+
+				const tempToken = (dbid && this.tempTokens.get(dbid)) || this.settings.tempToken;
+
+				if(tempToken){
+					headers.Authorization = `QB-TEMP-TOKEN ${tempToken}`;
+				}
+			}
+
+			return headers;
+		},
+		refresh: async ({ config }) => {
+			const dbid = this.getTempTokenDbid(config);
+
+			if(dbid){
+				await this.renewTempToken(dbid);
+			}
+		},
+		onUnauthorized: async (err, { operationId, config }) => {
+			const dbid = this.getTempTokenDbid(config);
+
+			if(operationId === 'getTempTokenDBID' || !this.settings.autoRenewTempTokens || !dbid || !isTokenRejected(err)){
+				return false;
+			}
+
+			// Another request already renewed the token this request was sent with
+			if(isSentWithTempToken(config, this.tempTokens.get(dbid))){
+				await this.renewTempToken(dbid);
 			}
+
+			return true;
 		}
+	};
+
+	/**
+	 * The application or table of a request with a stored temporary token, or the last `tempTokenDbid`
+	 */
+	private getTempTokenDbid(config: AxiosRequestConfig): string | undefined {
+		const dbid = getRequestDbid(config);
+
+		return dbid && this.tempTokens.has(dbid) ? dbid : (this.settings.tempTokenDbid || undefined);
+	}
+
+	/**
+	 * Concurrent renewals of the same application or table share a single request
+	 */
+	private async renewTempToken(dbid: string): Promise<void> {
+		const tempToken = await this.tempTokens.renew(dbid, async () => {
+			debugMain(`Getting new temporary ticket for ${dbid}...`);
+
+			const results = await this.authRequest<QuickBaseResponseGetTempTokenDBID>('getTempTokenDBID', {
+				url: `/auth/temporary/${dbid}`,
+				withCredentials: true
+			});
 
-		return headers;
+			return results.data.temporaryAuthorization;
+		});
+
+		this.settings.tempTokenDbid = dbid;
+		this.settings.tempToken = tempToken;
+	}
+
+	/**
+	 * Send an authentication request outside of middleware and the connection limit, so it isn't queued
+	 * behind the requests waiting on it
+	 */
+	private async authRequest<T = any>(operationId: string, options: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+		return await this.request<T>(merge.all([
+			this.getBaseRequest(),
+			options
+		]), {
+			id: operationId,
+			idempotent: true
+		});
 	}
 
 	private getBaseRequest(){
+		const server = this.settings.server.match(/^https?:\/\//i) ? this.settings.server : `https://${this.settings.server}`;
+
 		return {
 			method: 'GET',
-			baseURL: `https://${this.settings.server}/${this.settings.version}`,
+			baseURL: `${server}/${this.settings.version}`,
 			headers: {
 				'Content-Type': 'application/json; charset=UTF-8',
 				[IS_BROWSER ? 'X-User-Agent' : 'User-Agent']: `${this.settings.userAgent} node-quickbase/v${VERSION} ${IS_BROWSER ? (window.navigator ? window.navigator.userAgent : '') : 'nodejs/' + process.version}`.trim(),
@@ -226,37 +719,107 @@ export class QuickBase {
 		};
 	}
 
-	private async request<T = any>(options: AxiosRequestConfig, attempt = 0): Promise<AxiosResponse<T>> {
+	private getPolicyRetryDelay(err: any, headers: Parameters<typeof getRetryDelay>[0], tries: number, start: number): number | false {
+		if(!this.settings.retryPolicy){
+			return false;
+		}
+
+		const policy = {
+			...DEFAULT_RETRY_POLICY,
+			...this.settings.retryPolicy
+		};
+
+		if(tries >= policy.maxAttempts){
+			return false;
+		}
+
+		if(err instanceof QuickBaseNetworkError){
+			if(!err.errorCode || policy.retryErrorCodes.indexOf(err.errorCode) === -1){
+				return false;
+			}
+		}else
+		if(err instanceof QuickBaseError){
+			if(policy.retryStatuses.indexOf(err.code) === -1 || (err.code === 429 && !this.settings.retryOnQuotaExceeded)){
+				return false;
+			}
+		}else{
+			return false;
+		}
+
+		// Server hints take precedence over the backoff
+		const delayMs = headers['retry-after'] || headers['x-ratelimit-reset'] ? getRetryDelay(headers) : getBackoffDelay(policy, tries);
+
+		if(policy.deadline && (Date.now() - start) + delayMs > policy.deadline){
+			return false;
+		}
+
+		return delayMs;
+	}
+
+	private async request<T = any>(options: AxiosRequestConfig, operation: QuickBaseOperation, attempt = 0, tries = 1, start = Date.now()): Promise<AxiosResponse<T>> {
 		const id = 0 + (++this._id);
+		const auth = this.settings.auth || this.settingsAuth;
+		const context: QuickBaseAuthContext = {
+			quickbase: this,
+			operationId: operation.id,
+			config: options,
+			request: (operationId, config) => this.authRequest(operationId, config)
+		};
+
+		options.headers = {
+			...options.headers,
+			...(await auth.getHeaders(context))
+		};
 
 		try {
 			debugRequest(id, options);
 
-			options.headers = this.assignAuthorizationHeaders(options.headers, !options.url?.startsWith('/auth/temporary'));
-
-			const results = await axios.request<T>(options);
+			const transport = getTransport(this.settings.transport);
+			const results = this.settings.fixtures ? await requestFixture<T>(this.settings.fixtures, options, transport) : await transport<T>(options);
 
 			debugResponse(id, results);
 
 			return results;
 		}catch(err: any){
+			let error = err;
+			let headers: Parameters<typeof getRetryDelay>[0] = {};
+			let unsent = false;
+
+			const details: QuickBaseErrorDetails = {
+				operationId: operation.id || undefined,
+				method: (options.method || 'GET').toUpperCase(),
+				url: options.url,
+				attempt: tries
+			};
+
 			if(err.response){
-				const headers = objKeysToLowercase<{
+				const errHeaders = objKeysToLowercase<{
 					'x-ratelimit-reset': string;
 					'retry-after': string;
 					'qb-api-ray': string;
 				}>(err.response.headers);
 
-				const qbErr = new QuickBaseError(
+				headers = errHeaders;
+
+				const errResponse = getErrorResponse(err.response);
+
+				const ErrorClass = getErrorClass(err.response.status);
+
+				const qbErr = new ErrorClass(
 					err.response.status,
-					err.response.data.message,
-					err.response.data.description,
-					headers['qb-api-ray']
+					errResponse.message,
+					errResponse.description,
+					errHeaders['qb-api-ray'],
+					{
+						...details,
+						retryAfter: headers['retry-after'] || headers['x-ratelimit-reset'] ? getRetryDelay(headers) : undefined,
+						lineErrors: getLineErrors(err.response)
+					}
 				);
 
 				debugResponse(id, 'Quickbase Error', qbErr);
 
-				if(this.settings.retryOnQuotaExceeded && qbErr.code === 429){
+				if(!this.settings.retryPolicy && this.settings.retryOnQuotaExceeded && qbErr.code === 429){
 					const delayMs = getRetryDelay(headers);
 
 					debugResponse(id, `Waiting ${delayMs}ms until retrying...`);
@@ -265,61 +828,125 @@ export class QuickBase {
 
 					debugResponse(id, `Retrying...`);
 
-					return await this.request<T>(options);
+					return await this.request<T>(options, operation);
 				}
 
-				if(attempt >= 3){
-					throw qbErr;
-				}
+				if(qbErr instanceof QuickBaseAuthError && attempt < 3 && await auth.onUnauthorized(qbErr, context)){
+					debugResponse(id, `Retrying...`);
 
-				const errDescription = '' + (qbErr.description || '');
+					return await this.request<T>(options, operation, attempt + 1, tries, start);
+				}
 
-				if(this.settings.autoRenewTempTokens && this.settings.tempTokenDbid && (
-					errDescription.match(/Your ticket has expired/i)
-					||
-					errDescription.match(/Invalid Authorization/i)
-					||
-					errDescription.match(/Required header 'authorization' not found/i)
-				)){
-					debugResponse(id, `Getting new temporary ticket for ${this.settings.tempTokenDbid}...`);
+				error = qbErr;
+			}else{
+				debugResponse(id, 'Error', err);
 
-					const results = await this.request(merge.all([
-						this.getBaseRequest(),
-						{
-							url: `auth/temporary/${this.settings.tempTokenDbid}`,
-							withCredentials: true
-						}
-					]), attempt + 1);
+				const errorCode = getNetworkErrorCode(err);
 
-					this.setTempToken(this.settings.tempTokenDbid, results.data.temporaryAuthorization);
+				if(errorCode){
+					unsent = UNSENT_ERROR_CODES.indexOf(errorCode) !== -1;
 
-					debugResponse(id, `Retrying...`);
+					error = new QuickBaseNetworkError(0, err.message, '', '', {
+						...details,
+						errorCode
+					});
+				}
+			}
 
-					return await this.request<T>(options, attempt + 1);
+			// Without a response, a write that was sent may have been applied. Rate limited requests never are
+			if(!operation.idempotent && !(error instanceof QuickBaseRateLimitError) && !unsent){
+				if(error instanceof QuickBaseNetworkError){
+					throw new QuickBaseOutcomeUnknownError(0, `The outcome of ${operation.id} is unknown: ${error.message}`, '', '', error.toJSON());
 				}
 
-				throw qbErr;
+				throw error;
+			}
+
+			const delayMs = this.getPolicyRetryDelay(error, headers, tries, start);
+
+			if(delayMs === false){
+				throw error;
+			}
+
+			if(this.settings.retryPolicy && this.settings.retryPolicy.onRetry){
+				await this.settings.retryPolicy.onRetry({
+					attempt: tries,
+					delay: delayMs,
+					error,
+					config: options
+				});
 			}
 
-			debugResponse(id, 'Error', err);
+			debugResponse(id, `Waiting ${delayMs}ms until retrying...`);
+
+			await delay(delayMs);
+
+			debugResponse(id, `Retrying...`);
 
-			throw err;
+			return await this.request<T>(options, operation, attempt, tries + 1, start);
 		}
 	}
 
-	private async api<T = any>(actOptions: AxiosRequestConfig, reqOptions?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-		return this.throttle.acquire(async () => {
-			return await this.request<T>(merge.all([
-				this.getBaseRequest(),
-				actOptions,
-				reqOptions || {}
-			]));
-		});
+	private async api<T = any>(actOptions: AxiosRequestConfig, reqOptions?: AxiosRequestConfig, operation: QuickBaseOperation = { id: '', idempotent: false }): Promise<AxiosResponse<T>> {
+		const dispatch = async (i: number, options: AxiosRequestConfig): Promise<AxiosResponse<T>> => {
+			if(i < this.middleware.length){
+				return await this.middleware[i](options, (next) => dispatch(i + 1, next));
+			}
+
+			return this.throttle.acquire(async () => {
+				return await this.request<T>(options, operation);
+			});
+		};
+
+		return await dispatch(0, merge.all([
+			this.getBaseRequest(),
+			actOptions,
+			reqOptions || {}
+		], {
+			isMergeableObject: isMergeable
+		}));
+	}
+
+	/**
+	 * Add a middleware to run around every API call
+	 *
+	 * Middleware receives the request configuration and a `next` function that sends it on, and
+	 * resolves with the response. It may modify the configuration, return a response without calling
+	 * `next`, or catch and transform errors. Middleware runs in the order it was added, outside of the
+	 * connection limit and retries.
+	 *
+	 * Example:
+	 * ```typescript
+	 * qb.use(async (config, next) => {
+	 * 	const start = Date.now();
+	 *
+	 * 	try {
+	 * 		return await next(config);
+	 * 	}finally{
+	 * 		console.log(config.method, config.url, Date.now() - start);
+	 * 	}
+	 * });
+	 * ```
+	 *
+	 * @param middleware Middleware function
+	 */
+	use(middleware: QuickBaseMiddleware): QuickBase {
+		if(typeof(middleware) !== 'function'){
+			throw new TypeError('middleware argument must be type of function');
+		}
+
+		this.middleware.push(middleware);
+
+		return this;
 	}
 
 	/**
 	 * Set the internally stored `tempToken` for use in subsequent API calls
 	 *
+	 * Tokens are stored per application or table, and used for requests to the same application or
+	 * table. Other requests use the last token set. Tokens are renewed shortly before they expire, five
+	 * minutes after being set, if `autoRenewTempTokens` is enabled.
+	 *
 	 * Example:
 	 * ```typescript
 	 * qb.setTempToken('xxxx.xxx[...]xxx', 'xxxxxxxxx');
@@ -332,9 +959,297 @@ export class QuickBase {
 		this.settings.tempTokenDbid = dbid;
 		this.settings.tempToken = tempToken;
 
+		this.tempTokens.set(dbid, tempToken);
+
 		return this;
 	}
 
+	/**
+	 * Authenticate all subsequent API calls with an SSO session
+	 *
+	 * The subject token is exchanged with `exchangeSsoToken` on the next API call, and exchanged again
+	 * whenever the issued token expires or is rejected. Sets `auth` to a `QuickBaseSsoAuth` provider.
+	 *
+	 * Example:
+	 * ```typescript
+	 * qb.startSsoSession({
+	 * 	subjectToken: async () => await createSamlAssertion(user)
+	 * });
+	 * ```
+	 *
+	 * @param options SSO options
+	 */
+	startSsoSession(options: QuickBaseSsoAuthOptions): QuickBase {
+		this.settings.auth = new QuickBaseSsoAuth(options);
+
+		return this;
+	}
+
+	/**
+	 * Iterate over every page of a query, automatically following `metadata.skip` and `metadata.numRecords`
+	 *
+	 * `options.top`, if defined, is used as the page size. Iteration stops once `metadata.totalRecords`
+	 * has been reached, a page comes back empty or `maxRecords` records have been returned.
+	 *
+	 * Example:
+	 * ```typescript
+	 * for await (const page of qb.iterateQuery({ tableId: 'xxxxxxxxx', where: '{3.GT.0}' })){
+	 * 	console.log(page.metadata.skip, page.data.length);
+	 * }
+	 * ```
+	 *
+	 * @param options Query for data method options object
+	 * @param options.maxRecords The maximum number of records to return across all pages
+	 * @param options.signal An `AbortSignal` to cancel the iteration, including the in-flight request
+	 */
+	public async *iterateQuery({ maxRecords, signal, requestOptions, options, ...body }: QuickBaseRequestIterateQuery): AsyncGenerator<QuickBaseResponseRunQuery> {
+		yield *this.paginate((skip, top) => {
+			return this.runQuery({
+				...body,
+				options: {
+					...options,
+					skip,
+					top: top as number
+				},
+				requestOptions: merge(requestOptions || {}, signal ? { signal } : {}, {
+					isMergeableObject: isMergeable
+				})
+			});
+		}, {
+			skip: options?.skip,
+			top: options?.top,
+			maxRecords,
+			signal
+		});
+	}
+
+	/**
+	 * Iterate over every record of a query, automatically following `metadata.skip` and `metadata.numRecords`
+	 *
+	 * Example:
+	 * ```typescript
+	 * for await (const record of qb.queryAll({ tableId: 'xxxxxxxxx', select: [ 3 ], maxRecords: 5000 })){
+	 * 	console.log(record[3].value);
+	 * }
+	 * ```
+	 *
+	 * @param options Query for data method options object
+	 * @param options.maxRecords The maximum number of records to return across all pages
+	 * @param options.signal An `AbortSignal` to cancel the iteration, including the in-flight request
+	 */
+	public async *queryAll(options: QuickBaseRequestIterateQuery): AsyncGenerator<QuickBaseRecord> {
+		for await (const page of this.iterateQuery(options)){
+			for(const record of page.data){
+				yield record;
+			}
+		}
+	}
+
+	/**
+	 * Iterate over every page of a report, automatically following `metadata.skip` and `metadata.numRecords`
+	 *
+	 * `top`, if defined, is used as the page size. Iteration stops once `metadata.totalRecords`
+	 * has been reached, a page comes back empty or `maxRecords` records have been returned.
+	 *
+	 * Example:
+	 * ```typescript
+	 * for await (const page of qb.iterateReport({ tableId: 'xxxxxxxxx', reportId: '1' })){
+	 * 	console.log(page.metadata.skip, page.data.length);
+	 * }
+	 * ```
+	 *
+	 * @param options Run a report method options object
+	 * @param options.maxRecords The maximum number of records to return across all pages
+	 * @param options.signal An `AbortSignal` to cancel the iteration, including the in-flight request
+	 */
+	public async *iterateReport({ maxRecords, signal, requestOptions, skip, top, ...params }: QuickBaseRequestIterateReport): AsyncGenerator<QuickBaseResponseRunReport> {
+		yield *this.paginate((skip, top) => {
+			return this.runReport({
+				...params,
+				skip,
+				top,
+				requestOptions: merge(requestOptions || {}, signal ? { signal } : {}, {
+					isMergeableObject: isMergeable
+				})
+			});
+		}, {
+			skip,
+			top,
+			maxRecords,
+			signal
+		});
+	}
+
+	/**
+	 * Iterate over every record of a report, automatically following `metadata.skip` and `metadata.numRecords`
+	 *
+	 * Example:
+	 * ```typescript
+	 * for await (const record of qb.reportAll({ tableId: 'xxxxxxxxx', reportId: '1' })){
+	 * 	console.log(record[3].value);
+	 * }
+	 * ```
+	 *
+	 * @param options Run a report method options object
+	 * @param options.maxRecords The maximum number of records to return across all pages
+	 * @param options.signal An `AbortSignal` to cancel the iteration, including the in-flight request
+	 */
+	public async *reportAll(options: QuickBaseRequestIterateReport): AsyncGenerator<QuickBaseRecord> {
+		for await (const page of this.iterateReport(options)){
+			for(const record of page.data){
+				yield record;
+			}
+		}
+	}
+
+	/**
+	 * Insert and/or update any number of records, split into batches by record count and payload size
+	 *
+	 * Batches are sent one at a time as separate `upsert` calls, each through the instance throttle, and
+	 * the responses are merged into a single `QuickBaseResultUpsert`. `lineErrors` keys are re-indexed to each record's
+	 * position in the original `data` array (starting from 1), and the record id arrays and `data` are
+	 * concatenated in input order. The merged `status` is `207` if any batch partially failed.
+	 *
+	 * If a batch fails, no further batches are sent and a `QuickBaseUpsertManyError` is thrown with the
+	 * offset of the failed batch and the merged results of the batches before it, which are not rolled back.
+	 *
+	 * Example:
+	 * ```typescript
+	 * const results = await qb.upsertMany({
+	 * 	tableId: 'xxxxxxxxx',
+	 * 	data: records,
+	 * 	batchSize: 500
+	 * });
+	 * ```
+	 *
+	 * @param options Insert/Update record(s) method options object
+	 * @param options.batchSize The maximum number of records per batch, default is `1000`
+	 * @param options.maxBatchBytes The maximum serialized size of each batch in bytes, default is `20971520` (20MB)
+	 */
+	public async upsertMany({ data = [], batchSize = 1000, maxBatchBytes = 20 * 1024 * 1024, ...options }: QuickBaseRequestUpsertMany): Promise<QuickBaseResultUpsert> {
+		const baseBytes = getByteLength({
+			to: options.tableId,
+			mergeFieldId: options.mergeFieldId,
+			fieldsToReturn: options.fieldsToReturn,
+			data: []
+		});
+
+		const batches: { offset: number; bytes: number; data: QuickBaseRecord[]; }[] = [];
+
+		data.forEach((record, i) => {
+			const recordBytes = getByteLength(record) + 1;
+			const batch = batches[batches.length - 1];
+
+			if(!batch || batch.data.length >= batchSize || batch.bytes + recordBytes > maxBatchBytes){
+				batches.push({
+					offset: i,
+					bytes: baseBytes + recordBytes,
+					data: [ record ]
+				});
+			}else{
+				batch.bytes += recordBytes;
+				batch.data.push(record);
+			}
+		});
+
+		const merged = {
+			status: 200,
+			metadata: {
+				createdRecordIds: [],
+				lineErrors: {},
+				unchangedRecordIds: [],
+				updatedRecordIds: [],
+				totalNumberOfRecordsProcessed: 0
+			},
+			data: []
+		} as QuickBaseResultUpsert;
+
+		for(const batch of batches){
+			let result: QuickBaseResultUpsert;
+
+			try {
+				result = await this.upsert({
+					...options,
+					data: batch.data
+				});
+			}catch(err: any){
+				const details: QuickBaseErrorDetails = err instanceof QuickBaseError ? err.toJSON() : {};
+				const lineErrors = details.lineErrors;
+
+				throw new QuickBaseUpsertManyError(
+					err instanceof QuickBaseError ? err.code : 0,
+					`Batch at offset ${batch.offset} failed: ${err && err.message}`,
+					err instanceof QuickBaseError ? err.description : '',
+					err instanceof QuickBaseError ? err.rayId : '',
+					{
+						...details,
+						lineErrors: lineErrors ? Object.fromEntries(Object.entries(lineErrors).map(([ line, errors ]) => {
+							return [ batch.offset + (+line), errors ];
+						})) : undefined,
+						offset: batch.offset,
+						results: merged,
+						error: err instanceof Error ? err : new Error('' + err)
+					}
+				);
+			}
+
+			merged.metadata.createdRecordIds.push(...(result.metadata.createdRecordIds || []));
+			merged.metadata.updatedRecordIds.push(...(result.metadata.updatedRecordIds || []));
+			merged.metadata.unchangedRecordIds.push(...(result.metadata.unchangedRecordIds || []));
+			merged.metadata.totalNumberOfRecordsProcessed += result.metadata.totalNumberOfRecordsProcessed || 0;
+
+			Object.entries(result.metadata.lineErrors || {}).forEach(([ line, errors ]) => {
+				merged.metadata.lineErrors[batch.offset + (+line)] = errors;
+			});
+
+			merged.data.push(...(result.data || []));
+
+			if(result.status === 207){
+				merged.status = 207;
+			}
+		}
+
+		return merged;
+	}
+
+	private async *paginate<T extends QuickBasePage>(getPage: (skip: number, top?: number) => Promise<T>, {
+		skip = 0,
+		top,
+		maxRecords,
+		signal
+	}: QuickBasePaginationOptions & {
+		skip?: number;
+		top?: number;
+	}): AsyncGenerator<T> {
+		let returned = 0;
+
+		while(maxRecords === undefined || returned < maxRecords){
+			throwIfAborted(signal);
+
+			const remaining = maxRecords === undefined ? undefined : maxRecords - returned;
+			const pageSize = remaining === undefined ? top : Math.min(top || remaining, remaining);
+
+			const page = await getPage(skip, pageSize);
+
+			throwIfAborted(signal);
+
+			const numRecords = page.metadata.numRecords;
+
+			if(remaining !== undefined && page.data.length > remaining){
+				page.data = page.data.slice(0, remaining);
+			}
+
+			returned += page.data.length;
+			skip = (page.metadata.skip || skip) + numRecords;
+
+			yield page;
+
+			if(numRecords === 0 || skip >= page.metadata.totalRecords){
+				return;
+			}
+		}
+	}
+
 	/**
 	 * Rebuild the QuickBase instance from serialized JSON
 	 *
@@ -349,7 +1264,9 @@ export class QuickBase {
 			throw new TypeError('json argument must be type of object or a valid JSON string');
 		}
 
-		this.settings = merge(this.settings, json);
+		this.settings = merge(this.settings, json, {
+			isMergeableObject: isMergeable
+		});
 
 		return this;
 	}
@@ -358,7 +1275,9 @@ export class QuickBase {
 	 * Serialize the QuickBase instance into JSON
 	 */
 	toJSON(): Required<QuickBaseOptions> {
-		return merge({}, this.settings);
+		return merge({}, this.settings, {
+			isMergeableObject: isMergeable
+		});
 	}
 
 	/**
@@ -416,7 +1335,10 @@ export class QuickBase {
 			method: 'POST',
 			url: `/apps`,
 			data: body,
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'createApp',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -439,7 +1361,10 @@ export class QuickBase {
 		const results = await this.api<QuickBaseResponseGetApp>({
 			method: 'GET',
 			url: `/apps/${appId}`,
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'getApp',
+			idempotent: true
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -473,7 +1398,10 @@ export class QuickBase {
 			method: 'POST',
 			url: `/apps/${appId}`,
 			data: body,
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'updateApp',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -498,7 +1426,10 @@ export class QuickBase {
 			method: 'DELETE',
 			url: `/apps/${appId}`,
 			data: body,
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'deleteApp',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -521,7 +1452,10 @@ export class QuickBase {
 		const results = await this.api<QuickBaseResponseGetAppEvents>({
 			method: 'GET',
 			url: `/apps/${appId}/events`,
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'getAppEvents',
+			idempotent: true
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -551,7 +1485,10 @@ export class QuickBase {
 			method: 'POST',
 			url: `/apps/${appId}/copy`,
 			data: body,
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'copyApp',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -582,7 +1519,10 @@ export class QuickBase {
 			params: {
 				appId
 			}
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'createTable',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -608,7 +1548,10 @@ export class QuickBase {
 			params: {
 				appId
 			}
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'getAppTables',
+			idempotent: true
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -635,7 +1578,10 @@ export class QuickBase {
 			params: {
 				appId
 			}
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'getTable',
+			idempotent: true
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -667,7 +1613,10 @@ export class QuickBase {
 			params: {
 				appId
 			}
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'updateTable',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -694,7 +1643,10 @@ export class QuickBase {
 			params: {
 				appId
 			}
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'deleteTable',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -721,7 +1673,10 @@ export class QuickBase {
 			params: {
 				skip
 			}
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'getRelationships',
+			idempotent: true
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -752,7 +1707,10 @@ export class QuickBase {
 			method: 'POST',
 			url: `/tables/${childTableId}/relationship`,
 			data: body,
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'createRelationship',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -782,7 +1740,10 @@ export class QuickBase {
 			method: 'POST',
 			url: `/tables/${childTableId}/relationship/${relationshipId}`,
 			data: body,
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'updateRelationship',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -806,7 +1767,10 @@ export class QuickBase {
 		const results = await this.api<QuickBaseResponseDeleteRelationship>({
 			method: 'DELETE',
 			url: `/tables/${childTableId}/relationship/${relationshipId}`,
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'deleteRelationship',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -832,7 +1796,10 @@ export class QuickBase {
 			params: {
 				tableId
 			}
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'getTableReports',
+			idempotent: true
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -859,7 +1826,10 @@ export class QuickBase {
 			params: {
 				tableId
 			}
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'getReport',
+			idempotent: true
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -890,7 +1860,10 @@ export class QuickBase {
 				skip,
 				top
 			}
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'runReport',
+			idempotent: true
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -918,7 +1891,10 @@ export class QuickBase {
 				tableId,
 				includeFieldPerms
 			}
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'getFields',
+			idempotent: true
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1014,7 +1990,10 @@ export class QuickBase {
 			params: {
 				tableId
 			}
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'createField',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1042,7 +2021,10 @@ export class QuickBase {
 			params: {
 				tableId
 			}
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'deleteFields',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1072,7 +2054,10 @@ export class QuickBase {
 				tableId,
 				includeFieldPerms
 			}
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'getField',
+			idempotent: true
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1177,7 +2162,10 @@ export class QuickBase {
 			params: {
 				tableId
 			}
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'updateField',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1207,7 +2195,10 @@ export class QuickBase {
 				skip,
 				top
 			}
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'getFieldsUsage',
+			idempotent: true
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1234,7 +2225,10 @@ export class QuickBase {
 			params: {
 				tableId
 			}
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'getFieldUsage',
+			idempotent: true
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1263,7 +2257,10 @@ export class QuickBase {
 				from: tableId,
 				...body
 			},
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'runFormula',
+			idempotent: true
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1274,6 +2271,10 @@ export class QuickBase {
 	 * Insert and/or update record(s) in a table. In this single API call, inserts and updates can be submitted. Update can use the key field on the table, or any other supported unique field. Refer to the [Field types page](../fieldInfo) for more information about how each field type should be formatted. This operation allows for incremental processing of successful records, even when some of the records fail.  
 	 * **Note:** This endpoint supports a maximum payload size of 25MB.
 	 *
+	 * Resolves with a `status` property set to the HTTP status code of the response:
+	 * - `200`: A successful response that includes details on the records added, updated or unchanged.
+	 * - `207`: Receiving this status code indicates that some (or all) of the individual records being handled had problems and were not processed successfully.
+	 *
 	 * [Quickbase Documentation](https://developer.quickbase.com/operation/upsert)
 	 *
 	 * @param options Insert/Update record(s) method options object
@@ -1284,17 +2285,22 @@ export class QuickBase {
 	 * @param options.requestOptions Override axios request configuration
 	 * @param options.returnAxios If `true`, the returned object will be the entire `AxiosResponse` object
 	 */
-	public async upsert({ tableId, requestOptions, returnAxios, ...body }: QuickBaseRequestUpsert & { returnAxios?: false }): Promise<QuickBaseResponseUpsert>;
-	public async upsert({ tableId, requestOptions, returnAxios, ...body }: QuickBaseRequestUpsert & { returnAxios: true }): Promise<AxiosResponse<QuickBaseResponseUpsert>>;
-	public async upsert({ tableId, requestOptions, returnAxios = false, ...body }: QuickBaseRequestUpsert): Promise<QuickBaseResponseUpsert | AxiosResponse<QuickBaseResponseUpsert>> {
-		const results = await this.api<QuickBaseResponseUpsert>({
+	public async upsert({ tableId, requestOptions, returnAxios, ...body }: QuickBaseRequestUpsert & { returnAxios?: false }): Promise<QuickBaseResultUpsert>;
+	public async upsert({ tableId, requestOptions, returnAxios, ...body }: QuickBaseRequestUpsert & { returnAxios: true }): Promise<AxiosResponse<QuickBaseResultUpsert>>;
+	public async upsert({ tableId, requestOptions, returnAxios = false, ...body }: QuickBaseRequestUpsert): Promise<QuickBaseResultUpsert | AxiosResponse<QuickBaseResultUpsert>> {
+		const results = await this.api<QuickBaseResultUpsert>({
 			method: 'POST',
 			url: `/records`,
 			data: {
 				to: tableId,
 				...body
 			},
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'upsert',
+			idempotent: body.mergeFieldId !== undefined
+		});
+	
+		results.data.status = results.status as QuickBaseResultUpsert['status'];
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1322,7 +2328,10 @@ export class QuickBase {
 				from: tableId,
 				...body
 			},
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'deleteRecords',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1358,7 +2367,10 @@ export class QuickBase {
 				from: tableId,
 				...body
 			},
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'runQuery',
+			idempotent: true
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1382,7 +2394,10 @@ export class QuickBase {
 			method: 'GET',
 			url: `/auth/temporary/${dbid}`,
 			withCredentials: true,
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'getTempTokenDBID',
+			idempotent: true
+		});
 	
 		this.setTempToken(dbid, results.data.temporaryAuthorization);
 	
@@ -1411,7 +2426,10 @@ export class QuickBase {
 			method: 'POST',
 			url: `/auth/oauth/token`,
 			data: body,
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'exchangeSsoToken',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1436,7 +2454,10 @@ export class QuickBase {
 			method: 'POST',
 			url: `/usertoken/clone`,
 			data: body,
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'cloneUserToken',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1458,7 +2479,10 @@ export class QuickBase {
 		const results = await this.api<QuickBaseResponseDeactivateUserToken>({
 			method: 'POST',
 			url: `/usertoken/deactivate`,
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'deactivateUserToken',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1480,7 +2504,10 @@ export class QuickBase {
 		const results = await this.api<QuickBaseResponseDeleteUserToken>({
 			method: 'DELETE',
 			url: `/usertoken`,
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'deleteUserToken',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1506,7 +2533,10 @@ export class QuickBase {
 		const results = await this.api<QuickBaseResponseDownloadFile>({
 			method: 'GET',
 			url: `/files/${tableId}/${recordId}/${fieldId}/${versionNumber}`,
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'downloadFile',
+			idempotent: true
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1532,7 +2562,10 @@ export class QuickBase {
 		const results = await this.api<QuickBaseResponseDeleteFile>({
 			method: 'DELETE',
 			url: `/files/${tableId}/${recordId}/${fieldId}/${versionNumber}`,
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'deleteFile',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1562,7 +2595,10 @@ export class QuickBase {
 			params: {
 				accountId
 			}
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'getUsers',
+			idempotent: true
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1588,7 +2624,10 @@ export class QuickBase {
 			params: {
 				accountId
 			}
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'denyUsers',
+			idempotent: true
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1615,7 +2654,10 @@ export class QuickBase {
 			params: {
 				accountId
 			}
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'denyUsersAndGroups',
+			idempotent: true
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1641,7 +2683,10 @@ export class QuickBase {
 			params: {
 				accountId
 			}
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'undenyUsers',
+			idempotent: true
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1664,7 +2709,10 @@ export class QuickBase {
 		const results = await this.api<QuickBaseResponseAddMembersToGroup>({
 			method: 'POST',
 			url: `/groups/${gid}/members`,
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'addMembersToGroup',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1687,7 +2735,10 @@ export class QuickBase {
 		const results = await this.api<QuickBaseResponseRemoveMembersFromGroup>({
 			method: 'DELETE',
 			url: `/groups/${gid}/members`,
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'removeMembersFromGroup',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1710,7 +2761,10 @@ export class QuickBase {
 		const results = await this.api<QuickBaseResponseAddManagersToGroup>({
 			method: 'POST',
 			url: `/groups/${gid}/managers`,
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'addManagersToGroup',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1733,7 +2787,10 @@ export class QuickBase {
 		const results = await this.api<QuickBaseResponseRemoveManagersFromGroup>({
 			method: 'DELETE',
 			url: `/groups/${gid}/managers`,
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'removeManagersFromGroup',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1756,7 +2813,10 @@ export class QuickBase {
 		const results = await this.api<QuickBaseResponseAddSubgroupsToGroup>({
 			method: 'POST',
 			url: `/groups/${gid}/subgroups`,
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'addSubgroupsToGroup',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1779,7 +2839,10 @@ export class QuickBase {
 		const results = await this.api<QuickBaseResponseRemoveSubgroupsFromGroup>({
 			method: 'DELETE',
 			url: `/groups/${gid}/subgroups`,
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'removeSubgroupsFromGroup',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1790,6 +2853,10 @@ export class QuickBase {
 	 * Gathers the audit logs for a single day from a realm. By default, this API returns 10,000 entries. This can be changed with the numRows parameter. Integrators can iterate through batches to get an entire day's worth of logs. Each realm has a maximum entitlement of querying 1,000 days per year (allowing lookbacks for up to two years). Requests for paginated data do not count towards the annual limit. Transactional rate limits are 10 per 10 seconds.  
 	 * **Note:** This API is available for enterprise users only.
 	 *
+	 * Resolves with a `status` property set to the HTTP status code of the response:
+	 * - `200`: Query ran successfully and has returned the events for the given time period.
+	 * - `202`: Query still being processed.
+	 *
 	 * [Quickbase Documentation](https://developer.quickbase.com/operation/audit)
 	 *
 	 * @param options Get audit logs method options object
@@ -1800,14 +2867,19 @@ export class QuickBase {
 	 * @param options.requestOptions Override axios request configuration
 	 * @param options.returnAxios If `true`, the returned object will be the entire `AxiosResponse` object
 	 */
-	public async audit({ requestOptions, returnAxios, ...body }: QuickBaseRequestAudit & { returnAxios?: false }): Promise<QuickBaseResponseAudit>;
-	public async audit({ requestOptions, returnAxios, ...body }: QuickBaseRequestAudit & { returnAxios: true }): Promise<AxiosResponse<QuickBaseResponseAudit>>;
-	public async audit({ requestOptions, returnAxios = false, ...body }: QuickBaseRequestAudit): Promise<QuickBaseResponseAudit | AxiosResponse<QuickBaseResponseAudit>> {
-		const results = await this.api<QuickBaseResponseAudit>({
+	public async audit({ requestOptions, returnAxios, ...body }: QuickBaseRequestAudit & { returnAxios?: false }): Promise<QuickBaseResultAudit>;
+	public async audit({ requestOptions, returnAxios, ...body }: QuickBaseRequestAudit & { returnAxios: true }): Promise<AxiosResponse<QuickBaseResultAudit>>;
+	public async audit({ requestOptions, returnAxios = false, ...body }: QuickBaseRequestAudit): Promise<QuickBaseResultAudit | AxiosResponse<QuickBaseResultAudit>> {
+		const results = await this.api<QuickBaseResultAudit>({
 			method: 'POST',
 			url: `/audit`,
 			data: body,
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'audit',
+			idempotent: true
+		});
+	
+		results.data.status = results.status as QuickBaseResultAudit['status'];
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1834,7 +2906,10 @@ export class QuickBase {
 			params: {
 				day
 			}
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'platformAnalyticReads',
+			idempotent: true
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1868,7 +2943,10 @@ export class QuickBase {
 			params: {
 				accountId
 			}
-		}, requestOptions);
+		}, requestOptions, {
+			id: 'platformAnalyticEventSummaries',
+			idempotent: true
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1882,16 +2960,24 @@ export class QuickBase {
 	 *
 	 * @param options Export a solution method options object
 	 * @param options.solutionId The unique identifier of a solution
+	 * @param options.qblVersion The QBL version to be used for the export. If not specified the default would be used.
 	 * @param options.requestOptions Override axios request configuration
 	 * @param options.returnAxios If `true`, the returned object will be the entire `AxiosResponse` object
 	 */
-	public async exportSolution({ solutionId, requestOptions, returnAxios }: QuickBaseRequestExportSolution & { returnAxios?: false }): Promise<QuickBaseResponseExportSolution>;
-	public async exportSolution({ solutionId, requestOptions, returnAxios }: QuickBaseRequestExportSolution & { returnAxios: true }): Promise<AxiosResponse<QuickBaseResponseExportSolution>>;
-	public async exportSolution({ solutionId, requestOptions, returnAxios = false }: QuickBaseRequestExportSolution): Promise<QuickBaseResponseExportSolution | AxiosResponse<QuickBaseResponseExportSolution>> {
+	public async exportSolution({ solutionId, qblVersion, requestOptions, returnAxios }: QuickBaseRequestExportSolution & { returnAxios?: false }): Promise<QuickBaseResponseExportSolution>;
+	public async exportSolution({ solutionId, qblVersion, requestOptions, returnAxios }: QuickBaseRequestExportSolution & { returnAxios: true }): Promise<AxiosResponse<QuickBaseResponseExportSolution>>;
+	public async exportSolution({ solutionId, qblVersion, requestOptions, returnAxios = false }: QuickBaseRequestExportSolution): Promise<QuickBaseResponseExportSolution | AxiosResponse<QuickBaseResponseExportSolution>> {
 		const results = await this.api<QuickBaseResponseExportSolution>({
 			method: 'GET',
 			url: `/solutions/${solutionId}`,
-		}, requestOptions);
+			headers: {
+				'QBL-Version': qblVersion
+			},
+			responseType: 'text',
+		}, requestOptions, {
+			id: 'exportSolution',
+			idempotent: true
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1905,16 +2991,24 @@ export class QuickBase {
 	 *
 	 * @param options Update a solution method options object
 	 * @param options.solutionId The unique identifier of a solution
+	 * @param options.qbl The QBL to be used for the update.
 	 * @param options.requestOptions Override axios request configuration
 	 * @param options.returnAxios If `true`, the returned object will be the entire `AxiosResponse` object
 	 */
-	public async updateSolution({ solutionId, requestOptions, returnAxios }: QuickBaseRequestUpdateSolution & { returnAxios?: false }): Promise<QuickBaseResponseUpdateSolution>;
-	public async updateSolution({ solutionId, requestOptions, returnAxios }: QuickBaseRequestUpdateSolution & { returnAxios: true }): Promise<AxiosResponse<QuickBaseResponseUpdateSolution>>;
-	public async updateSolution({ solutionId, requestOptions, returnAxios = false }: QuickBaseRequestUpdateSolution): Promise<QuickBaseResponseUpdateSolution | AxiosResponse<QuickBaseResponseUpdateSolution>> {
+	public async updateSolution({ solutionId, qbl, requestOptions, returnAxios }: QuickBaseRequestUpdateSolution & { returnAxios?: false }): Promise<QuickBaseResponseUpdateSolution>;
+	public async updateSolution({ solutionId, qbl, requestOptions, returnAxios }: QuickBaseRequestUpdateSolution & { returnAxios: true }): Promise<AxiosResponse<QuickBaseResponseUpdateSolution>>;
+	public async updateSolution({ solutionId, qbl, requestOptions, returnAxios = false }: QuickBaseRequestUpdateSolution): Promise<QuickBaseResponseUpdateSolution | AxiosResponse<QuickBaseResponseUpdateSolution>> {
 		const results = await this.api<QuickBaseResponseUpdateSolution>({
 			method: 'PUT',
 			url: `/solutions/${solutionId}`,
-		}, requestOptions);
+			headers: {
+				'Content-Type': 'application/x-yaml'
+			},
+			data: qbl,
+		}, requestOptions, {
+			id: 'updateSolution',
+			idempotent: true
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1927,16 +3021,24 @@ export class QuickBase {
 	 * [Quickbase Documentation](https://developer.quickbase.com/operation/createSolution)
 	 *
 	 * @param options Create a solution method options object
+	 * @param options.qbl The QBL to be used for the update.
 	 * @param options.requestOptions Override axios request configuration
 	 * @param options.returnAxios If `true`, the returned object will be the entire `AxiosResponse` object
 	 */
-	public async createSolution({ requestOptions, returnAxios }: QuickBaseRequestCreateSolution & { returnAxios?: false }): Promise<QuickBaseResponseCreateSolution>;
-	public async createSolution({ requestOptions, returnAxios }: QuickBaseRequestCreateSolution & { returnAxios: true }): Promise<AxiosResponse<QuickBaseResponseCreateSolution>>;
-	public async createSolution({ requestOptions, returnAxios = false }: QuickBaseRequestCreateSolution = {}): Promise<QuickBaseResponseCreateSolution | AxiosResponse<QuickBaseResponseCreateSolution>> {
+	public async createSolution({ qbl, requestOptions, returnAxios }: QuickBaseRequestCreateSolution & { returnAxios?: false }): Promise<QuickBaseResponseCreateSolution>;
+	public async createSolution({ qbl, requestOptions, returnAxios }: QuickBaseRequestCreateSolution & { returnAxios: true }): Promise<AxiosResponse<QuickBaseResponseCreateSolution>>;
+	public async createSolution({ qbl, requestOptions, returnAxios = false }: QuickBaseRequestCreateSolution): Promise<QuickBaseResponseCreateSolution | AxiosResponse<QuickBaseResponseCreateSolution>> {
 		const results = await this.api<QuickBaseResponseCreateSolution>({
 			method: 'POST',
 			url: `/solutions`,
-		}, requestOptions);
+			headers: {
+				'Content-Type': 'application/x-yaml'
+			},
+			data: qbl,
+		}, requestOptions, {
+			id: 'createSolution',
+			idempotent: false
+		});
 	
 		return returnAxios ? results : results.data;
 	}
@@ -1948,6 +3050,8 @@ export type QuickBaseOptions = Partial<{
 	/**
 	 * Quickbase API Server FQDN
 	 *
+	 * May also be an origin including the protocol, such as `http://127.0.0.1:8080` for a `QuickBaseMockServer`
+	 *
 	 * Default is `api.quickbase.com`
 	 */
 	server: string;
@@ -2001,6 +3105,16 @@ export type QuickBaseOptions = Partial<{
 	 */
 	appToken: string;
 
+	/**
+	 * An authentication provider, used instead of the `userToken`, `tempToken` and `appToken` settings
+	 *
+	 * Use `QuickBaseUserTokenAuth`, `QuickBaseTempTokenAuth`, `QuickBaseSsoAuth` or your own
+	 * `QuickBaseAuthProvider`, for example to load tokens from a secrets manager.
+	 *
+	 * Default is `false`
+	 */
+	auth: false | QuickBaseAuthProvider;
+
 	/**
 	 * Provide a custom User-Agent to help track API usage within your logs
 	 *
@@ -2035,33 +3149,339 @@ export type QuickBaseOptions = Partial<{
 	 *
 	 * Default is `false`
 	 */
-	errorOnConnectionLimit: boolean;
+	errorOnConnectionLimit: boolean;
+
+	/**
+	 * Automatically retry if the Quickbase API rate limit is exceeded
+	 *
+	 * Default is `true`
+	 */
+	retryOnQuotaExceeded: boolean;
+
+	/**
+	 * Retry failed requests with exponential backoff
+	 *
+	 * When set, rate limited requests are also capped by `maxAttempts` instead of retrying until they
+	 * succeed. Temporary token renewals are not counted as attempts.
+	 *
+	 * Reads are always retried. Writes that are not safe to send twice, such as an `upsert` without a
+	 * `mergeFieldId`, are only retried when rate limited or never sent, such as on `ECONNREFUSED`.
+	 * Network failures after they were sent throw a `QuickBaseOutcomeUnknownError`, even when
+	 * `retryPolicy` is `false`.
+	 *
+	 * Default is `false`
+	 */
+	retryPolicy: false | QuickBaseRetryPolicy;
+
+	/**
+	 * Allows the use of a proxy for Quickbase API requests
+	 *
+	 * Default is `false`
+	 */
+	proxy: false | {
+		host: string;
+		port: number;
+		auth?: {
+			username: string;
+			password: string;
+		}
+	};
+
+	/**
+	 * Record API responses to, or replay them from, a JSON fixture file
+	 *
+	 * Node.js only. Replayed responses are matched by method, URL, query parameters and body, so tests
+	 * can run without network access or credentials.
+	 *
+	 * Default is `false`
+	 */
+	fixtures: false | QuickBaseFixtureOptions;
+
+	/**
+	 * The HTTP transport used to send requests
+	 *
+	 * `axios`, `fetch` for the native Fetch API, or a custom `QuickBaseTransport` function. Responses are
+	 * shaped like an `AxiosResponse` whichever transport is used. The `fetch` transport ignores `proxy`.
+	 *
+	 * Default is `axios`
+	 */
+	transport: 'axios' | 'fetch' | QuickBaseTransport;
+}>;
+
+export type QuickBaseRequest = {
+	requestOptions?: AxiosRequestConfig;
+	returnAxios?: boolean;
+};
+
+export type QuickBaseOperation = {
+	/**
+	 * The Quickbase API operation ID, such as `runQuery`
+	 */
+	id: string;
+
+	/**
+	 * Whether the request is safe to send again when its outcome is unknown
+	 */
+	idempotent: boolean;
+};
+
+export type QuickBaseRetryInfo = {
+	/**
+	 * The number of the attempt that failed, starting at `1`
+	 */
+	attempt: number;
+
+	/**
+	 * The time to wait before the next attempt, in milliseconds
+	 */
+	delay: number;
+
+	/**
+	 * The error of the failed attempt, a `QuickBaseError` for Quickbase API errors
+	 */
+	error: any;
+
+	/**
+	 * The request configuration
+	 */
+	config: AxiosRequestConfig;
+};
+
+export type QuickBaseRetryPolicy = {
+	/**
+	 * The maximum number of attempts, including the first
+	 *
+	 * Default is `3`
+	 */
+	maxAttempts?: number;
+
+	/**
+	 * The backoff before the first retry, in milliseconds, doubled with each retry
+	 *
+	 * Default is `500`
+	 */
+	baseDelay?: number;
+
+	/**
+	 * The maximum backoff between attempts, in milliseconds
+	 *
+	 * Default is `30000`
+	 */
+	maxDelay?: number;
+
+	/**
+	 * Wait a random time between zero and the backoff
+	 *
+	 * Default is `true`
+	 */
+	jitter?: boolean;
+
+	/**
+	 * The HTTP status codes to retry
+	 *
+	 * Default is `[ 429, 500, 502, 503, 504 ]`
+	 */
+	retryStatuses?: number[];
+
+	/**
+	 * The network error codes to retry, such as `ECONNRESET`
+	 *
+	 * Default is `[ 'ECONNABORTED', 'ECONNREFUSED', 'ECONNRESET', 'EAI_AGAIN', 'EPIPE', 'ETIMEDOUT', 'ERR_NETWORK' ]`
+	 */
+	retryErrorCodes?: string[];
+
+	/**
+	 * The total time allowed for all attempts, in milliseconds. A retry that would wait past the
+	 * deadline is not made. `0` for no deadline
+	 *
+	 * Default is `0`
+	 */
+	deadline?: number;
+
+	/**
+	 * Called before waiting for each retry
+	 */
+	onRetry?: (info: QuickBaseRetryInfo) => void | Promise<void>;
+};
+
+export type QuickBaseMiddlewareNext = (config: AxiosRequestConfig) => Promise<AxiosResponse>;
+
+export type QuickBaseMiddleware = (config: AxiosRequestConfig, next: QuickBaseMiddlewareNext) => Promise<AxiosResponse>;
+
+export type QuickBaseRecord = Record<string, { value: any }>;
+
+export type QuickBasePage = {
+	data: QuickBaseRecord[];
+	metadata: {
+		skip?: number;
+		totalRecords: number;
+		numRecords: number;
+	};
+};
+
+export type QuickBasePaginationOptions = {
+	/**
+	 * The maximum number of records to return across all pages
+	 */
+	maxRecords?: number;
+
+	/**
+	 * Cancels the iteration, including any in-flight request
+	 */
+	signal?: AbortSignal;
+};
+
+export type QuickBaseRequestIterateQuery = Omit<QuickBaseRequestRunQuery, 'returnAxios' | 'options'> & QuickBasePaginationOptions & {
+	options?: Partial<NonNullable<QuickBaseRequestRunQuery['options']>>;
+};
+
+export type QuickBaseRequestIterateReport = Omit<QuickBaseRequestRunReport, 'returnAxios'> & QuickBasePaginationOptions;
+
+export type QuickBaseRequestUpsertMany = Omit<QuickBaseRequestUpsert, 'returnAxios'> & {
+	/**
+	 * The maximum number of records per batch
+	 *
+	 * Default is `1000`
+	 */
+	batchSize?: number;
+
+	/**
+	 * The maximum serialized size of each batch, in bytes
+	 *
+	 * Default is `20971520` (20MB), Quickbase rejects payloads larger than 25MB
+	 */
+	maxBatchBytes?: number;
+};
+
+/**
+ * The date format of a Quickbase application
+ */
+export type QuickBaseDateFormat = 'MM-DD-YYYY' | 'MM-DD-YY' | 'DD-MM-YYYY' | 'DD-MM-YY' | 'YYYY-MM-DD';
+
+/**
+ * The type of a Quickbase field
+ */
+export type QuickBaseFieldType = 'text' | 'text-multiple-choice' | 'text-multi-line' | 'rich-text' | 'numeric' | 'currency' | 'rating' | 'percent' | 'multitext' | 'email' | 'url' | 'duration' | 'date' | 'datetime' | 'timestamp' | 'timeofday' | 'checkbox' | 'user' | 'multiuser' | 'address' | 'phone' | 'file';
+
+/**
+ * The type of a Quickbase report
+ */
+export type QuickBaseReportType = 'map' | 'gedit' | 'chart' | 'summary' | 'table' | 'timeline' | 'calendar';
+
+/**
+ * A role's permission on a Quickbase field
+ */
+export type QuickBaseFieldPermission = {
+	/**
+	 * The role associated with a given permission for the field
+	 */
+	role: string;
+	/**
+	 * The permission given to the role for this field
+	 */
+	permissionType: 'None' | 'View' | 'Modify';
+	/**
+	 * The Id of the given role
+	 */
+	roleId: number;
+};
+
+/**
+ * A Quickbase application
+ */
+export type QuickBaseApp = {
+	/**
+	 * The app name. You are allowed to create multiple apps with the same name, in the same realm, because they will have different dbid values. We urge you to be careful about doing this.
+	 */
+	name: string;
+	/**
+	 * The description for the app. If this property is left out, the app description will be blank.
+	 */
+	description: string;
+	/**
+	 * The time and date the app was created, in the ISO 8601 time format YYYY-MM-DDThh:mm:ss.sssZ (in UTC time zone).
+	 */
+	created: string;
+	/**
+	 * The time and date the app was last updated, in the ISO 8601 time format YYYY-MM-DDThh:mm:ss.sssZ (in UTC time zone).
+	 */
+	updated: string;
+	/**
+	 * A description of the format used when displaying date values in this app. Note that this is a browser-only parameter - see the [Field type details](../fieldInfo) page in the API Guide for how time values are returned in API calls. See [About Localizing Dates](https://help.quickbase.com/user-assistance/about_localizing_dates_numbers.html) to set the app’s date format.
+	 */
+	dateFormat: QuickBaseDateFormat;
+	/**
+	 * A description of the time zone used when displaying time values in this app. Note that this is a browser-only parameter - see the [Field type details](../fieldInfo) page in the portal for how time values are returned in API calls. See [Set the Time Zone for Both the Application and the Account](https://help.quickbase.com/user-assistance/application_local_timezone.html) to set the application’s time zone.
+	 */
+	timeZone: string;
+	/**
+	 * The unique identifier for this application.
+	 */
+	id: string;
+	/**
+	 * Indicates whether app includes Everyone On The Internet access. See [Sharing apps with Everyone on the Internet (EOTI).](https://help.quickbase.com/user-assistance/share_with_everyone_on_internet.html)
+	 */
+	hasEveryoneOnTheInternet: boolean;
+	/**
+	 * The app variables. See [About Application Variables](https://help.quickbase.com/user-assistance/variables.html)
+	 */
+	variables: {
+		/**
+		 * Variable name.
+		 */
+		name: string;
+		/**
+		 * Variable value.
+		 */
+		value: string;
+	}[];
+	/**
+	 * The Data Classification label assigned to the application. If Data Classification is not turned on, this will not be returned. If Data Classification is turned on, but application is not labeled, we return “None".  Data Classification labels can be added in the Admin Console by a Realm Administrator for Platform+ plans.
+	 */
+	dataClassification?: string;
+	/**
+	 * Security properties of the application
+	 */
+	securityProperties: {
+		/**
+		 * Allow users who are not administrators to copy
+		 */
+		allowClone: boolean;
+		/**
+		 * Allow users who are not administrators to export data
+		 */
+		allowExport: boolean;
+		/**
+		 * Hide from public application searches
+		 */
+		hideFromPublic: boolean;
+		/**
+		 * Require Application Tokens
+		 */
+		enableAppTokens: boolean;
+		/**
+		 * Only users logging in from "approved" IP addresses may access this application
+		 */
+		useIPFilter: boolean;
+		/**
+		 * Only "approved" users may access this application
+		 */
+		mustBeRealmApproved: boolean;
+	};
+};
 
+/**
+ * The standard Quickbase API error response body
+ */
+export type QuickBaseErrorResponse = {
 	/**
-	 * Automatically retry if the Quickbase API rate limit is exceeded
-	 *
-	 * Default is `true`
+	 * The type of error found.
 	 */
-	retryOnQuotaExceeded: boolean;
-
+	message: string;
 	/**
-	 * Allows the use of a proxy for Quickbase API requests
-	 *
-	 * Default is `false`
+	 * The description for the occurence of the error.
 	 */
-	proxy: false | {
-		host: string;
-		port: number;
-		auth?: {
-			username: string;
-			password: string;
-		}
-	}
-}>;
-
-export type QuickBaseRequest = {
-	requestOptions?: AxiosRequestConfig;
-	returnAxios?: boolean;
+	description: string;
 };
 
 export type QuickBaseRequestCreateApp = QuickBaseRequest & {
@@ -2726,24 +4146,11 @@ export type QuickBaseRequestCreateField = QuickBaseRequest & {
 	/**
 	 * The [field types](https://help.quickbase.com/user-assistance/field_types.html), click on any of the field type links for more info.
 	 */
-	fieldType: 'text' | 'text-multiple-choice' | 'text-multi-line' | 'rich-text' | 'numeric' | 'currency' | 'rating' | 'percent' | 'multitext' | 'email' | 'url' | 'duration' | 'date' | 'datetime' | 'timestamp' | 'timeofday' | 'checkbox' | 'user' | 'multiuser' | 'address' | 'phone' | 'file';
+	fieldType: QuickBaseFieldType;
 	/**
 	 * Field Permissions for different roles.
 	 */
-	permissions?: {
-		/**
-		 * The role associated with a given permission for the field
-		 */
-		role: string;
-		/**
-		 * The permission given to the role for this field
-		 */
-		permissionType: 'None' | 'View' | 'Modify';
-		/**
-		 * The Id of the given role
-		 */
-		roleId: number;
-	}[];
+	permissions?: QuickBaseFieldPermission[];
 	/**
 	 * Whether the field you are adding should appear on forms. Defaults to false.
 	 */
@@ -3085,20 +4492,7 @@ export type QuickBaseRequestUpdateField = QuickBaseRequest & {
 	/**
 	 * Field Permissions for different roles.
 	 */
-	permissions?: {
-		/**
-		 * The role associated with a given permission for the field
-		 */
-		role: string;
-		/**
-		 * The permission given to the role for this field
-		 */
-		permissionType: 'None' | 'View' | 'Modify';
-		/**
-		 * The Id of the given role
-		 */
-		roleId: number;
-	}[];
+	permissions?: QuickBaseFieldPermission[];
 	/**
 	 * Whether the field you are adding should appear on forms.
 	 */
@@ -3394,347 +4788,122 @@ export type QuickBaseRequestAddManagersToGroup = QuickBaseRequest & {
 
 export type QuickBaseRequestRemoveManagersFromGroup = QuickBaseRequest & {
 	/**
-	 * This is the ID of the group being modified.
-	 */
-	gid: number;
-};
-
-export type QuickBaseRequestAddSubgroupsToGroup = QuickBaseRequest & {
-	/**
-	 * This is the ID of the group being modified.
-	 */
-	gid: number;
-};
-
-export type QuickBaseRequestRemoveSubgroupsFromGroup = QuickBaseRequest & {
-	/**
-	 * This is the ID of the group being modified.
-	 */
-	gid: number;
-};
-
-export type QuickBaseRequestAudit = QuickBaseRequest & {
-	/**
-	 * Token specifying start of page. For first page don't supply this.
-	 */
-	nextToken: string;
-	/**
-	 * Number of logs to return per page, default is 10000, minimum is 1000, max is 50000.
-	 */
-	numRows: number;
-	/**
-	 * The query id of an audit log request. This id is needed to fetch subsequent paged results of a single query.
-	 */
-	queryId: string;
-	/**
-	 * The date for which audit logs need to be fetched. This must be date-time only, as YYYY-MM-DD, and a valid date in the past.
-	 */
-	date: string;
-};
-
-export type QuickBaseRequestPlatformAnalyticReads = QuickBaseRequest & {
-	/**
-	 * The date for which read summaries need to be fetched. This must be date-time only, as YYYY-MM-DD, and a valid date in the past.
-	 */
-	day?: string;
-};
-
-export type QuickBaseRequestPlatformAnalyticEventSummaries = QuickBaseRequest & {
-	/**
-	 * The ID of the account to query. If no value is specified, the first account matching the provided domain is chosen.
-	 */
-	accountId?: number;
-	/**
-	 * The start date and time of the requested summaries in ISO 8601 time format.
-	 */
-	start: string;
-	/**
-	 * The end date and time of the requested summaries in ISO 8601 time format.
-	 */
-	end: string;
-	/**
-	 * How the events should be grouped.
-	 */
-	groupBy: 'app' | 'user';
-	/**
-	 * A pagination token from a previous response. Used to fetch the next page.
-	 */
-	nextToken?: string;
-	/**
-	 * A list of items to filter events by. Only events which match ALL criteria will be included in the results.
-	 */
-	where?: {
-		/**
-		 * Id of the item to filter by - the hash uid if filtering a user, or the app id if filtering an app.
-		 */
-		id: string;
-		/**
-		 * The type of item to filter by.
-		 */
-		type: 'app' | 'user';
-	}[];
-};
-
-export type QuickBaseRequestExportSolution = QuickBaseRequest & {
-	/**
-	 * The unique identifier of a solution
-	 */
-	solutionId: string;
-};
-
-export type QuickBaseRequestUpdateSolution = QuickBaseRequest & {
-	/**
-	 * The unique identifier of a solution
-	 */
-	solutionId: string;
-};
-
-export type QuickBaseRequestCreateSolution = QuickBaseRequest & {
-};
-
-export type QuickBaseResponseCreateApp = {
-	/**
-	 * The app name. You are allowed to create multiple apps with the same name, in the same realm, because they will have different dbid values. We urge you to be careful about doing this.
-	 */
-	name: string;
-	/**
-	 * The description for the app. If this property is left out, the app description will be blank.
-	 */
-	description: string;
-	/**
-	 * The time and date the app was created, in the ISO 8601 time format YYYY-MM-DDThh:mm:ss.sssZ (in UTC time zone).
-	 */
-	created: string;
-	/**
-	 * The time and date the app was last updated, in the ISO 8601 time format YYYY-MM-DDThh:mm:ss.sssZ (in UTC time zone).
-	 */
-	updated: string;
-	/**
-	 * A description of the format used when displaying date values in this app. Note that this is a browser-only parameter - see the [Field type details](../fieldInfo) page in the API Guide for how time values are returned in API calls. See [About Localizing Dates](https://help.quickbase.com/user-assistance/about_localizing_dates_numbers.html) to set the app’s date format.
-	 */
-	dateFormat: 'MM-DD-YYYY' | 'MM-DD-YY' | 'DD-MM-YYYY' | 'DD-MM-YY' | 'YYYY-MM-DD';
-	/**
-	 * A description of the time zone used when displaying time values in this app. Note that this is a browser-only parameter - see the [Field type details](../fieldInfo) page in the portal for how time values are returned in API calls. See [Set the Time Zone for Both the Application and the Account](https://help.quickbase.com/user-assistance/application_local_timezone.html) to set the application’s time zone.
-	 */
-	timeZone: string;
-	/**
-	 * The unique identifier for this application.
-	 */
-	id: string;
-	/**
-	 * Indicates whether app includes Everyone On The Internet access. See [Sharing apps with Everyone on the Internet (EOTI).](https://help.quickbase.com/user-assistance/share_with_everyone_on_internet.html)
-	 */
-	hasEveryoneOnTheInternet: boolean;
-	/**
-	 * The app variables. See [About Application Variables](https://help.quickbase.com/user-assistance/variables.html)
-	 */
-	variables: {
-		/**
-		 * Variable name.
-		 */
-		name: string;
-		/**
-		 * Variable value.
-		 */
-		value: string;
-	}[];
-	/**
-	 * The Data Classification label assigned to the application. If Data Classification is not turned on, this will not be returned. If Data Classification is turned on, but application is not labeled, we return “None".  Data Classification labels can be added in the Admin Console by a Realm Administrator for Platform+ plans.
-	 */
-	dataClassification?: string;
-	/**
-	 * Security properties of the application
-	 */
-	securityProperties: {
-		/**
-		 * Allow users who are not administrators to copy
-		 */
-		allowClone: boolean;
-		/**
-		 * Allow users who are not administrators to export data
-		 */
-		allowExport: boolean;
-		/**
-		 * Hide from public application searches
-		 */
-		hideFromPublic: boolean;
-		/**
-		 * Require Application Tokens
-		 */
-		enableAppTokens: boolean;
-		/**
-		 * Only users logging in from "approved" IP addresses may access this application
-		 */
-		useIPFilter: boolean;
-		/**
-		 * Only "approved" users may access this application
-		 */
-		mustBeRealmApproved: boolean;
-	};
-};
-
-export type QuickBaseResponseGetApp = {
-	/**
-	 * The app name. You are allowed to create multiple apps with the same name, in the same realm, because they will have different dbid values. We urge you to be careful about doing this.
-	 */
-	name: string;
-	/**
-	 * The description for the app. If this property is left out, the app description will be blank.
-	 */
-	description: string;
-	/**
-	 * The time and date the app was created, in the ISO 8601 time format YYYY-MM-DDThh:mm:ss.sssZ (in UTC time zone).
-	 */
-	created: string;
-	/**
-	 * The time and date the app was last updated, in the ISO 8601 time format YYYY-MM-DDThh:mm:ss.sssZ (in UTC time zone).
+	 * This is the ID of the group being modified.
 	 */
-	updated: string;
+	gid: number;
+};
+
+export type QuickBaseRequestAddSubgroupsToGroup = QuickBaseRequest & {
 	/**
-	 * A description of the format used when displaying date values in this app. Note that this is a browser-only parameter - see the [Field type details](../fieldInfo) page in the API Guide for how time values are returned in API calls. See [About Localizing Dates](https://help.quickbase.com/user-assistance/about_localizing_dates_numbers.html) to set the app’s date format.
+	 * This is the ID of the group being modified.
 	 */
-	dateFormat: string;
+	gid: number;
+};
+
+export type QuickBaseRequestRemoveSubgroupsFromGroup = QuickBaseRequest & {
 	/**
-	 * A description of the time zone used when displaying time values in this app. Note that this is a browser-only parameter - see the [Field type details](../fieldInfo) page in the portal for how time values are returned in API calls. See [Set the Time Zone for Both the Application and the Account](https://help.quickbase.com/user-assistance/application_local_timezone.html) to set the application’s time zone.
+	 * This is the ID of the group being modified.
 	 */
-	timeZone: string;
+	gid: number;
+};
+
+export type QuickBaseRequestAudit = QuickBaseRequest & {
 	/**
-	 * The unique identifier for this application.
+	 * Token specifying start of page. For first page don't supply this.
 	 */
-	id: string;
+	nextToken: string;
 	/**
-	 * Indicates whether app includes Everyone On The Internet access. See [Sharing apps with Everyone on the Internet (EOTI).](https://help.quickbase.com/user-assistance/share_with_everyone_on_internet.html)
+	 * Number of logs to return per page, default is 10000, minimum is 1000, max is 50000.
 	 */
-	hasEveryoneOnTheInternet: boolean;
+	numRows: number;
 	/**
-	 * The app variables. See [About Application Variables](https://help.quickbase.com/user-assistance/variables.html)
+	 * The query id of an audit log request. This id is needed to fetch subsequent paged results of a single query.
 	 */
-	variables: {
-		/**
-		 * Variable name.
-		 */
-		name: string;
-		/**
-		 * Variable value.
-		 */
-		value: string;
-	}[];
+	queryId: string;
 	/**
-	 * The Data Classification label assigned to the application. If Data Classification is not turned on, this will not be returned. If Data Classification is turned on, but application is not labeled, we return “None".  Data Classification labels can be added in the Admin Console by a Realm Administrator for Platform+ plans.
+	 * The date for which audit logs need to be fetched. This must be date-time only, as YYYY-MM-DD, and a valid date in the past.
 	 */
-	dataClassification?: string;
+	date: string;
+};
+
+export type QuickBaseRequestPlatformAnalyticReads = QuickBaseRequest & {
 	/**
-	 * Security properties of the application
+	 * The date for which read summaries need to be fetched. This must be date-time only, as YYYY-MM-DD, and a valid date in the past.
 	 */
-	securityProperties: {
-		/**
-		 * Allow users who are not administrators to copy
-		 */
-		allowClone: boolean;
-		/**
-		 * Allow users who are not administrators to export data
-		 */
-		allowExport: boolean;
-		/**
-		 * Hide from public application searches
-		 */
-		hideFromPublic: boolean;
-		/**
-		 * Require Application Tokens
-		 */
-		enableAppTokens: boolean;
-		/**
-		 * Only users logging in from "approved" IP addresses may access this application
-		 */
-		useIPFilter: boolean;
-		/**
-		 * Only "approved" users may access this application
-		 */
-		mustBeRealmApproved: boolean;
-	};
+	day?: string;
 };
 
-export type QuickBaseResponseUpdateApp = {
+export type QuickBaseRequestPlatformAnalyticEventSummaries = QuickBaseRequest & {
 	/**
-	 * The app name. You are allowed to create multiple apps with the same name, in the same realm, because they will have different dbid values. We urge you to be careful about doing this.
+	 * The ID of the account to query. If no value is specified, the first account matching the provided domain is chosen.
 	 */
-	name: string;
+	accountId?: number;
 	/**
-	 * The description for the app. If this property is left out, the app description will be blank.
+	 * The start date and time of the requested summaries in ISO 8601 time format.
 	 */
-	description: string;
+	start: string;
 	/**
-	 * The time and date the app was created, in the ISO 8601 time format YYYY-MM-DDThh:mm:ss.sssZ (in UTC time zone).
+	 * The end date and time of the requested summaries in ISO 8601 time format.
 	 */
-	created: string;
+	end: string;
 	/**
-	 * The time and date the app was last updated, in the ISO 8601 time format YYYY-MM-DDThh:mm:ss.sssZ (in UTC time zone).
+	 * How the events should be grouped.
 	 */
-	updated: string;
+	groupBy: 'app' | 'user';
 	/**
-	 * A description of the format used when displaying date values in this app. Note that this is a browser-only parameter - see the [Field type details](../fieldInfo) page in the API Guide for how time values are returned in API calls. See [About Localizing Dates](https://help.quickbase.com/user-assistance/about_localizing_dates_numbers.html) to set the app’s date format.
+	 * A pagination token from a previous response. Used to fetch the next page.
 	 */
-	dateFormat: string;
+	nextToken?: string;
 	/**
-	 * A description of the time zone used when displaying time values in this app. Note that this is a browser-only parameter - see the [Field type details](../fieldInfo) page in the portal for how time values are returned in API calls. See [Set the Time Zone for Both the Application and the Account](https://help.quickbase.com/user-assistance/application_local_timezone.html) to set the application’s time zone.
+	 * A list of items to filter events by. Only events which match ALL criteria will be included in the results.
 	 */
-	timeZone: string;
+	where?: {
+		/**
+		 * Id of the item to filter by - the hash uid if filtering a user, or the app id if filtering an app.
+		 */
+		id: string;
+		/**
+		 * The type of item to filter by.
+		 */
+		type: 'app' | 'user';
+	}[];
+};
+
+export type QuickBaseRequestExportSolution = QuickBaseRequest & {
 	/**
-	 * The unique identifier for this application.
+	 * The unique identifier of a solution
 	 */
-	id: string;
+	solutionId: string;
 	/**
-	 * Indicates whether app includes Everyone On The Internet access. See [Sharing apps with Everyone on the Internet (EOTI).](https://help.quickbase.com/user-assistance/share_with_everyone_on_internet.html)
+	 * The QBL version to be used for the export. If not specified the default would be used.
 	 */
-	hasEveryoneOnTheInternet: boolean;
+	qblVersion?: string;
+};
+
+export type QuickBaseRequestUpdateSolution = QuickBaseRequest & {
 	/**
-	 * The app variables. See [About Application Variables](https://help.quickbase.com/user-assistance/variables.html)
+	 * The unique identifier of a solution
 	 */
-	variables: {
-		/**
-		 * Variable name.
-		 */
-		name: string;
-		/**
-		 * Variable value.
-		 */
-		value: string;
-	}[];
+	solutionId: string;
 	/**
-	 * The Data Classification label assigned to the application. If Data Classification is not turned on, this will not be returned. If Data Classification is turned on, but application is not labeled, we return “None".  Data Classification labels can be added in the Admin Console by a Realm Administrator for Platform+ plans.
+	 * The QBL to be used for the update.
 	 */
-	dataClassification?: string;
+	qbl: string;
+};
+
+export type QuickBaseRequestCreateSolution = QuickBaseRequest & {
 	/**
-	 * Security properties of the application
+	 * The QBL to be used for the update.
 	 */
-	securityProperties: {
-		/**
-		 * Allow users who are not administrators to copy
-		 */
-		allowClone: boolean;
-		/**
-		 * Allow users who are not administrators to export data
-		 */
-		allowExport: boolean;
-		/**
-		 * Hide from public application searches
-		 */
-		hideFromPublic: boolean;
-		/**
-		 * Require Application Tokens
-		 */
-		enableAppTokens: boolean;
-		/**
-		 * Only users logging in from "approved" IP addresses may access this application
-		 */
-		useIPFilter: boolean;
-		/**
-		 * Only "approved" users may access this application
-		 */
-		mustBeRealmApproved: boolean;
-	};
+	qbl: string;
 };
 
+export type QuickBaseResponseCreateApp = QuickBaseApp;
+
+export type QuickBaseResponseGetApp = QuickBaseApp;
+
+export type QuickBaseResponseUpdateApp = QuickBaseApp;
+
 export type QuickBaseResponseDeleteApp = {
 	/**
 	 * An ID of deleted application.
@@ -4149,7 +5318,7 @@ export type QuickBaseResponseGetRelationships = {
 			/**
 			 * Field type.
 			 */
-			type: 'text' | 'text-multiple-choice' | 'text-multi-line' | 'rich-text' | 'numeric' | 'currency' | 'rating' | 'percent' | 'multitext' | 'email' | 'url' | 'duration' | 'date' | 'datetime' | 'timestamp' | 'timeofday' | 'checkbox' | 'user' | 'multiuser' | 'address' | 'phone' | 'file';
+			type: QuickBaseFieldType;
 		};
 		/**
 		 * Whether this is a cross-app relationship.
@@ -4170,7 +5339,7 @@ export type QuickBaseResponseGetRelationships = {
 			/**
 			 * Field type.
 			 */
-			type: 'text' | 'text-multiple-choice' | 'text-multi-line' | 'rich-text' | 'numeric' | 'currency' | 'rating' | 'percent' | 'multitext' | 'email' | 'url' | 'duration' | 'date' | 'datetime' | 'timestamp' | 'timeofday' | 'checkbox' | 'user' | 'multiuser' | 'address' | 'phone' | 'file';
+			type: QuickBaseFieldType;
 		}[];
 		/**
 		 * The summary fields array.
@@ -4187,7 +5356,7 @@ export type QuickBaseResponseGetRelationships = {
 			/**
 			 * Field type.
 			 */
-			type: 'text' | 'text-multiple-choice' | 'text-multi-line' | 'rich-text' | 'numeric' | 'currency' | 'rating' | 'percent' | 'multitext' | 'email' | 'url' | 'duration' | 'date' | 'datetime' | 'timestamp' | 'timeofday' | 'checkbox' | 'user' | 'multiuser' | 'address' | 'phone' | 'file';
+			type: QuickBaseFieldType;
 		}[];
 	}[];
 	/**
@@ -4237,7 +5406,7 @@ export type QuickBaseResponseCreateRelationship = {
 		/**
 		 * Field type.
 		 */
-		type: 'text' | 'text-multiple-choice' | 'text-multi-line' | 'rich-text' | 'numeric' | 'currency' | 'rating' | 'percent' | 'multitext' | 'email' | 'url' | 'duration' | 'date' | 'datetime' | 'timestamp' | 'timeofday' | 'checkbox' | 'user' | 'multiuser' | 'address' | 'phone' | 'file';
+		type: QuickBaseFieldType;
 	};
 	/**
 	 * Whether this is a cross-app relationship.
@@ -4258,7 +5427,7 @@ export type QuickBaseResponseCreateRelationship = {
 		/**
 		 * Field type.
 		 */
-		type: 'text' | 'text-multiple-choice' | 'text-multi-line' | 'rich-text' | 'numeric' | 'currency' | 'rating' | 'percent' | 'multitext' | 'email' | 'url' | 'duration' | 'date' | 'datetime' | 'timestamp' | 'timeofday' | 'checkbox' | 'user' | 'multiuser' | 'address' | 'phone' | 'file';
+		type: QuickBaseFieldType;
 	}[];
 	/**
 	 * The summary fields array.
@@ -4275,7 +5444,7 @@ export type QuickBaseResponseCreateRelationship = {
 		/**
 		 * Field type.
 		 */
-		type: 'text' | 'text-multiple-choice' | 'text-multi-line' | 'rich-text' | 'numeric' | 'currency' | 'rating' | 'percent' | 'multitext' | 'email' | 'url' | 'duration' | 'date' | 'datetime' | 'timestamp' | 'timeofday' | 'checkbox' | 'user' | 'multiuser' | 'address' | 'phone' | 'file';
+		type: QuickBaseFieldType;
 	}[];
 };
 
@@ -4307,7 +5476,7 @@ export type QuickBaseResponseUpdateRelationship = {
 		/**
 		 * Field type.
 		 */
-		type: 'text' | 'text-multiple-choice' | 'text-multi-line' | 'rich-text' | 'numeric' | 'currency' | 'rating' | 'percent' | 'multitext' | 'email' | 'url' | 'duration' | 'date' | 'datetime' | 'timestamp' | 'timeofday' | 'checkbox' | 'user' | 'multiuser' | 'address' | 'phone' | 'file';
+		type: QuickBaseFieldType;
 	};
 	/**
 	 * Whether this is a cross-app relationship.
@@ -4328,7 +5497,7 @@ export type QuickBaseResponseUpdateRelationship = {
 		/**
 		 * Field type.
 		 */
-		type: 'text' | 'text-multiple-choice' | 'text-multi-line' | 'rich-text' | 'numeric' | 'currency' | 'rating' | 'percent' | 'multitext' | 'email' | 'url' | 'duration' | 'date' | 'datetime' | 'timestamp' | 'timeofday' | 'checkbox' | 'user' | 'multiuser' | 'address' | 'phone' | 'file';
+		type: QuickBaseFieldType;
 	}[];
 	/**
 	 * The summary fields array.
@@ -4345,7 +5514,7 @@ export type QuickBaseResponseUpdateRelationship = {
 		/**
 		 * Field type.
 		 */
-		type: 'text' | 'text-multiple-choice' | 'text-multi-line' | 'rich-text' | 'numeric' | 'currency' | 'rating' | 'percent' | 'multitext' | 'email' | 'url' | 'duration' | 'date' | 'datetime' | 'timestamp' | 'timeofday' | 'checkbox' | 'user' | 'multiuser' | 'address' | 'phone' | 'file';
+		type: QuickBaseFieldType;
 	}[];
 };
 
@@ -4368,7 +5537,7 @@ export type QuickBaseResponseGetTableReports = {
 	/**
 	 * The type of report in Quickbase (e.g., chart).
 	 */
-	type: 'map' | 'gedit' | 'chart' | 'summary' | 'table' | 'timeline' | 'calendar';
+	type: QuickBaseReportType;
 	/**
 	 * The configured description of a report.
 	 */
@@ -4441,7 +5610,7 @@ export type QuickBaseResponseGetReport = {
 	/**
 	 * The type of report in Quickbase (e.g., chart).
 	 */
-	type: 'map' | 'gedit' | 'chart' | 'summary' | 'table' | 'timeline' | 'calendar';
+	type: QuickBaseReportType;
 	/**
 	 * The configured description of a report.
 	 */
@@ -4548,7 +5717,7 @@ export type QuickBaseResponseRunReport = {
 		/**
 		 * Field type.
 		 */
-		type: 'text' | 'text-multiple-choice' | 'text-multi-line' | 'rich-text' | 'numeric' | 'currency' | 'rating' | 'percent' | 'multitext' | 'email' | 'url' | 'duration' | 'date' | 'datetime' | 'timestamp' | 'timeofday' | 'checkbox' | 'user' | 'multiuser' | 'address' | 'phone' | 'file';
+		type: QuickBaseFieldType;
 		/**
 		 * Column heading label override for field in report.
 		 */
@@ -4930,20 +6099,7 @@ export type QuickBaseResponseGetFields = {
 	/**
 	 * Field Permissions for different roles.
 	 */
-	permissions?: {
-		/**
-		 * The role associated with a given permission for the field
-		 */
-		role: string;
-		/**
-		 * The permission given to the role for this field
-		 */
-		permissionType: 'None' | 'View' | 'Modify';
-		/**
-		 * The Id of the given role
-		 */
-		roleId: number;
-	}[];
+	permissions?: QuickBaseFieldPermission[];
 }[];
 
 export type QuickBaseResponseCreateField = {
@@ -5291,20 +6447,7 @@ export type QuickBaseResponseCreateField = {
 	/**
 	 * Field Permissions for different roles.
 	 */
-	permissions?: {
-		/**
-		 * The role associated with a given permission for the field
-		 */
-		role: string;
-		/**
-		 * The permission given to the role for this field
-		 */
-		permissionType: 'None' | 'View' | 'Modify';
-		/**
-		 * The Id of the given role
-		 */
-		roleId: number;
-	}[];
+	permissions?: QuickBaseFieldPermission[];
 };
 
 export type QuickBaseResponseDeleteFields = {
@@ -5663,20 +6806,7 @@ export type QuickBaseResponseGetField = {
 	/**
 	 * Field Permissions for different roles.
 	 */
-	permissions?: {
-		/**
-		 * The role associated with a given permission for the field
-		 */
-		role: string;
-		/**
-		 * The permission given to the role for this field
-		 */
-		permissionType: 'None' | 'View' | 'Modify';
-		/**
-		 * The Id of the given role
-		 */
-		roleId: number;
-	}[];
+	permissions?: QuickBaseFieldPermission[];
 };
 
 export type QuickBaseResponseUpdateField = {
@@ -6024,20 +7154,7 @@ export type QuickBaseResponseUpdateField = {
 	/**
 	 * Field Permissions for different roles.
 	 */
-	permissions?: {
-		/**
-		 * The role associated with a given permission for the field
-		 */
-		role: string;
-		/**
-		 * The permission given to the role for this field
-		 */
-		permissionType: 'None' | 'View' | 'Modify';
-		/**
-		 * The Id of the given role
-		 */
-		roleId: number;
-	}[];
+	permissions?: QuickBaseFieldPermission[];
 };
 
 export type QuickBaseResponseGetFieldsUsage = {
@@ -6056,7 +7173,7 @@ export type QuickBaseResponseGetFieldsUsage = {
 		/**
 		 * Field type.
 		 */
-		type: 'text' | 'text-multiple-choice' | 'text-multi-line' | 'rich-text' | 'numeric' | 'currency' | 'rating' | 'percent' | 'multitext' | 'email' | 'url' | 'duration' | 'date' | 'datetime' | 'timestamp' | 'timeofday' | 'checkbox' | 'user' | 'multiuser' | 'address' | 'phone' | 'file';
+		type: QuickBaseFieldType;
 	};
 	/**
 	 * Usage Information about the field.
@@ -6234,7 +7351,7 @@ export type QuickBaseResponseGetFieldUsage = {
 		/**
 		 * Field type.
 		 */
-		type: 'text' | 'text-multiple-choice' | 'text-multi-line' | 'rich-text' | 'numeric' | 'currency' | 'rating' | 'percent' | 'multitext' | 'email' | 'url' | 'duration' | 'date' | 'datetime' | 'timestamp' | 'timeofday' | 'checkbox' | 'user' | 'multiuser' | 'address' | 'phone' | 'file';
+		type: QuickBaseFieldType;
 	};
 	/**
 	 * Usage Information about the field.
@@ -6435,6 +7552,42 @@ export type QuickBaseResponseUpsert = {
 	data: Record<string, { value: any }>[];
 };
 
+export type QuickBaseResponseUpsert207 = {
+	/**
+	 * Information about created records, updated records, referenced but unchanged records, and records having any errors while being processed.
+	 */
+	metadata: {
+		/**
+		 * Array containing the created record ids.
+		 */
+		createdRecordIds: number[];
+		/**
+		 * This will only be returned in the case of failed records. It is a collection of errors that occurred when processing the incoming data that resulted in records not being processed. Each object has a key representing the sequence number of the record in the original payload (starting from 1). The value is a list of errors occurred.
+		 */
+		lineErrors: Record<string, string[]>;
+		/**
+		 * Array containing the unchanged record ids.
+		 */
+		unchangedRecordIds: number[];
+		/**
+		 * Array containing the updated record ids.
+		 */
+		updatedRecordIds: number[];
+		/**
+		 * Number of records processed. Includes successful and failed record updates.
+		 */
+		totalNumberOfRecordsProcessed: number;
+	};
+	/**
+	 * The data that is expected to be returned.
+	 */
+	data: Record<string, { value: any }>[];
+};
+
+export type QuickBaseResponseUpsert400 = QuickBaseErrorResponse;
+
+export type QuickBaseResultUpsert = (QuickBaseResponseUpsert & { status: 200; }) | (QuickBaseResponseUpsert207 & { status: 207; });
+
 export type QuickBaseResponseDeleteRecords = {
 	/**
 	 * The number of records deleted.
@@ -6458,7 +7611,7 @@ export type QuickBaseResponseRunQuery = {
 		/**
 		 * Field type.
 		 */
-		type: 'text' | 'text-multiple-choice' | 'text-multi-line' | 'rich-text' | 'numeric' | 'currency' | 'rating' | 'percent' | 'multitext' | 'email' | 'url' | 'duration' | 'date' | 'datetime' | 'timestamp' | 'timeofday' | 'checkbox' | 'user' | 'multiuser' | 'address' | 'phone' | 'file';
+		type: QuickBaseFieldType;
 	}[];
 	/**
 	 * An array of objects that either represents the record data or summarized values, depending on the report type.
@@ -6813,6 +7966,15 @@ export type QuickBaseResponseAudit = {
 	nextToken?: string;
 };
 
+export type QuickBaseResponseAudit202 = {
+	/**
+	 * Query id of the requested audit log.
+	 */
+	queryId: string;
+};
+
+export type QuickBaseResultAudit = (QuickBaseResponseAudit & { status: 200; }) | (QuickBaseResponseAudit202 & { status: 202; });
+
 export type QuickBaseResponsePlatformAnalyticReads = {
 	/**
 	 * The date of the requested summary.
@@ -6930,12 +8092,44 @@ export type QuickBaseResponsePlatformAnalyticEventSummaries = {
 	};
 };
 
-export type QuickBaseResponseExportSolution = any;
+export type QuickBaseResponseExportSolution = string;
+
+export type QuickBaseResponseExportSolution400 = QuickBaseErrorResponse;
+
+export type QuickBaseResponseExportSolution404 = QuickBaseErrorResponse;
+
+export type QuickBaseResponseExportSolution401 = QuickBaseErrorResponse;
+
+export type QuickBaseResponseExportSolution403 = QuickBaseErrorResponse;
+
+export type QuickBaseResponseExportSolution4XX = QuickBaseErrorResponse;
+
+export type QuickBaseResponseExportSolution5XX = QuickBaseErrorResponse;
 
 export type QuickBaseResponseUpdateSolution = any;
 
+export type QuickBaseResponseUpdateSolution400 = QuickBaseErrorResponse;
+
+export type QuickBaseResponseUpdateSolution401 = QuickBaseErrorResponse;
+
+export type QuickBaseResponseUpdateSolution403 = QuickBaseErrorResponse;
+
+export type QuickBaseResponseUpdateSolution4XX = QuickBaseErrorResponse;
+
+export type QuickBaseResponseUpdateSolution5XX = QuickBaseErrorResponse;
+
 export type QuickBaseResponseCreateSolution = any;
 
+export type QuickBaseResponseCreateSolution400 = QuickBaseErrorResponse;
+
+export type QuickBaseResponseCreateSolution401 = QuickBaseErrorResponse;
+
+export type QuickBaseResponseCreateSolution403 = QuickBaseErrorResponse;
+
+export type QuickBaseResponseCreateSolution4XX = QuickBaseErrorResponse;
+
+export type QuickBaseResponseCreateSolution5XX = QuickBaseErrorResponse;
+
 /* Export to Browser */
 if(IS_BROWSER){
 	window.QuickBase = exports;
@@ -0,0 +1,764 @@
+'use strict';
+
+/* Dependencies */
+import type {
+	QuickBase,
+	QuickBaseFieldType,
+	QuickBaseRequestUpdateField,
+	QuickBaseResponseGetAppTables,
+	QuickBaseResponseGetFields,
+	QuickBaseResponseGetRelationships
+} from './quickbase';
+
+/* Types */
+export type QuickBaseSchemaField = Omit<QuickBaseRequestUpdateField, 'tableId' | 'fieldId' | 'label' | 'requestOptions' | 'returnAxios'> & {
+	/**
+	 * Stable key used to track the field across renames, defaults to `label`
+	 */
+	key?: string;
+	label: string;
+	fieldType: QuickBaseFieldType;
+};
+
+export type QuickBaseSchemaRelationship = {
+	/**
+	 * Key of the parent table in the manifest
+	 */
+	parentTable: string;
+
+	/**
+	 * Label of the reference field created in the child table, only used when creating the relationship
+	 */
+	foreignKeyField?: string;
+
+	/**
+	 * Keys of the parent table fields to look up into the child table
+	 */
+	lookupFields?: string[];
+};
+
+export type QuickBaseSchemaTable = {
+	/**
+	 * Stable key used to track the table across renames, defaults to `name`
+	 */
+	key?: string;
+	name: string;
+	description?: string;
+	singleRecordName?: string;
+	pluralRecordName?: string;
+	fields?: QuickBaseSchemaField[];
+
+	/**
+	 * Relationships where this table is the child table
+	 */
+	relationships?: QuickBaseSchemaRelationship[];
+};
+
+export type QuickBaseSchemaManifest = {
+	tables: QuickBaseSchemaTable[];
+};
+
+export type QuickBaseSchemaState = {
+	/**
+	 * Table keys mapped to table IDs
+	 */
+	tables: Record<string, string>;
+
+	/**
+	 * Table keys mapped to field keys mapped to field IDs
+	 */
+	fields: Record<string, Record<string, number>>;
+};
+
+export type QuickBaseSchemaOptions = {
+	/**
+	 * The `QuickBase` instance used for API calls
+	 */
+	quickbase: QuickBase;
+
+	/**
+	 * The application identifier
+	 */
+	appId: string;
+
+	/**
+	 * The desired tables, fields and relationships
+	 */
+	manifest: QuickBaseSchemaManifest;
+
+	/**
+	 * The state returned by a previous sync, tables and fields are matched by it before their name or label
+	 */
+	state?: QuickBaseSchemaState;
+
+	/**
+	 * Delete fields of managed tables that are not in the manifest, default is `false`
+	 *
+	 * Built in fields, lookup and summary fields and reference fields are never deleted.
+	 */
+	prune?: boolean;
+};
+
+export type QuickBaseSchemaDifference = {
+	path: string;
+	before: any;
+	after: any;
+};
+
+export type QuickBaseSchemaChange = {
+	action: 'add' | 'change' | 'remove';
+	kind: 'table' | 'field' | 'relationship';
+
+	/**
+	 * The table key, the child table key for relationships
+	 */
+	table: string;
+
+	/**
+	 * The table, field or parent table key
+	 */
+	key: string;
+
+	/**
+	 * The table name or field label
+	 */
+	name?: string;
+
+	differences: QuickBaseSchemaDifference[];
+};
+
+export type QuickBaseSchemaChangeset = {
+	appId: string;
+	manifest: QuickBaseSchemaManifest;
+
+	/**
+	 * The tables and fields matched when the changeset was created
+	 */
+	state: QuickBaseSchemaState;
+	changes: QuickBaseSchemaChange[];
+
+	/**
+	 * Differences that cannot be applied, such as field type changes
+	 */
+	warnings: string[];
+};
+
+export type QuickBaseSchemaSyncResult = {
+	applied: boolean;
+	changeset: QuickBaseSchemaChangeset;
+	state: QuickBaseSchemaState;
+};
+
+type LiveTable = {
+	table: QuickBaseResponseGetAppTables[number];
+	fields: QuickBaseResponseGetFields;
+	relationships: QuickBaseResponseGetRelationships['relationships'];
+};
+
+/* Helpers */
+const ACTION_SYMBOLS: Record<QuickBaseSchemaChange['action'], string> = {
+	add: '+',
+	change: '~',
+	remove: '-'
+};
+
+const TABLE_ATTRIBUTES = [ 'name', 'description', 'singleRecordName', 'pluralRecordName' ] as const;
+const FIELD_ATTRIBUTES = [ 'label', 'fieldHelp', 'required', 'unique', 'audited', 'bold', 'appearsByDefault', 'findEnabled', 'noWrap' ] as const;
+const CREATE_FIELD_ATTRIBUTES = [ 'label', 'fieldType', 'fieldHelp', 'audited', 'bold', 'appearsByDefault', 'findEnabled', 'noWrap', 'addToForms', 'permissions', 'properties' ] as const;
+
+// Not accepted by createField, set with updateField once the field exists
+const UPDATE_FIELD_ATTRIBUTES = [ 'required', 'unique' ] as const;
+
+// Record ID#, Date Created, Date Modified, Record Owner and Last Modified By
+const BUILT_IN_FIELD_MAX_ID = 5;
+
+const isEqual = (a: any, b: any) => {
+	return JSON.stringify(a) === JSON.stringify(b);
+};
+
+const getTableKey = (table: QuickBaseSchemaTable) => {
+	return table.key || table.name;
+};
+
+const getFieldKey = (field: QuickBaseSchemaField) => {
+	return field.key || field.label;
+};
+
+const pick = <T, K extends keyof T>(obj: T, keys: readonly K[]): Pick<T, K> => {
+	return keys.reduce((results, key) => {
+		if(obj[key] !== undefined){
+			results[key] = obj[key];
+		}
+
+		return results;
+	}, {} as Pick<T, K>);
+};
+
+const formatValue = (value: any) => {
+	return value === undefined ? '(none)' : JSON.stringify(value);
+};
+
+const diffField = (field: QuickBaseSchemaField, live: QuickBaseResponseGetFields[number]) => {
+	const differences: QuickBaseSchemaDifference[] = [];
+
+	FIELD_ATTRIBUTES.forEach((attribute) => {
+		if(field[attribute] !== undefined && !isEqual(field[attribute], live[attribute])){
+			differences.push({
+				path: attribute,
+				before: live[attribute],
+				after: field[attribute]
+			});
+		}
+	});
+
+	Object.entries(field.properties || {}).forEach(([ property, value ]) => {
+		const before = live.properties ? (live.properties as Record<string, any>)[property] : undefined;
+
+		if(value !== undefined && !isEqual(value, before)){
+			differences.push({
+				path: `properties.${property}`,
+				before,
+				after: value
+			});
+		}
+	});
+
+	return differences;
+};
+
+const getLookupTargets = (live: LiveTable, relationship: LiveTable['relationships'][number]) => {
+	const foreignKeyId = relationship.foreignKeyField ? relationship.foreignKeyField.id : undefined;
+
+	return live.fields.filter((field) => {
+		return field.mode === 'lookup' && field.properties && field.properties.lookupReferenceFieldId === foreignKeyId;
+	}).map((field) => {
+		return field.properties!.lookupTargetFieldId;
+	});
+};
+
+/* Functions */
+/**
+ * Format a changeset as human readable text
+ *
+ * Example:
+ * ```
+ * App xxxxxxxxx: 2 to add, 1 to change, 0 to remove
+ *
+ *   + field orders.notes (Notes)
+ *   ~ field orders.total (Total)
+ *       properties.decimalPlaces: 2 -> 3
+ *   + relationship orders -> customers
+ * ```
+ *
+ * @param changeset The changeset to format
+ */
+export const formatSchemaChangeset = (changeset: QuickBaseSchemaChangeset): string => {
+	const count = (action: QuickBaseSchemaChange['action']) => {
+		return changeset.changes.filter((change) => change.action === action).length;
+	};
+
+	const lines = [
+		`App ${changeset.appId}: ${count('add')} to add, ${count('change')} to change, ${count('remove')} to remove`,
+		''
+	];
+
+	if(changeset.changes.length === 0){
+		lines.push('No changes.');
+	}
+
+	changeset.changes.forEach((change) => {
+		const name = change.kind === 'table' ? change.key : (change.kind === 'field' ? `${change.table}.${change.key}` : `${change.table} -> ${change.key}`);
+
+		lines.push(`  ${ACTION_SYMBOLS[change.action]} ${change.kind} ${name}${change.name !== undefined ? ` (${change.name})` : ''}`);
+
+		change.differences.forEach(({ path, before, after }) => {
+			lines.push(`      ${path}: ${formatValue(before)} -> ${formatValue(after)}`);
+		});
+	});
+
+	if(changeset.warnings.length > 0){
+		lines.push('', ...changeset.warnings.map((warning) => `  ! ${warning}`));
+	}
+
+	return lines.join('\n');
+};
+
+/* Main Class */
+export class QuickBaseSchema {
+
+	public readonly CLASS_NAME: string = 'QuickBaseSchema';
+	static readonly CLASS_NAME: string = 'QuickBaseSchema';
+
+	public readonly quickbase: QuickBase;
+	public readonly appId: string;
+	public readonly manifest: QuickBaseSchemaManifest;
+	public readonly prune: boolean;
+
+	public state: QuickBaseSchemaState;
+
+	/**
+	 * Converge an application's tables, fields and relationships to a manifest
+	 *
+	 * Tables are matched by stable key, through `state`, then by name. Fields are matched by stable
+	 * key, through `state`, then by label. Field IDs never need to appear in the manifest.
+	 *
+	 * Example:
+	 * ```typescript
+	 * const schema = new QuickBaseSchema({
+	 * 	quickbase: qb,
+	 * 	appId: 'xxxxxxxxx',
+	 * 	manifest: {
+	 * 		tables: [{
+	 * 			key: 'orders',
+	 * 			name: 'Orders',
+	 * 			fields: [{ key: 'total', label: 'Total', fieldType: 'currency' }]
+	 * 		}]
+	 * 	}
+	 * });
+	 *
+	 * const { changeset } = await schema.sync();
+	 *
+	 * console.log(formatSchemaChangeset(changeset));
+	 *
+	 * const { state } = await schema.sync({ dryRun: false });
+	 * ```
+	 *
+	 * @param options Schema options
+	 */
+	constructor(options: QuickBaseSchemaOptions) {
+		this.quickbase = options.quickbase;
+		this.appId = options.appId;
+		this.manifest = options.manifest;
+		this.prune = options.prune || false;
+		this.state = {
+			tables: { ...(options.state?.tables || {}) },
+			fields: Object.fromEntries(Object.entries(options.state?.fields || {}).map(([ key, fields ]) => {
+				return [ key, { ...fields } ];
+			}))
+		};
+
+		this.validate();
+	}
+
+	/**
+	 * Read the application's current tables, fields and relationships and compute the changes needed
+	 * to match the manifest
+	 */
+	async plan(): Promise<QuickBaseSchemaChangeset> {
+		const tables = await this.quickbase.getAppTables({
+			appId: this.appId
+		});
+
+		const state: QuickBaseSchemaState = {
+			tables: {},
+			fields: {}
+		};
+
+		const live = new Map<string, LiveTable>();
+		const warnings: string[] = [];
+		const tableChanges: QuickBaseSchemaChange[] = [];
+		const fieldChanges: QuickBaseSchemaChange[] = [];
+		const relationshipChanges: QuickBaseSchemaChange[] = [];
+		const removals: QuickBaseSchemaChange[] = [];
+
+		await Promise.all(this.manifest.tables.map(async (table) => {
+			const key = getTableKey(table);
+			const match = tables.find((liveTable) => liveTable.id === this.state.tables[key]) || tables.find((liveTable) => {
+				return liveTable.name === table.name;
+			});
+
+			if(!match){
+				return;
+			}
+
+			const [ fields, relationships ] = await Promise.all([
+				this.quickbase.getFields({
+					tableId: match.id
+				}),
+				this.quickbase.getRelationships({
+					childTableId: match.id
+				})
+			]);
+
+			live.set(key, {
+				table: match,
+				fields,
+				relationships: relationships.relationships
+			});
+		}));
+
+		this.manifest.tables.forEach((table) => {
+			const key = getTableKey(table);
+			const liveTable = live.get(key);
+
+			state.fields[key] = {};
+
+			if(!liveTable){
+				tableChanges.push({
+					action: 'add',
+					kind: 'table',
+					table: key,
+					key,
+					name: table.name,
+					differences: []
+				});
+			}else{
+				state.tables[key] = liveTable.table.id;
+
+				const differences = TABLE_ATTRIBUTES.filter((attribute) => {
+					return table[attribute] !== undefined && table[attribute] !== liveTable.table[attribute];
+				}).map((attribute) => ({
+					path: attribute,
+					before: liveTable.table[attribute],
+					after: table[attribute]
+				}));
+
+				if(differences.length > 0){
+					tableChanges.push({
+						action: 'change',
+						kind: 'table',
+						table: key,
+						key,
+						name: table.name,
+						differences
+					});
+				}
+			}
+
+			const matched: number[] = [];
+
+			(table.fields || []).forEach((field) => {
+				const fieldKey = getFieldKey(field);
+				const stateId = (this.state.fields[key] || {})[fieldKey];
+				const liveField = liveTable && (liveTable.fields.find((liveField) => liveField.id === stateId) || liveTable.fields.find((liveField) => {
+					return liveField.label === field.label && matched.indexOf(liveField.id) === -1;
+				}));
+
+				if(!liveField){
+					fieldChanges.push({
+						action: 'add',
+						kind: 'field',
+						table: key,
+						key: fieldKey,
+						name: field.label,
+						differences: []
+					});
+
+					return;
+				}
+
+				matched.push(liveField.id);
+
+				state.fields[key][fieldKey] = liveField.id;
+
+				if(liveField.fieldType !== field.fieldType){
+					warnings.push(`field ${key}.${fieldKey}: fieldType cannot be changed from ${formatValue(liveField.fieldType)} to ${formatValue(field.fieldType)}`);
+				}
+
+				const differences = diffField(field, liveField);
+
+				if(differences.length > 0){
+					fieldChanges.push({
+						action: 'change',
+						kind: 'field',
+						table: key,
+						key: fieldKey,
+						name: field.label,
+						differences
+					});
+				}
+			});
+
+			(table.relationships || []).forEach((relationship) => {
+				const parentLive = live.get(relationship.parentTable);
+				const liveRelationship = liveTable && parentLive && liveTable.relationships.find((liveRelationship) => {
+					return liveRelationship.parentTableId === parentLive.table.id;
+				});
+
+				if(!liveTable || !liveRelationship){
+					relationshipChanges.push({
+						action: 'add',
+						kind: 'relationship',
+						table: key,
+						key: relationship.parentTable,
+						differences: []
+					});
+
+					return;
+				}
+
+				const parentFields = this.getTable(relationship.parentTable).fields || [];
+				const targets = getLookupTargets(liveTable, liveRelationship);
+				const missing = (relationship.lookupFields || []).filter((fieldKey) => {
+					const parentField = parentFields.find((field) => getFieldKey(field) === fieldKey)!;
+					const parentFieldId = (parentLive!.fields.find((liveField) => {
+						return liveField.id === (this.state.fields[relationship.parentTable] || {})[fieldKey];
+					}) || parentLive!.fields.find((liveField) => {
+						return liveField.label === parentField.label;
+					}))?.id;
+
+					return parentFieldId === undefined || targets.indexOf(parentFieldId) === -1;
+				});
+
+				if(missing.length > 0){
+					relationshipChanges.push({
+						action: 'change',
+						kind: 'relationship',
+						table: key,
+						key: relationship.parentTable,
+						differences: [{
+							path: 'lookupFields',
+							before: undefined,
+							after: missing
+						}]
+					});
+				}
+			});
+
+			if(this.prune && liveTable){
+				const protectedIds = liveTable.relationships.reduce((ids, liveRelationship) => {
+					return liveRelationship.foreignKeyField ? ids.concat(liveRelationship.foreignKeyField.id) : ids;
+				}, [] as number[]);
+
+				liveTable.fields.filter((liveField) => {
+					return liveField.id > BUILT_IN_FIELD_MAX_ID
+						&& matched.indexOf(liveField.id) === -1
+						&& protectedIds.indexOf(liveField.id) === -1
+						&& liveField.mode !== 'lookup'
+						&& liveField.mode !== 'summary';
+				}).forEach((liveField) => {
+					removals.push({
+						action: 'remove',
+						kind: 'field',
+						table: key,
+						key: '' + liveField.id,
+						name: liveField.label,
+						differences: []
+					});
+				});
+			}
+		});
+
+		return {
+			appId: this.appId,
+			manifest: this.manifest,
+			state,
+			changes: [
+				...tableChanges,
+				...fieldChanges,
+				...relationshipChanges,
+				...removals
+			],
+			warnings
+		};
+	}
+
+	/**
+	 * Apply a changeset created by `plan()`
+	 *
+	 * Changes are applied in order: tables, fields, relationships and finally field removals. The
+	 * returned state maps every table and field key to its ID and should be passed to future syncs.
+	 *
+	 * @param changeset The changeset to apply
+	 */
+	async apply(changeset: QuickBaseSchemaChangeset): Promise<QuickBaseSchemaState> {
+		if(changeset.appId !== this.appId){
+			throw new Error(`Changeset is for app ${changeset.appId}, not ${this.appId}`);
+		}
+
+		const state: QuickBaseSchemaState = {
+			tables: { ...changeset.state.tables },
+			fields: Object.fromEntries(Object.entries(changeset.state.fields).map(([ key, fields ]) => {
+				return [ key, { ...fields } ];
+			}))
+		};
+
+		const removals: Record<string, number[]> = {};
+
+		for(const change of changeset.changes){
+			const table = this.getTable(change.table);
+			const tableId = state.tables[change.table];
+
+			if(change.kind === 'table'){
+				if(change.action === 'add'){
+					const results = await this.quickbase.createTable({
+						appId: this.appId,
+						name: table.name,
+						description: table.description,
+						singleRecordName: table.singleRecordName,
+						pluralRecordName: table.pluralRecordName
+					});
+
+					state.tables[change.table] = results.id;
+				}else{
+					await this.quickbase.updateTable({
+						appId: this.appId,
+						tableId,
+						...this.getUpdates(change)
+					});
+				}
+			}else
+			if(change.kind === 'field'){
+				if(change.action === 'remove'){
+					removals[tableId] = (removals[tableId] || []).concat(+change.key);
+
+					continue;
+				}
+
+				const field = (table.fields || []).find((field) => getFieldKey(field) === change.key)!;
+
+				if(change.action === 'add'){
+					const results = await this.quickbase.createField({
+						...pick(field, CREATE_FIELD_ATTRIBUTES),
+						tableId
+					});
+
+					state.fields[change.table][change.key] = results.id;
+
+					const updates = pick(field, UPDATE_FIELD_ATTRIBUTES);
+
+					if(Object.keys(updates).length > 0){
+						await this.quickbase.updateField({
+							...updates,
+							tableId,
+							fieldId: results.id
+						});
+					}
+				}else{
+					await this.quickbase.updateField({
+						tableId,
+						fieldId: state.fields[change.table][change.key],
+						...this.getUpdates(change)
+					});
+				}
+			}else{
+				const relationship = (table.relationships || []).find((relationship) => relationship.parentTable === change.key)!;
+				const lookupFieldIds = (change.action === 'add' ? relationship.lookupFields || [] : change.differences[0].after as string[]).map((fieldKey) => {
+					return state.fields[relationship.parentTable][fieldKey];
+				});
+
+				if(change.action === 'add'){
+					await this.quickbase.createRelationship({
+						childTableId: tableId,
+						parentTableId: state.tables[relationship.parentTable],
+						foreignKeyField: relationship.foreignKeyField ? {
+							label: relationship.foreignKeyField
+						} : undefined,
+						lookupFieldIds: lookupFieldIds.length > 0 ? lookupFieldIds : undefined
+					});
+				}else{
+					const liveRelationships = await this.quickbase.getRelationships({
+						childTableId: tableId
+					});
+
+					await this.quickbase.updateRelationship({
+						childTableId: tableId,
+						relationshipId: liveRelationships.relationships.find((liveRelationship) => {
+							return liveRelationship.parentTableId === state.tables[relationship.parentTable];
+						})!.id,
+						lookupFieldIds
+					});
+				}
+			}
+		}
+
+		await Promise.all(Object.entries(removals).map(([ tableId, fieldIds ]) => {
+			return this.quickbase.deleteFields({
+				tableId,
+				fieldIds
+			});
+		}));
+
+		this.state = state;
+
+		return state;
+	}
+
+	/**
+	 * Plan the changes needed to match the manifest, and apply them if `dryRun` is `false`
+	 *
+	 * @param options.dryRun If `true`, only compute the changeset, default is `true`
+	 */
+	async sync({ dryRun = true }: { dryRun?: boolean; } = {}): Promise<QuickBaseSchemaSyncResult> {
+		const changeset = await this.plan();
+
+		if(dryRun || changeset.changes.length === 0){
+			return {
+				applied: false,
+				changeset,
+				state: changeset.state
+			};
+		}
+
+		return {
+			applied: true,
+			changeset,
+			state: await this.apply(changeset)
+		};
+	}
+
+	/**
+	 * Test if a variable is a `QuickBaseSchema` object
+	 *
+	 * @param obj A variable you'd like to test
+	 */
+	static IsQuickBaseSchema(obj: any): obj is QuickBaseSchema {
+		return ((obj || {}) as QuickBaseSchema).CLASS_NAME === QuickBaseSchema.CLASS_NAME;
+	}
+
+	private getTable(key: string): QuickBaseSchemaTable {
+		return this.manifest.tables.find((table) => getTableKey(table) === key)!;
+	}
+
+	private getUpdates(change: QuickBaseSchemaChange): Record<string, any> {
+		return change.differences.reduce((updates, { path, after }) => {
+			const [ attribute, property ] = path.split('.');
+
+			if(property !== undefined){
+				updates[attribute] = {
+					...(updates[attribute] || {}),
+					[property]: after
+				};
+			}else{
+				updates[attribute] = after;
+			}
+
+			return updates;
+		}, {} as Record<string, any>);
+	}
+
+	private validate() {
+		const tableKeys = this.manifest.tables.map(getTableKey);
+
+		tableKeys.forEach((key, i) => {
+			if(tableKeys.indexOf(key) !== i){
+				throw new TypeError(`Duplicate table key: ${key}`);
+			}
+		});
+
+		this.manifest.tables.forEach((table) => {
+			const fieldKeys = (table.fields || []).map(getFieldKey);
+
+			fieldKeys.forEach((key, i) => {
+				if(fieldKeys.indexOf(key) !== i){
+					throw new TypeError(`Duplicate field key in ${getTableKey(table)}: ${key}`);
+				}
+			});
+
+			(table.relationships || []).forEach((relationship) => {
+				if(tableKeys.indexOf(relationship.parentTable) === -1){
+					throw new TypeError(`Unknown parent table in ${getTableKey(table)}: ${relationship.parentTable}`);
+				}
+
+				const parentFieldKeys = (this.getTable(relationship.parentTable).fields || []).map(getFieldKey);
+
+				(relationship.lookupFields || []).forEach((fieldKey) => {
+					if(parentFieldKeys.indexOf(fieldKey) === -1){
+						throw new TypeError(`Unknown lookup field in ${relationship.parentTable}: ${fieldKey}`);
+					}
+				});
+			});
+		});
+	}
+
+}
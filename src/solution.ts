@@ -0,0 +1,451 @@
+'use strict';
+
+/* Dependencies */
+import type {
+	QuickBase,
+	QuickBaseResponseUpdateSolution
+} from './quickbase';
+import {
+	QuickBaseQBLDocument,
+	QuickBaseQBLTag,
+	parseQBL,
+	stringifyQBL
+} from './qbl';
+
+/* Types */
+export type QuickBaseSolutionOptions = {
+	/**
+	 * The `QuickBase` instance used for API calls
+	 */
+	quickbase: QuickBase;
+
+	/**
+	 * The unique identifier of the solution
+	 */
+	solutionId: string;
+
+	/**
+	 * The QBL version to export, defaults to the Quickbase default
+	 */
+	qblVersion?: string;
+};
+
+export type QuickBaseSolutionDifference = {
+	/**
+	 * Dot separated path of the changed value, relative to the resource
+	 */
+	path: string;
+	before: any;
+	after: any;
+};
+
+export type QuickBaseSolutionChange = {
+	action: 'add' | 'remove' | 'change';
+
+	/**
+	 * The resource kind, the last segment of its QBL type, for example `table`, `field` or `report`
+	 */
+	kind: string;
+
+	/**
+	 * The QBL type of the resource, for example `QB::Application::Table`
+	 */
+	type: string;
+
+	/**
+	 * The logical id of the resource, for example `$Table_Orders`
+	 */
+	id: string;
+
+	/**
+	 * Keys leading to the resource from the document root
+	 */
+	path: string[];
+
+	/**
+	 * The `Properties.Name` of the resource, if any
+	 */
+	name?: string;
+
+	/**
+	 * The changed values of a changed resource, nested resources are reported separately
+	 */
+	differences: QuickBaseSolutionDifference[];
+};
+
+export type QuickBaseSolutionPlan = {
+	solutionId: string;
+
+	/**
+	 * The QBL exported from Quickbase when the plan was created
+	 */
+	current: QuickBaseQBLDocument;
+
+	/**
+	 * The desired QBL
+	 */
+	desired: QuickBaseQBLDocument;
+
+	/**
+	 * The QBL sent to `updateSolution` when the plan is applied
+	 */
+	qbl: string;
+
+	changes: QuickBaseSolutionChange[];
+};
+
+export type QuickBaseSolutionApplyOptions = {
+	/**
+	 * Called with the plan before applying it, the plan is only applied if it resolves with `true`
+	 */
+	confirm?: (plan: QuickBaseSolutionPlan) => boolean | Promise<boolean>;
+
+	/**
+	 * Apply the plan without calling `confirm`
+	 */
+	autoApprove?: boolean;
+};
+
+export type QuickBaseSolutionApplyResult = {
+	applied: boolean;
+	plan: QuickBaseSolutionPlan;
+	results?: QuickBaseResponseUpdateSolution;
+};
+
+type QBLResource = {
+	path: string[];
+	type: string;
+	value: any;
+};
+
+/* Helpers */
+const ACTION_SYMBOLS: Record<QuickBaseSolutionChange['action'], string> = {
+	add: '+',
+	remove: '-',
+	change: '~'
+};
+
+const isObject = (value: any): value is Record<string, any> => {
+	return value !== null && typeof(value) === 'object' && !Array.isArray(value) && !QuickBaseQBLTag.IsQuickBaseQBLTag(value);
+};
+
+const isResource = (value: any) => {
+	return isObject(value) && typeof(value.Type) === 'string' && value.Type.startsWith('QB::');
+};
+
+const isEqual = (a: any, b: any): boolean => {
+	if(QuickBaseQBLTag.IsQuickBaseQBLTag(a) || QuickBaseQBLTag.IsQuickBaseQBLTag(b)){
+		return QuickBaseQBLTag.IsQuickBaseQBLTag(a) && QuickBaseQBLTag.IsQuickBaseQBLTag(b) && a.tag === b.tag && isEqual(a.value, b.value);
+	}
+
+	if(Array.isArray(a) || Array.isArray(b)){
+		return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+	}
+
+	if(isObject(a) && isObject(b)){
+		const keys = Object.keys(a);
+
+		return keys.length === Object.keys(b).length && keys.every((key) => {
+			return Object.prototype.hasOwnProperty.call(b, key) && isEqual(a[key], b[key]);
+		});
+	}
+
+	return a === b;
+};
+
+// Copy of a value without nested resources, containers left empty by the removal are dropped
+const stripResources = (value: any): any => {
+	if(isResource(value)){
+		return undefined;
+	}
+
+	if(!isObject(value)){
+		return value;
+	}
+
+	const entries = Object.entries(value).map(([ key, item ]) => {
+		return [ key, stripResources(item) ];
+	}).filter(([ , item ]) => {
+		return item !== undefined;
+	});
+
+	if(entries.length === 0 && Object.keys(value).length > 0){
+		return undefined;
+	}
+
+	return Object.fromEntries(entries);
+};
+
+const collectResources = (value: any, path: string[] = [], resources: Map<string, QBLResource> = new Map()) => {
+	if(!isObject(value)){
+		return resources;
+	}
+
+	if(isResource(value)){
+		resources.set(JSON.stringify(path), {
+			path,
+			type: value.Type,
+			value: stripResources({
+				...value,
+				Type: undefined
+			})
+		});
+	}
+
+	Object.entries(value).forEach(([ key, item ]) => {
+		collectResources(item, [ ...path, key ], resources);
+	});
+
+	return resources;
+};
+
+const diffValues = (before: any, after: any, path: string[] = [], differences: QuickBaseSolutionDifference[] = []) => {
+	if(isObject(before) && isObject(after)){
+		const keys = Object.keys(before).concat(Object.keys(after).filter((key) => {
+			return !Object.prototype.hasOwnProperty.call(before, key);
+		}));
+
+		keys.forEach((key) => {
+			diffValues(before[key], after[key], [ ...path, key ], differences);
+		});
+	}else
+	if(!isEqual(before, after)){
+		differences.push({
+			path: path.join('.'),
+			before,
+			after
+		});
+	}
+
+	return differences;
+};
+
+const formatValue = (value: any) => {
+	return value === undefined ? '(none)' : JSON.stringify(value);
+};
+
+const toChange = (action: QuickBaseSolutionChange['action'], resource: QBLResource, differences: QuickBaseSolutionDifference[] = []): QuickBaseSolutionChange => {
+	const name = resource.value && resource.value.Properties ? resource.value.Properties.Name : undefined;
+
+	return {
+		action,
+		kind: resource.type.split('::').pop()!.toLocaleLowerCase(),
+		type: resource.type,
+		id: resource.path[resource.path.length - 1],
+		path: resource.path,
+		name: typeof(name) === 'string' ? name : undefined,
+		differences
+	};
+};
+
+/* Functions */
+/**
+ * Compute the resource changes needed to turn one QBL document into another
+ *
+ * Every resource, any object with a `QB::` `Type`, is compared by its position in the document.
+ * Nested resources, such as the fields of a table, are reported as separate changes.
+ *
+ * @param current The current QBL, usually exported from Quickbase
+ * @param desired The desired QBL
+ */
+export const diffQBL = (current: string | QuickBaseQBLDocument, desired: string | QuickBaseQBLDocument): QuickBaseSolutionChange[] => {
+	const currentResources = collectResources(typeof(current) === 'string' ? parseQBL(current) : current);
+	const desiredResources = collectResources(typeof(desired) === 'string' ? parseQBL(desired) : desired);
+	const changes: QuickBaseSolutionChange[] = [];
+
+	currentResources.forEach((resource, key) => {
+		const desiredResource = desiredResources.get(key);
+
+		if(!desiredResource || desiredResource.type !== resource.type){
+			changes.push(toChange('remove', resource));
+
+			return;
+		}
+
+		const differences = diffValues(resource.value, desiredResource.value);
+
+		if(differences.length > 0){
+			changes.push(toChange('change', desiredResource, differences));
+		}
+	});
+
+	desiredResources.forEach((resource, key) => {
+		const currentResource = currentResources.get(key);
+
+		if(!currentResource || currentResource.type !== resource.type){
+			changes.push(toChange('add', resource));
+		}
+	});
+
+	return changes;
+};
+
+/**
+ * Format a plan as human readable text
+ *
+ * Example:
+ * ```
+ * Solution xxxxxxxx: 1 to add, 1 to change, 0 to remove
+ *
+ *   + field $Field_Orders_Notes (Notes)
+ *   ~ table $Table_Orders (Orders)
+ *       Properties.Description: "Old" -> "New"
+ * ```
+ *
+ * @param plan The plan to format
+ */
+export const formatQBLPlan = (plan: QuickBaseSolutionPlan): string => {
+	const count = (action: QuickBaseSolutionChange['action']) => {
+		return plan.changes.filter((change) => change.action === action).length;
+	};
+
+	const lines = [
+		`Solution ${plan.solutionId}: ${count('add')} to add, ${count('change')} to change, ${count('remove')} to remove`
+	];
+
+	if(plan.changes.length === 0){
+		return lines.concat('', 'No changes.').join('\n');
+	}
+
+	lines.push('');
+
+	plan.changes.forEach((change) => {
+		lines.push(`  ${ACTION_SYMBOLS[change.action]} ${change.kind} ${change.id}${change.name !== undefined ? ` (${change.name})` : ''}`);
+
+		change.differences.forEach(({ path, before, after }) => {
+			lines.push(`      ${path}: ${formatValue(before)} -> ${formatValue(after)}`);
+		});
+	});
+
+	return lines.join('\n');
+};
+
+/* Main Class */
+export class QuickBaseSolution {
+
+	public readonly CLASS_NAME: string = 'QuickBaseSolution';
+	static readonly CLASS_NAME: string = 'QuickBaseSolution';
+
+	public readonly quickbase: QuickBase;
+	public readonly solutionId: string;
+	public readonly qblVersion: string | undefined;
+
+	/**
+	 * Manage a Quickbase solution as code
+	 *
+	 * Plans compare the solution's current QBL against a desired QBL document, and are only applied
+	 * through `updateSolution` once confirmed.
+	 *
+	 * Example:
+	 * ```typescript
+	 * const solution = new QuickBaseSolution({
+	 * 	quickbase: qb,
+	 * 	solutionId: 'xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx'
+	 * });
+	 *
+	 * const plan = await solution.plan(await readFile('./solution.qbl.yaml', 'utf8'));
+	 *
+	 * console.log(formatQBLPlan(plan));
+	 *
+	 * await solution.apply(plan, {
+	 * 	confirm: async () => (await prompt('Apply? ')) === 'yes'
+	 * });
+	 * ```
+	 *
+	 * @param options Solution options
+	 */
+	constructor(options: QuickBaseSolutionOptions) {
+		this.quickbase = options.quickbase;
+		this.solutionId = options.solutionId;
+		this.qblVersion = options.qblVersion;
+	}
+
+	/**
+	 * Export the solution's current QBL as an object
+	 */
+	async export(): Promise<QuickBaseQBLDocument> {
+		return parseQBL(await this.quickbase.exportSolution({
+			solutionId: this.solutionId,
+			qblVersion: this.qblVersion
+		}));
+	}
+
+	/**
+	 * Compare the solution's current QBL against the desired QBL
+	 *
+	 * @param desired The desired QBL, either a YAML string or an object
+	 */
+	async plan(desired: string | QuickBaseQBLDocument): Promise<QuickBaseSolutionPlan> {
+		const current = await this.export();
+		const desiredDoc = typeof(desired) === 'string' ? parseQBL(desired) : desired;
+
+		return {
+			solutionId: this.solutionId,
+			current,
+			desired: desiredDoc,
+			qbl: stringifyQBL(desired),
+			changes: diffQBL(current, desiredDoc)
+		};
+	}
+
+	/**
+	 * Apply a plan through `updateSolution`
+	 *
+	 * Plans without changes are not applied. Unless `autoApprove` is set, `confirm` is required
+	 * and must resolve with `true`. The solution is exported again first and the plan is rejected
+	 * if the solution has changed since it was created.
+	 *
+	 * @param plan The plan to apply
+	 * @param options Apply options
+	 */
+	async apply(plan: QuickBaseSolutionPlan, { confirm, autoApprove = false }: QuickBaseSolutionApplyOptions = {}): Promise<QuickBaseSolutionApplyResult> {
+		if(plan.solutionId !== this.solutionId){
+			throw new Error(`Plan is for solution ${plan.solutionId}, not ${this.solutionId}`);
+		}
+
+		if(plan.changes.length === 0){
+			return {
+				applied: false,
+				plan
+			};
+		}
+
+		if(!autoApprove){
+			if(typeof(confirm) !== 'function'){
+				throw new TypeError('A `confirm` callback or `autoApprove: true` is required to apply a plan');
+			}
+
+			if(await confirm(plan) !== true){
+				return {
+					applied: false,
+					plan
+				};
+			}
+		}
+
+		if(diffQBL(plan.current, await this.export()).length > 0){
+			throw new Error('The solution has changed since the plan was created, create a new plan');
+		}
+
+		const results = await this.quickbase.updateSolution({
+			solutionId: this.solutionId,
+			qbl: plan.qbl
+		});
+
+		return {
+			applied: true,
+			plan,
+			results
+		};
+	}
+
+	/**
+	 * Test if a variable is a `QuickBaseSolution` object
+	 *
+	 * @param obj A variable you'd like to test
+	 */
+	static IsQuickBaseSolution(obj: any): obj is QuickBaseSolution {
+		return ((obj || {}) as QuickBaseSolution).CLASS_NAME === QuickBaseSolution.CLASS_NAME;
+	}
+
+}
@@ -0,0 +1,405 @@
+'use strict';
+
+/* Dependencies */
+import type {
+	QuickBase,
+	QuickBaseRecord,
+	QuickBaseRequestRunQuery,
+	QuickBaseRequestRunReport,
+	QuickBaseRequestUpsert,
+	QuickBaseResponseGetFields,
+	QuickBaseResponseRunQuery,
+	QuickBaseResponseRunReport,
+	QuickBaseResultUpsert
+} from './quickbase';
+
+/* Types */
+export type QuickBaseTableField = QuickBaseResponseGetFields[number];
+
+export type QuickBaseTableOptions<T extends object> = {
+	/**
+	 * The `QuickBase` instance used for API calls
+	 */
+	quickbase: QuickBase;
+
+	/**
+	 * The table identifier
+	 */
+	tableId: string;
+
+	/**
+	 * Object keys mapped to a field ID or field label
+	 *
+	 * Fields without an alias are keyed by their label
+	 */
+	aliases?: Partial<Record<keyof T, number | string>>;
+
+	/**
+	 * Preloaded `getFields` results, skips the `getFields` API call
+	 */
+	fields?: QuickBaseResponseGetFields;
+};
+
+export type QuickBaseTableRequestRunQuery<T extends object> = Omit<QuickBaseRequestRunQuery, 'tableId' | 'select' | 'returnAxios'> & {
+	select?: (keyof T)[];
+};
+
+export type QuickBaseTableRequestRunReport = Omit<QuickBaseRequestRunReport, 'tableId' | 'returnAxios'>;
+
+export type QuickBaseTableRequestUpsert<T extends object> = Omit<QuickBaseRequestUpsert, 'tableId' | 'data' | 'mergeFieldId' | 'fieldsToReturn' | 'returnAxios'> & {
+	data: Partial<T>[];
+	mergeField?: keyof T;
+	fieldsToReturn?: (keyof T)[];
+};
+
+export type QuickBaseTableResponseRunQuery<T extends object> = Omit<QuickBaseResponseRunQuery, 'data'> & {
+	data: T[];
+};
+
+export type QuickBaseTableResponseRunReport<T extends object> = Omit<QuickBaseResponseRunReport, 'data'> & {
+	data: T[];
+};
+
+export type QuickBaseTableResponseUpsert<T extends object> = Omit<QuickBaseResultUpsert, 'data'> & {
+	data: Partial<T>[];
+};
+
+/* Helpers */
+const NUMERIC_TYPES = [ 'numeric', 'currency', 'percent', 'rating', 'duration' ];
+const DATE_TYPES = [ 'date' ];
+const DATETIME_TYPES = [ 'datetime', 'timestamp' ];
+const ARRAY_TYPES = [ 'multiuser', 'multitext' ];
+
+const isEmpty = (value: any) => {
+	return value === null || value === undefined || value === '';
+};
+
+const padNumber = (value: number, length = 2) => {
+	return ('' + value).padStart(length, '0');
+};
+
+/**
+ * Convert a raw Quickbase field value into its JavaScript representation
+ *
+ * @param fieldType Quickbase field type
+ * @param value Raw value from the Quickbase API
+ */
+export const fromQuickBaseValue = (fieldType: string | undefined, value: any): any => {
+	if(fieldType === undefined){
+		return value;
+	}
+
+	if(NUMERIC_TYPES.indexOf(fieldType) !== -1){
+		return isEmpty(value) ? null : +value;
+	}
+
+	if(DATE_TYPES.indexOf(fieldType) !== -1 || DATETIME_TYPES.indexOf(fieldType) !== -1){
+		return isEmpty(value) ? null : new Date(value);
+	}
+
+	if(ARRAY_TYPES.indexOf(fieldType) !== -1){
+		if(isEmpty(value)){
+			return [];
+		}
+
+		return Array.isArray(value) ? value : [ value ];
+	}
+
+	if(fieldType === 'checkbox'){
+		return value === true || value === 'true' || value === 1 || value === '1';
+	}
+
+	return value;
+};
+
+/**
+ * Convert a JavaScript value into the representation expected by the Quickbase API
+ *
+ * @param fieldType Quickbase field type
+ * @param value JavaScript value
+ */
+export const toQuickBaseValue = (fieldType: string | undefined, value: any): any => {
+	if(fieldType === undefined || isEmpty(value)){
+		return value;
+	}
+
+	if(NUMERIC_TYPES.indexOf(fieldType) !== -1){
+		return +value;
+	}
+
+	if(value instanceof Date){
+		if(DATE_TYPES.indexOf(fieldType) !== -1){
+			return [
+				padNumber(value.getUTCFullYear(), 4),
+				padNumber(value.getUTCMonth() + 1),
+				padNumber(value.getUTCDate())
+			].join('-');
+		}
+
+		if(DATETIME_TYPES.indexOf(fieldType) !== -1){
+			return value.toISOString();
+		}
+	}
+
+	if(ARRAY_TYPES.indexOf(fieldType) !== -1 && !Array.isArray(value)){
+		return [ value ];
+	}
+
+	return value;
+};
+
+/* Main Class */
+export class QuickBaseTable<T extends object = Record<string, any>> {
+
+	public readonly CLASS_NAME: string = 'QuickBaseTable';
+	static readonly CLASS_NAME: string = 'QuickBaseTable';
+
+	public readonly quickbase: QuickBase;
+	public readonly tableId: string;
+
+	private aliases: Partial<Record<keyof T, number | string>>;
+	private fields: QuickBaseResponseGetFields | undefined;
+	private loading: Promise<QuickBaseResponseGetFields> | undefined;
+
+	private keysById: Map<number, keyof T> = new Map();
+	private fieldsByKey: Map<keyof T, QuickBaseTableField> = new Map();
+
+	/**
+	 * Maps records of a single table to and from objects keyed by field label or alias
+	 *
+	 * Field metadata is loaded once from `getFields` and used to convert values based on each
+	 * field's `fieldType`: numerics to `number`, dates to `Date`, checkboxes to `boolean` and
+	 * multi-user and multi-select text fields to arrays.
+	 *
+	 * Example:
+	 * ```typescript
+	 * const orders = new QuickBaseTable<{ recordId: number; customer: string; }>({
+	 * 	quickbase: qb,
+	 * 	tableId: 'xxxxxxxxx',
+	 * 	aliases: {
+	 * 		recordId: 3,
+	 * 		customer: 'Customer Name'
+	 * 	}
+	 * });
+	 *
+	 * const results = await orders.runQuery({ select: [ 'recordId', 'customer' ] });
+	 * ```
+	 *
+	 * @param options Table options
+	 */
+	constructor(options: QuickBaseTableOptions<T>) {
+		this.quickbase = options.quickbase;
+		this.tableId = options.tableId;
+		this.aliases = options.aliases || {};
+
+		if(options.fields){
+			this.setFields(options.fields);
+		}
+	}
+
+	/**
+	 * Load the table's fields, the `getFields` API call is only made once
+	 *
+	 * @param force If `true`, reload the fields even if they are already loaded
+	 */
+	async load(force = false): Promise<QuickBaseResponseGetFields> {
+		if(this.fields && !force){
+			return this.fields;
+		}
+
+		if(!this.loading || force){
+			this.loading = this.quickbase.getFields({
+				tableId: this.tableId
+			}).then((fields) => {
+				this.loading = undefined;
+
+				this.setFields(fields);
+
+				return fields;
+			}, (err) => {
+				this.loading = undefined;
+
+				throw err;
+			});
+		}
+
+		return this.loading;
+	}
+
+	/**
+	 * Get the field mapped to an object key
+	 *
+	 * @param key Object key, either an alias or a field label
+	 */
+	getField(key: keyof T): QuickBaseTableField {
+		this.assertLoaded();
+
+		const field = this.fieldsByKey.get(key);
+
+		if(!field){
+			throw new Error(`Unknown field: ${String(key)}`);
+		}
+
+		return field;
+	}
+
+	/**
+	 * Get the field ID mapped to an object key
+	 *
+	 * @param key Object key, either an alias or a field label
+	 */
+	getFieldId(key: keyof T): number {
+		return this.getField(key).id;
+	}
+
+	/**
+	 * Convert a field ID keyed Quickbase record into an object keyed by alias or label
+	 *
+	 * Values for fields unknown to the table are kept under their field ID.
+	 *
+	 * @param record Quickbase record
+	 */
+	fromRecord(record: QuickBaseRecord): T {
+		this.assertLoaded();
+
+		return Object.entries(record).reduce((obj, [ fieldId, { value } ]) => {
+			const key = this.keysById.get(+fieldId);
+
+			if(key === undefined){
+				obj[fieldId] = value;
+			}else{
+				obj[key as string] = fromQuickBaseValue(this.fieldsByKey.get(key)?.fieldType, value);
+			}
+
+			return obj;
+		}, {} as Record<string, any>) as T;
+	}
+
+	/**
+	 * Convert an object keyed by alias or label into a field ID keyed Quickbase record
+	 *
+	 * @param obj Object to convert
+	 */
+	toRecord(obj: Partial<T>): QuickBaseRecord {
+		this.assertLoaded();
+
+		return Object.entries(obj).reduce((record, [ key, value ]) => {
+			const field = this.getField(key as keyof T);
+
+			record[field.id] = {
+				value: toQuickBaseValue(field.fieldType, value)
+			};
+
+			return record;
+		}, {} as QuickBaseRecord);
+	}
+
+	/**
+	 * Query the table, returning mapped records
+	 *
+	 * @param options Query for data method options object, `select` takes object keys
+	 */
+	async runQuery({ select, ...options }: QuickBaseTableRequestRunQuery<T> = {}): Promise<QuickBaseTableResponseRunQuery<T>> {
+		await this.load();
+
+		const results = await this.quickbase.runQuery({
+			...options,
+			tableId: this.tableId,
+			select: select ? select.map((key) => this.getFieldId(key)) : undefined
+		});
+
+		return {
+			...results,
+			data: results.data.map((record) => this.fromRecord(record))
+		};
+	}
+
+	/**
+	 * Run a report on the table, returning mapped records
+	 *
+	 * @param options Run a report method options object
+	 */
+	async runReport(options: QuickBaseTableRequestRunReport): Promise<QuickBaseTableResponseRunReport<T>> {
+		await this.load();
+
+		const results = await this.quickbase.runReport({
+			...options,
+			tableId: this.tableId
+		});
+
+		return {
+			...results,
+			data: results.data.map((record) => this.fromRecord(record))
+		};
+	}
+
+	/**
+	 * Insert and/or update mapped records
+	 *
+	 * @param options Insert/Update record(s) method options object, `mergeField` and `fieldsToReturn` take object keys
+	 */
+	async upsert({ data, mergeField, fieldsToReturn, ...options }: QuickBaseTableRequestUpsert<T>): Promise<QuickBaseTableResponseUpsert<T>> {
+		await this.load();
+
+		const results = await this.quickbase.upsert({
+			...options,
+			tableId: this.tableId,
+			data: data.map((obj) => this.toRecord(obj)),
+			mergeFieldId: mergeField !== undefined ? this.getFieldId(mergeField) : undefined,
+			fieldsToReturn: fieldsToReturn ? fieldsToReturn.map((key) => this.getFieldId(key)) : undefined
+		});
+
+		return {
+			...results,
+			data: (results.data || []).map((record) => this.fromRecord(record))
+		};
+	}
+
+	/**
+	 * Test if a variable is a `QuickBaseTable` object
+	 *
+	 * @param obj A variable you'd like to test
+	 */
+	static IsQuickBaseTable(obj: any): obj is QuickBaseTable {
+		return ((obj || {}) as QuickBaseTable).CLASS_NAME === QuickBaseTable.CLASS_NAME;
+	}
+
+	private assertLoaded() {
+		if(!this.fields){
+			throw new Error('Table fields have not been loaded, call `load()` first');
+		}
+	}
+
+	private setFields(fields: QuickBaseResponseGetFields) {
+		const aliasesById = new Map<number, keyof T>();
+
+		Object.entries(this.aliases).forEach(([ alias, ref ]) => {
+			const field = fields.find((field) => {
+				return typeof(ref) === 'number' ? field.id === ref : field.label === ref;
+			});
+
+			if(!field){
+				throw new Error(`Unable to find field for alias ${alias}: ${ref}`);
+			}
+
+			aliasesById.set(field.id, alias as keyof T);
+		});
+
+		this.keysById.clear();
+		this.fieldsByKey.clear();
+
+		fields.forEach((field) => {
+			const key = aliasesById.get(field.id) || field.label as keyof T | undefined;
+
+			if(key === undefined){
+				return;
+			}
+
+			this.keysById.set(field.id, key);
+			this.fieldsByKey.set(key, field);
+		});
+
+		this.fields = fields;
+	}
+
+}
@@ -0,0 +1,471 @@
+'use strict';
+
+/* Dependencies */
+import ava from 'ava';
+import {
+	QuickBase,
+	QuickBaseAuthError,
+	QuickBaseAuthProvider,
+	QuickBaseSsoAuth,
+	QuickBaseTempTokenAuth,
+	QuickBaseTempTokenCache,
+	QuickBaseUserTokenAuth,
+	axiosTransport,
+	getRequestDbid
+} from '../quickbase';
+import { QuickBaseMockServer } from '../mock';
+
+/* Tests */
+const mockServer = new QuickBaseMockServer({
+	userTokens: [ 'valid' ],
+	tempTokenLifetime: 50
+});
+
+const qb = new QuickBase({
+	realm: 'mock',
+	userToken: 'valid'
+});
+
+let appId: string;
+let tableId: string;
+
+ava.serial.before(async () => {
+	qb.settings.server = await mockServer.listen();
+
+	appId = (await qb.createApp({ name: 'Auth App' })).id;
+	tableId = (await qb.createTable({ appId, name: 'Table' })).id;
+});
+
+ava.serial.after.always(async () => {
+	await mockServer.close();
+});
+
+ava.serial('getRequestDbid()', async (t) => {
+	t.is(getRequestDbid({ url: '/apps/bxxxxxxxx' }), 'bxxxxxxxx');
+	t.is(getRequestDbid({ url: '/fields', params: { tableId: 'bttttttttt' } }), 'bttttttttt');
+	t.is(getRequestDbid({ url: '/records/query', data: { from: 'bttttttttt' } }), 'bttttttttt');
+	t.is(getRequestDbid({ url: '/tables', params: { appId: 'bxxxxxxxx' } }), 'bxxxxxxxx');
+
+	return t.is(getRequestDbid({ url: '/apps' }), undefined);
+});
+
+ava.serial('QuickBaseUserTokenAuth - rotation', async (t) => {
+	const tokens = [ 'rotated', 'valid' ];
+	const nQb = new QuickBase({
+		server: qb.settings.server,
+		realm: 'mock',
+		auth: new QuickBaseUserTokenAuth({
+			userToken: () => tokens.shift() || ''
+		})
+	});
+
+	t.is((await nQb.getApp({ appId })).id, appId);
+
+	return t.is(tokens.length, 0);
+});
+
+ava.serial('QuickBaseUserTokenAuth - invalid', async (t) => {
+	const nQb = new QuickBase({
+		server: qb.settings.server,
+		realm: 'mock',
+		auth: new QuickBaseUserTokenAuth({
+			userToken: 'invalid'
+		})
+	});
+
+	return t.throwsAsync(() => nQb.getApp({ appId }), { instanceOf: QuickBaseAuthError });
+});
+
+ava.serial('QuickBaseTempTokenAuth', async (t) => {
+	const auth = new QuickBaseTempTokenAuth();
+	const nQb = new QuickBase({
+		server: qb.settings.server,
+		realm: 'mock',
+		auth
+	});
+
+	t.is((await nQb.getApp({ appId })).id, appId);
+	t.is((await nQb.getFields({ tableId })).length, 5);
+
+	await new Promise((resolve) => setTimeout(resolve, 100));
+
+	t.is((await nQb.getApp({ appId })).id, appId);
+
+	return t.true(QuickBaseTempTokenAuth.IsQuickBaseTempTokenAuth(nQb.settings.auth));
+});
+
+ava.serial('QuickBaseTempTokenAuth - renews before expiry', async (t) => {
+	const statuses: number[] = [];
+	const nQb = new QuickBase({
+		server: qb.settings.server,
+		realm: 'mock',
+		auth: new QuickBaseTempTokenAuth({
+			lifetime: 40,
+			renewBefore: 20
+		}),
+		transport: async (config) => {
+			try {
+				const results = await axiosTransport(config);
+
+				statuses.push(results.status);
+
+				return results;
+			}catch(err: any){
+				statuses.push(err.response.status);
+
+				throw err;
+			}
+		}
+	});
+
+	await nQb.getApp({ appId });
+	await new Promise((resolve) => setTimeout(resolve, 30));
+	await nQb.getApp({ appId });
+
+	return t.deepEqual(statuses, [ 200, 200, 200, 200 ]);
+});
+
+ava.serial('QuickBaseTempTokenAuth - permission denied', async (t) => {
+	const urls: string[] = [];
+	const nQb = new QuickBase({
+		server: qb.settings.server,
+		realm: 'mock',
+		auth: new QuickBaseTempTokenAuth(),
+		transport: async (config) => {
+			urls.push(config.url!);
+
+			if(config.url!.match(/^\/auth\//)){
+				return axiosTransport(config);
+			}
+
+			throw Object.assign(new Error('Request failed with status code 403'), {
+				config,
+				response: {
+					status: 403,
+					statusText: 'Forbidden',
+					headers: {},
+					config,
+					data: {
+						message: 'Forbidden',
+						description: 'User does not have permission'
+					}
+				}
+			});
+		}
+	});
+
+	await t.throwsAsync(() => nQb.getFields({ tableId }), { instanceOf: QuickBaseAuthError });
+
+	return t.deepEqual(urls, [ `/auth/temporary/${tableId}`, '/fields' ]);
+});
+
+ava.serial('QuickBaseTempTokenCache', async (t) => {
+	const cache = new QuickBaseTempTokenCache({
+		lifetime: 1000,
+		renewBefore: 100
+	});
+
+	t.true(cache.needsRenewal(appId));
+
+	cache.set(appId, 'app').set(tableId, 'table', Date.now() - 950);
+
+	t.is(cache.get(appId), 'app');
+	t.false(cache.needsRenewal(appId));
+
+	return t.true(cache.needsRenewal(tableId));
+});
+
+ava.serial('setTempToken() - per dbid', async (t) => {
+	const authorizations: string[] = [];
+	const nQb = new QuickBase({
+		server: qb.settings.server,
+		realm: 'mock',
+		transport: async (config) => {
+			authorizations.push('' + config.headers!.Authorization);
+
+			return axiosTransport(config);
+		}
+	});
+
+	const appToken = (await nQb.getTempTokenDBID({ dbid: appId })).temporaryAuthorization;
+	const tableToken = (await nQb.getTempTokenDBID({ dbid: tableId })).temporaryAuthorization;
+
+	authorizations.length = 0;
+
+	await nQb.getApp({ appId });
+	await nQb.getFields({ tableId });
+
+	return t.deepEqual(authorizations, [
+		`QB-TEMP-TOKEN ${appToken}`,
+		`QB-TEMP-TOKEN ${tableToken}`
+	]);
+});
+
+ava.serial('QuickBaseTempTokenCache - renew()', async (t) => {
+	const cache = new QuickBaseTempTokenCache();
+
+	let calls = 0;
+
+	const fetchToken = async () => {
+		await new Promise((resolve) => setTimeout(resolve, 10));
+
+		return `token.${++calls}`;
+	};
+
+	const tokens = await Promise.all([
+		cache.renew(appId, fetchToken),
+		cache.renew(appId, fetchToken),
+		cache.waitForRenewal(appId).then(() => cache.get(appId))
+	]);
+
+	t.deepEqual(tokens, [ 'token.1', 'token.1', 'token.1' ]);
+
+	return t.is(await cache.renew(appId, fetchToken), 'token.2');
+});
+
+ava.serial('setTempToken() - single renewal', async (t) => {
+	const urls: string[] = [];
+	const nQb = new QuickBase({
+		server: qb.settings.server,
+		realm: 'mock',
+		transport: async (config) => {
+			urls.push('' + config.url);
+
+			return axiosTransport(config);
+		}
+	});
+
+	await nQb.getTempTokenDBID({ dbid: appId });
+	await new Promise((resolve) => setTimeout(resolve, 100));
+
+	urls.length = 0;
+
+	const results = await Promise.all([ 1, 2, 3, 4, 5 ].map(() => nQb.getApp({ appId })));
+
+	t.true(results.every((app) => app.id === appId));
+
+	return t.is(urls.filter((url) => url.indexOf('auth/temporary') !== -1).length, 1);
+});
+
+ava.serial('setTempToken() - renews before expiry', async (t) => {
+	const statuses: string[] = [];
+	const nQb = new QuickBase({
+		server: qb.settings.server,
+		realm: 'mock',
+		transport: async (config) => {
+			try {
+				const results = await axiosTransport(config);
+
+				statuses.push(`${config.url} ${results.status}`);
+
+				return results;
+			}catch(err: any){
+				statuses.push(`${config.url} ${err.response.status}`);
+
+				throw err;
+			}
+		}
+	});
+
+	const { temporaryAuthorization } = await nQb.getTempTokenDBID({ dbid: appId });
+
+	// Within the renewal window of the settings cache, while the token is still valid
+	nQb['tempTokens'].set(appId, temporaryAuthorization, Date.now() - 290000);
+
+	statuses.length = 0;
+
+	const results = await Promise.all([ 1, 2, 3 ].map(() => nQb.getApp({ appId })));
+
+	t.true(results.every((app) => app.id === appId));
+
+	return t.deepEqual(statuses, [
+		`/auth/temporary/${appId} 200`,
+		`/apps/${appId} 200`,
+		`/apps/${appId} 200`,
+		`/apps/${appId} 200`
+	]);
+});
+
+ava.serial('QuickBaseSsoAuth', async (t) => {
+	const nQb = new QuickBase({
+		server: qb.settings.server,
+		realm: 'mock',
+		auth: new QuickBaseSsoAuth({
+			subjectToken: 'PHNhbWxwOlJlc3BvbnNlPjwvc2FtbHA6UmVzcG9uc2U-'
+		})
+	});
+
+	t.is((await nQb.getApp({ appId })).id, appId);
+
+	await new Promise((resolve) => setTimeout(resolve, 100));
+
+	return t.is((await nQb.getApp({ appId })).id, appId);
+});
+
+ava.serial('startSsoSession()', async (t) => {
+	const statuses: string[] = [];
+	const nQb = new QuickBase({
+		server: qb.settings.server,
+		realm: 'mock',
+		transport: async (config) => {
+			try {
+				const results = await axiosTransport(config);
+
+				statuses.push(`${config.url} ${results.status}`);
+
+				return results;
+			}catch(err: any){
+				statuses.push(`${config.url} ${err.response.status}`);
+
+				throw err;
+			}
+		}
+	});
+
+	let assertions = 0;
+
+	nQb.startSsoSession({
+		subjectToken: async () => `assertion.${++assertions}`
+	});
+
+	await Promise.all([ 1, 2, 3 ].map(() => nQb.getApp({ appId })));
+
+	t.is(assertions, 1);
+	t.is((nQb.settings.auth as QuickBaseSsoAuth).session!.issuedTokenType, 'urn:quickbase:params:oauth:token-type:temp_token');
+
+	await new Promise((resolve) => setTimeout(resolve, 100));
+
+	statuses.length = 0;
+
+	await nQb.getApp({ appId });
+
+	t.is(assertions, 2);
+
+	return t.deepEqual(statuses, [
+		`/apps/${appId} 401`,
+		'/auth/oauth/token 200',
+		`/apps/${appId} 200`
+	]);
+});
+
+ava.serial('QuickBaseSsoAuth - lifetime', async (t) => {
+	const auth = new QuickBaseSsoAuth({
+		subjectToken: 'assertion',
+		lifetime: 20
+	});
+
+	const nQb = new QuickBase({
+		server: qb.settings.server,
+		realm: 'mock',
+		auth
+	});
+
+	await nQb.getApp({ appId });
+
+	const token = auth.session!.token;
+
+	await new Promise((resolve) => setTimeout(resolve, 30));
+	await nQb.getApp({ appId });
+
+	return t.not(auth.session!.token, token);
+});
+
+ava.serial('QuickBaseSsoAuth - permission denied', async (t) => {
+	const urls: string[] = [];
+
+	let assertions = 0;
+
+	const nQb = new QuickBase({
+		server: qb.settings.server,
+		realm: 'mock',
+		auth: new QuickBaseSsoAuth({
+			subjectToken: async () => `assertion.${++assertions}`
+		}),
+		transport: async (config) => {
+			urls.push(config.url!);
+
+			if(config.url!.match(/^\/auth\//)){
+				return axiosTransport(config);
+			}
+
+			throw Object.assign(new Error('Request failed with status code 403'), {
+				config,
+				response: {
+					status: 403,
+					statusText: 'Forbidden',
+					headers: {},
+					config,
+					data: {
+						message: 'Forbidden',
+						description: 'User does not have permission'
+					}
+				}
+			});
+		}
+	});
+
+	await t.throwsAsync(() => nQb.getFields({ tableId }), { instanceOf: QuickBaseAuthError });
+
+	t.is(assertions, 1);
+
+	return t.deepEqual(urls, [ '/auth/oauth/token', '/fields' ]);
+});
+
+ava.serial('QuickBaseSsoAuth - temporary tickets', async (t) => {
+	return t.throws(() => new QuickBaseSsoAuth({
+		subjectToken: 'assertion',
+		requestedTokenType: 'urn:quickbase:params:oauth:token-type:temp_ticket'
+	}), { instanceOf: TypeError });
+});
+
+ava.serial('auth requests - outside of middleware and the connection limit', async (t) => {
+	const providers = [
+		new QuickBaseTempTokenAuth(),
+		new QuickBaseSsoAuth({
+			subjectToken: 'assertion'
+		})
+	];
+
+	for(const auth of providers){
+		const urls: string[] = [];
+		const nQb = new QuickBase({
+			server: qb.settings.server,
+			realm: 'mock',
+			auth,
+			connectionLimit: 1,
+			errorOnConnectionLimit: true
+		}).use(async (config, next) => {
+			urls.push('' + config.url);
+
+			return next(config);
+		});
+
+		t.is((await nQb.getApp({ appId })).id, appId);
+		t.deepEqual(urls, [ `/apps/${appId}` ]);
+	}
+});
+
+ava.serial('custom provider', async (t) => {
+	const operations: string[] = [];
+	const auth: QuickBaseAuthProvider = {
+		getHeaders: async ({ operationId }) => {
+			operations.push(operationId);
+
+			return {
+				Authorization: 'QB-USER-TOKEN valid'
+			};
+		},
+		refresh: async () => {},
+		onUnauthorized: async () => false
+	};
+
+	const nQb = new QuickBase({
+		server: qb.settings.server,
+		realm: 'mock',
+		auth
+	});
+
+	await nQb.getApp({ appId });
+
+	return t.deepEqual(operations, [ 'getApp' ]);
+});
@@ -0,0 +1,75 @@
+'use strict';
+
+/* Dependencies */
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { readFileSync, rmSync } from 'fs';
+import ava from 'ava';
+import { QuickBase, QuickBaseError } from '../quickbase';
+import { QuickBaseMockServer } from '../mock';
+
+/* Tests */
+const path = join(tmpdir(), `quickbase-fixtures-${process.pid}.json`);
+const mockServer = new QuickBaseMockServer();
+
+let server: string;
+let appId: string;
+
+ava.serial.before(async () => {
+	server = await mockServer.listen();
+});
+
+ava.serial.after.always(async () => {
+	await mockServer.close();
+
+	rmSync(path, {
+		force: true
+	});
+});
+
+ava.serial('record', async (t) => {
+	const qb = new QuickBase({
+		server,
+		realm: 'mock',
+		userToken: 'xxxxxx_xxx_xxxxxxxxxxxxxxxxxxxxxxxxxx',
+		fixtures: {
+			mode: 'record',
+			path
+		}
+	});
+
+	appId = (await qb.createApp({ name: 'Fixtures' })).id;
+
+	await qb.getTempTokenDBID({ dbid: appId });
+	await t.throwsAsync(() => qb.getApp({ appId: 'bxxxxxxxx' }), { instanceOf: QuickBaseError });
+
+	const fixtures = readFileSync(path).toString();
+
+	t.false(fixtures.includes('xxxxxx_xxx_xxxxxxxxxxxxxxxxxxxxxxxxxx'));
+	t.false(fixtures.includes(`mock.${appId}`));
+
+	return t.is(JSON.parse(fixtures).length, 3);
+});
+
+ava.serial('replay', async (t) => {
+	await mockServer.close();
+
+	const qb = new QuickBase({
+		realm: 'mock',
+		fixtures: {
+			mode: 'replay',
+			path
+		}
+	});
+
+	t.is((await qb.createApp({ name: 'Fixtures' })).id, appId);
+	t.is((await qb.getTempTokenDBID({ dbid: appId })).temporaryAuthorization, '[REDACTED]');
+
+	const err = await t.throwsAsync(() => qb.getApp({ appId: 'bxxxxxxxx' }), { instanceOf: QuickBaseError });
+
+	t.is((err as QuickBaseError).code, 404);
+
+	return t.throwsAsync(() => qb.getApp({ appId }), {
+		message: /No fixture recorded for GET \/apps\//
+	});
+});
@@ -0,0 +1,43 @@
+'use strict';
+
+/* Dependencies */
+import { execFileSync } from 'child_process';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { readFileSync, rmSync } from 'fs';
+import ava from 'ava';
+
+/* Tests */
+const out = join(tmpdir(), `quickbase-openapi3-${process.pid}.ts`);
+
+ava.serial.after.always(() => {
+	rmSync(out, {
+		force: true
+	});
+});
+
+ava.serial('generate - from OpenAPI 3', async (t) => {
+	execFileSync(process.execPath, [
+		require.resolve('ts-node/dist/bin'),
+		'./src/code-generation/generate.ts',
+		'./src/tests/fixtures/openapi3.json',
+		out
+	]);
+
+	const code = readFileSync(out).toString();
+	const requestTypes = code.match(/^export type QuickBaseRequest\w+ = QuickBaseRequest & \{[^]*?^\};/gm) || [];
+
+	t.deepEqual(requestTypes.map((type) => type.match(/QuickBaseRequest(\w+)/)![1]), [ 'GetApp', 'DeleteApp', 'RunQuery' ]);
+
+	t.true(code.includes('public async getApp({ appId, requestOptions, returnAxios = false }: QuickBaseRequestGetApp)'));
+	t.true(code.includes('public async deleteApp({ appId, requestOptions, returnAxios = false, ...body }: QuickBaseRequestDeleteApp)'));
+	t.true(code.includes('public async runQuery({ tableId, requestOptions, returnAxios = false, ...body }: QuickBaseRequestRunQuery)'));
+
+	t.regex(requestTypes[1], /\tname: string;/);
+	t.regex(requestTypes[2], /\ttableId: string;[^]*\twhere\?: string;[^]*\tselect\?: number\[\];/);
+
+	// Shared types are built from the operations that exist, `QuickBaseFieldPermission` needs `getField`
+	t.regex(code, /export type QuickBaseApp = \{[^}]*\tid: string;[^}]*\tname: string;/);
+
+	return t.false(code.includes('export type QuickBaseFieldPermission'));
+});
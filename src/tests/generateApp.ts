@@ -0,0 +1,51 @@
+'use strict';
+
+/* Dependencies */
+import { execFileSync } from 'child_process';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { readFileSync, rmSync } from 'fs';
+import ava from 'ava';
+import ts from 'typescript';
+
+/* Tests */
+const out = join(tmpdir(), `quickbase-app-${process.pid}.ts`);
+
+ava.serial.after.always(() => {
+	rmSync(out, {
+		force: true
+	});
+});
+
+ava.serial('generate-app - from snapshot', async (t) => {
+	execFileSync(process.execPath, [
+		require.resolve('ts-node/dist/bin'),
+		'./src/code-generation/generateApp.ts',
+		'--snapshot', './src/tests/fixtures/app.json',
+		'--out', out,
+		'--importFrom', resolve('./src/quickbase')
+	]);
+
+	const code = readFileSync(out).toString();
+
+	t.true(code.includes('export class OrdersTable extends QuickBaseTable<OrdersRecord>'));
+	t.true(code.includes('export class LineItemsTable extends QuickBaseTable<LineItemsRecord>'));
+	t.true(code.includes('\ttotal: 7,\n\ttotal8: 8,'));
+
+	const program = ts.createProgram([ out, './src/types/global.d.ts' ], {
+		target: ts.ScriptTarget.ES2018,
+		module: ts.ModuleKind.CommonJS,
+		moduleResolution: ts.ModuleResolutionKind.Node10,
+		lib: [ 'lib.es2018.d.ts', 'lib.dom.d.ts' ],
+		types: [ 'node' ],
+		strict: true,
+		esModuleInterop: true,
+		noEmit: true
+	});
+
+	const diagnostics = ts.getPreEmitDiagnostics(program).map((diagnostic) => {
+		return ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+	});
+
+	return t.deepEqual(diagnostics, []);
+});
@@ -0,0 +1,104 @@
+'use strict';
+
+/* Dependencies */
+import ava from 'ava';
+import { AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { QuickBase, QuickBaseError } from '../quickbase';
+
+/* Tests */
+const getQuickBase = (requests: AxiosRequestConfig[]) => {
+	return new QuickBase({
+		realm: 'www',
+		userToken: 'xxxxxx_xxx_xxxxxxxxxxxxxxxxxxxxxxxxxx',
+		transport: async (config) => {
+			requests.push(config);
+
+			const response: AxiosResponse = {
+				data: config.url === '/apps/missing' ? { message: 'Not Found', description: 'App not found' } : { id: config.url!.split('/').pop() },
+				status: config.url === '/apps/missing' ? 404 : 200,
+				statusText: '',
+				headers: {},
+				config: config as InternalAxiosRequestConfig
+			};
+
+			if(response.status !== 200){
+				throw Object.assign(new Error('Request failed'), { response });
+			}
+
+			return response;
+		}
+	});
+};
+
+ava.serial('use() - order and request changes', async (t) => {
+	const requests: AxiosRequestConfig[] = [];
+	const calls: string[] = [];
+	const qb = getQuickBase(requests).use(async (config, next) => {
+		calls.push('outer');
+
+		const results = await next({
+			...config,
+			headers: {
+				...config.headers,
+				'X-Tenant': 'acme'
+			}
+		});
+
+		calls.push('outer done');
+
+		return results;
+	}).use(async (config, next) => {
+		calls.push('inner');
+
+		return next(config);
+	});
+
+	const results = await qb.getApp({ appId: 'bxxxxxxxx' });
+
+	t.is(results.id, 'bxxxxxxxx');
+	t.deepEqual(calls, [ 'outer', 'inner', 'outer done' ]);
+
+	return t.is(requests[0].headers!['X-Tenant'], 'acme');
+});
+
+ava.serial('use() - short circuit', async (t) => {
+	const requests: AxiosRequestConfig[] = [];
+	const cache = new Map<string, any>();
+	const qb = getQuickBase(requests).use(async (config, next) => {
+		const key = `${config.method} ${config.url}`;
+
+		if(!cache.has(key)){
+			cache.set(key, await next(config));
+		}
+
+		return cache.get(key);
+	});
+
+	await qb.getApp({ appId: 'bxxxxxxxx' });
+
+	t.is((await qb.getApp({ appId: 'bxxxxxxxx' })).id, 'bxxxxxxxx');
+
+	return t.is(requests.length, 1);
+});
+
+ava.serial('use() - errors', async (t) => {
+	const qb = getQuickBase([]).use(async (config, next) => {
+		try {
+			return await next(config);
+		}catch(err){
+			if(err instanceof QuickBaseError && err.code === 404){
+				throw new Error(`Missing: ${config.url}`);
+			}
+
+			throw err;
+		}
+	});
+
+	return t.throwsAsync(() => qb.getApp({ appId: 'missing' }), {
+		message: 'Missing: /apps/missing'
+	});
+});
+
+ava.serial('use() - invalid middleware', async (t) => {
+	return t.throws(() => getQuickBase([]).use('log' as any), { instanceOf: TypeError });
+});
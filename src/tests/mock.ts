@@ -0,0 +1,182 @@
+'use strict';
+
+/* Dependencies */
+import ava from 'ava';
+import { QuickBase } from '../quickbase';
+import { QuickBaseMockServer } from '../mock';
+
+/* Tests */
+const mockServer = new QuickBaseMockServer({
+	userTokens: [ 'valid' ],
+	tempTokenLifetime: 50
+});
+
+const qb = new QuickBase({
+	realm: 'mock',
+	userToken: 'valid'
+});
+
+let appId: string;
+let parentId: string;
+let childId: string;
+
+ava.serial.before(async () => {
+	qb.settings.server = await mockServer.listen();
+
+	appId = (await qb.createApp({ name: 'Mock App' })).id;
+	parentId = (await qb.createTable({ appId, name: 'Customers' })).id;
+	childId = (await qb.createTable({ appId, name: 'Orders' })).id;
+
+	await qb.createField({ tableId: parentId, label: 'Name', fieldType: 'text' });
+	await qb.createField({ tableId: childId, label: 'Total', fieldType: 'numeric' });
+	await qb.createField({ tableId: childId, label: 'Attachment', fieldType: 'file' });
+});
+
+ava.serial.after.always(async () => {
+	await mockServer.close();
+});
+
+ava.serial('authentication', async (t) => {
+	const nQb = new QuickBase({
+		server: qb.settings.server,
+		realm: 'mock',
+		userToken: 'invalid'
+	});
+
+	await t.throwsAsync(() => nQb.getApp({ appId }), {
+		message: 'Unauthorized'
+	});
+
+	const tempQb = new QuickBase({
+		server: qb.settings.server,
+		realm: 'mock',
+		autoRenewTempTokens: false
+	});
+
+	await tempQb.getTempTokenDBID({ dbid: appId });
+
+	t.is((await tempQb.getApp({ appId })).id, appId);
+
+	await new Promise((resolve) => setTimeout(resolve, 100));
+
+	const err = await t.throwsAsync(() => tempQb.getApp({ appId }));
+
+	return t.is((err as any).description, 'Your ticket has expired.');
+});
+
+ava.serial('upsert() - line errors', async (t) => {
+	const results = await qb.upsert({
+		tableId: childId,
+		data: [{
+			6: { value: 1 }
+		}, {
+			99: { value: 1 }
+		}]
+	});
+
+	t.is(results.status, 207);
+	t.deepEqual(results.metadata.createdRecordIds, [ 1 ]);
+
+	return t.deepEqual(Object.keys(results.metadata.lineErrors), [ '2' ]);
+});
+
+ava.serial('runQuery() - where', async (t) => {
+	await qb.upsert({
+		tableId: childId,
+		data: [ 2, 3, 4 ].map((total) => ({
+			6: { value: total }
+		}))
+	});
+
+	const query = async (where: string) => {
+		const results = await qb.runQuery({
+			tableId: childId,
+			where,
+			select: [ 3 ],
+			sortBy: [{ fieldId: 6, order: 'DESC' }]
+		});
+
+		return results.data.map((record) => record[3].value);
+	};
+
+	t.deepEqual(await query('{6.GT.2}'), [ 4, 3 ]);
+	t.deepEqual(await query("{6.EX.'1'}OR({6.GTE.3}AND{6.XEX.4})"), [ 3, 1 ]);
+	t.deepEqual(await query('{1.IR.today}AND{6.LT.2}'), [ 1 ]);
+
+	return t.throwsAsync(() => query('{6.GT.2'), {
+		message: 'Bad Request'
+	});
+});
+
+ava.serial('relationships - lookup and summary values', async (t) => {
+	const { data: [ customer ] } = await qb.upsert({
+		tableId: parentId,
+		data: [{
+			6: { value: 'Acme' }
+		}]
+	});
+
+	const relationship = await qb.createRelationship({
+		parentTableId: parentId,
+		childTableId: childId,
+		lookupFieldIds: [ 6 ],
+		summaryFields: [{
+			summaryFid: 6,
+			label: 'Total Orders',
+			accumulationType: 'SUM'
+		}]
+	});
+
+	await qb.upsert({
+		tableId: childId,
+		data: [ 3, 4 ].map((recordId) => ({
+			3: { value: recordId },
+			[relationship.id]: { value: customer[3].value }
+		}))
+	});
+
+	const orders = await qb.runQuery({
+		tableId: childId,
+		where: `{${relationship.lookupFields[0].id}.EX.'Acme'}`,
+		select: [ 3 ]
+	});
+
+	const customers = await qb.runQuery({
+		tableId: parentId,
+		select: [ relationship.summaryFields[0].id ]
+	});
+
+	t.deepEqual(orders.data.map((record) => record[3].value), [ 3, 4 ]);
+
+	return t.is(customers.data[0][relationship.summaryFields[0].id].value, 7);
+});
+
+ava.serial('files', async (t) => {
+	await qb.upsert({
+		tableId: childId,
+		data: [{
+			3: { value: 1 },
+			7: { value: { fileName: 'hello.txt', data: 'SGVsbG8=' } }
+		}]
+	});
+
+	t.is(await qb.downloadFile({
+		tableId: childId,
+		recordId: 1,
+		fieldId: 7,
+		versionNumber: 0
+	}), 'SGVsbG8=');
+
+	const results = await qb.deleteFile({
+		tableId: childId,
+		recordId: 1,
+		fieldId: 7,
+		versionNumber: 1
+	});
+
+	return t.is(results.fileName, 'hello.txt');
+});
+
+ava.serial('IsQuickBaseMockServer()', async (t) => {
+	return t.true(QuickBaseMockServer.IsQuickBaseMockServer(mockServer));
+});
@@ -0,0 +1,49 @@
+'use strict';
+
+/* Dependencies */
+import ava from 'ava';
+import { QuickBaseQBLTag, parseQBL, stringifyQBL } from '../qbl';
+
+/* Tests */
+const qbl = [
+	'Solution:',
+	'  Id: 8d2c3333-7d32-4ece-8073-57106c465384',
+	'  ExportDate: 2024-03-25 12:04:05',
+	'Version: 0.2',
+	'Resources:',
+	'  $App_Example_app:',
+	'    Type: QB::Application',
+	'    Properties:',
+	'      Name: Example app',
+	'      Description:',
+	'      AppColor: \'#72509a\'',
+	'      RoleOrder:',
+	'        - !Ref',
+	'          Role: $Role_Viewer',
+	'        - !Ref $Role_Participant',
+	''
+].join('\n');
+
+ava.serial('parseQBL()', async (t) => {
+	const doc = parseQBL(qbl);
+	const app = doc.Resources!.$App_Example_app;
+
+	t.is(doc.Version, 0.2);
+	t.is(doc.Solution!.ExportDate, '2024-03-25 12:04:05');
+	t.is(app.Properties!.Description, null);
+	t.true(QuickBaseQBLTag.IsQuickBaseQBLTag(app.Properties!.RoleOrder[0]));
+
+	return t.deepEqual(app.Properties!.RoleOrder[1], new QuickBaseQBLTag('!Ref', '$Role_Participant'));
+});
+
+ava.serial('parseQBL() - errors', async (t) => {
+	return t.throws(() => parseQBL('Version: [0.2'));
+});
+
+ava.serial('stringifyQBL() - round trip', async (t) => {
+	return t.is(stringifyQBL(parseQBL(qbl)), qbl);
+});
+
+ava.serial('stringifyQBL() - strings', async (t) => {
+	return t.is(stringifyQBL('Version: 0.2'), 'Version: 0.2');
+});
@@ -0,0 +1,103 @@
+'use strict';
+
+/* Dependencies */
+import ava from 'ava';
+import { QuickBaseQuery, QuickBaseQueryParseError } from '../quickbase';
+
+/* Tests */
+ava.serial('condition()', async (t) => {
+	return t.is(QuickBaseQuery.EX(3, 1).toString(), "{3.EX.'1'}");
+});
+
+ava.serial('condition() - escaping', async (t) => {
+	return t.is(QuickBaseQuery.CT(6, "O'Brien}\\").toString(), "{6.CT.'O\\'Brien}\\\\'}");
+});
+
+ava.serial('condition() - values', async (t) => {
+	return t.truthy(
+		QuickBaseQuery.EX(7, true).toString() === "{7.EX.'true'}" &&
+		QuickBaseQuery.EX(7, null).toString() === "{7.EX.''}" &&
+		QuickBaseQuery.OAF(8, new Date(0)).toString() === "{8.OAF.'0'}"
+	);
+});
+
+ava.serial('condition() - invalid', async (t) => {
+	t.throws(() => QuickBaseQuery.EX(1.5, 'a'), { instanceOf: TypeError });
+
+	// @ts-expect-error
+	return t.throws(() => QuickBaseQuery.condition(3, 'NOPE', 'a'), { instanceOf: TypeError });
+});
+
+ava.serial('and()', async (t) => {
+	return t.is(QuickBaseQuery.GT(3, 0).and(QuickBaseQuery.CT(6, 'foo')).toString(), "{3.GT.'0'}AND{6.CT.'foo'}");
+});
+
+ava.serial('or() - nested', async (t) => {
+	const query = QuickBaseQuery.and(
+		QuickBaseQuery.or(
+			QuickBaseQuery.EX(6, 'a'),
+			QuickBaseQuery.EX(6, 'b')
+		),
+		QuickBaseQuery.IR(7, 'last 7 days')
+	);
+
+	return t.is(query.toString(), "({6.EX.'a'}OR{6.EX.'b'})AND{7.IR.'last 7 days'}");
+});
+
+ava.serial('and() - empty groups', async (t) => {
+	return t.is(QuickBaseQuery.and(QuickBaseQuery.or(), QuickBaseQuery.GT(3, 0)).toString(), "{3.GT.'0'}");
+});
+
+ava.serial('parse()', async (t) => {
+	const query = QuickBaseQuery.parse("{3.GT.0}AND{'6'.ct.'O\\'Brien'}");
+
+	return t.deepEqual(query.node, {
+		type: 'group',
+		conjunction: 'AND',
+		conditions: [{
+			type: 'condition',
+			fieldId: 3,
+			operator: 'GT',
+			value: '0'
+		}, {
+			type: 'condition',
+			fieldId: 6,
+			operator: 'CT',
+			value: "O'Brien"
+		}]
+	});
+});
+
+ava.serial('parse() - precedence and grouping', async (t) => {
+	t.is(QuickBaseQuery.parse("{1.EX.'a'}OR{2.EX.'b'} AND {3.EX.'c'}").toString(), "{1.EX.'a'}OR({2.EX.'b'}AND{3.EX.'c'})");
+
+	return t.is(QuickBaseQuery.parse("({1.EX.'a'}OR{2.EX.'b'})AND{3.EX.'c'}").toString(), "({1.EX.'a'}OR{2.EX.'b'})AND{3.EX.'c'}");
+});
+
+ava.serial('parse() - round trip', async (t) => {
+	const query = QuickBaseQuery.and(
+		QuickBaseQuery.or(QuickBaseQuery.EX(6, "a'b\\c"), QuickBaseQuery.SW(6, '}{')),
+		QuickBaseQuery.IR(7, 'last 7 days')
+	);
+
+	return t.deepEqual(QuickBaseQuery.parse(query.toString()).node, query.node);
+});
+
+ava.serial('parse() - errors', async (t) => {
+	const err = t.throws<QuickBaseQueryParseError>(() => QuickBaseQuery.parse("{3.GT.0}AND{6.NOPE.'a'}"), { instanceOf: QuickBaseQueryParseError });
+
+	t.is(err?.position, 14);
+	t.throws(() => QuickBaseQuery.parse("{3.GT.'0}"), { instanceOf: QuickBaseQueryParseError });
+	t.throws(() => QuickBaseQuery.parse("{3.GT.0}AND"), { instanceOf: QuickBaseQueryParseError });
+
+	return t.throws(() => QuickBaseQuery.parse("({3.GT.0}"), { instanceOf: QuickBaseQueryParseError });
+});
+
+ava.serial('remapFieldIds()', async (t) => {
+	const query = QuickBaseQuery.parse("{6.EX.'a'}AND{7.EX.'b'}AND{6.CT.'c'}").remapFieldIds({ 6: 16 });
+
+	t.deepEqual(query.getFieldIds(), [ 16, 7 ]);
+	t.throws(() => query.remapFieldIds({ 16: 26 }, true));
+
+	return t.is(query.toString(), "{16.EX.'a'}AND{7.EX.'b'}AND{16.CT.'c'}");
+});
@@ -3,17 +3,27 @@
 /* Dependencies */
 import * as dotenv from 'dotenv';
 import ava from 'ava';
+import { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 
-import { QuickBase, QuickBaseOptions } from '../quickbase';
+import {
+	QuickBase,
+	QuickBaseOptions,
+	QuickBaseUpsertManyError,
+	QuickBaseValidationError
+} from '../quickbase';
+import { QuickBaseMockServer } from '../mock';
 
 /* Tests */
 dotenv.config();
 
-const QB_REALM = process.env.QB_REALM;
-const QB_USERTOKEN = process.env.QB_USERTOKEN;
+const QB_MOCK = process.env.QB_MOCK === 'true';
+const QB_FIXTURES = process.env.QB_FIXTURES === 'record' || process.env.QB_FIXTURES === 'replay' ? process.env.QB_FIXTURES : undefined;
+const QB_OFFLINE = QB_MOCK || QB_FIXTURES === 'replay';
+const QB_REALM = QB_OFFLINE ? 'mock' : process.env.QB_REALM;
+const QB_USERTOKEN = QB_OFFLINE ? 'mock' : process.env.QB_USERTOKEN;
 
 if(!QB_REALM || !QB_USERTOKEN){
-	throw new Error('Please check your .env file');
+	throw new Error('Please check your .env file, or set QB_MOCK=true or QB_FIXTURES=replay to test offline');
 }
 
 const TEST_UTF_16 = process.env.TEST_UTF_16 === 'true';
@@ -28,6 +38,7 @@ const qbOptions: QuickBaseOptions = {
 	tempToken: '',
 	tempTokenDbid: '',
 	appToken: '',
+	auth: false,
 
 	userAgent: 'Testing',
 
@@ -37,11 +48,20 @@ const qbOptions: QuickBaseOptions = {
 	connectionLimitPeriod: 1000,
 	errorOnConnectionLimit: false,
 	retryOnQuotaExceeded: true,
+	retryPolicy: false,
 
-	proxy: false
+	proxy: false,
+
+	fixtures: QB_FIXTURES ? {
+		mode: QB_FIXTURES,
+		path: './src/tests/fixtures/quickbase.json'
+	} : false,
+
+	transport: process.env.QB_TRANSPORT === 'fetch' ? 'fetch' : 'axios'
 };
 
 const qb = new QuickBase(qbOptions);
+const mockServer = new QuickBaseMockServer();
 
 const testValue: string = 'test value' + (TEST_UTF_16 ? ' б, в, г, д, ж, з, к, л, м, н, п, р, с, т, ф, х, ц, ч, ш, щ, а, э, ы, у, о, я, е, ё, ю, и' : '');
 const testFile: string = 'SGVsbG8gV29ybGQhDQo=';
@@ -55,6 +75,12 @@ let newFileFid: number;
 let newRid: number;
 let newRelationship: number;
 
+ava.serial.before('mock server', async () => {
+	if(QB_MOCK){
+		qbOptions.server = qb.settings.server = await mockServer.listen();
+	}
+});
+
 ava.serial.after.always('deleteRecords()', async (t) => {
 	if(!newRid){
 		return t.pass();
@@ -129,6 +155,10 @@ ava.serial.after.always('deleteApp()', async (t) => {
 	return t.truthy(results.deletedAppId === newAppId);
 });
 
+ava.serial.after.always('mock server', async () => {
+	await mockServer.close();
+});
+
 ava.serial('toJSON()', async (t) => {
 	return t.truthy(JSON.stringify(qb.toJSON()) === JSON.stringify(qbOptions));
 });
@@ -394,7 +424,69 @@ ava.serial('upsert()', async (t) => {
 
 	newRid = results.metadata.createdRecordIds[0];
 
-	return t.truthy(newRid);
+	return t.truthy(newRid && results.status === 200);
+});
+
+ava.serial('upsertMany()', async (t) => {
+	const results = await qb.upsertMany({
+		tableId: newDbid,
+		data: [{
+			[newFid]: {
+				value: testValue
+			}
+		}, {
+			[newFid]: {
+				value: testValue
+			}
+		}],
+		batchSize: 1
+	});
+
+	return t.truthy(results.metadata.createdRecordIds.length === 2 && results.metadata.totalNumberOfRecordsProcessed === 2);
+});
+
+ava.serial('upsertMany() - failed batch', async (t) => {
+	let batches = 0;
+
+	const nQb = new QuickBase(qbOptions).use(async (config) => {
+		if(++batches === 2){
+			throw new QuickBaseValidationError(400, 'Bad Request', 'Invalid record', '', {
+				lineErrors: { 1: [ 'Invalid value' ] }
+			});
+		}
+
+		const response: AxiosResponse = {
+			data: {
+				data: [],
+				metadata: {
+					createdRecordIds: [ batches ],
+					totalNumberOfRecordsProcessed: 1
+				}
+			},
+			status: 200,
+			statusText: '',
+			headers: {},
+			config: config as InternalAxiosRequestConfig
+		};
+
+		return response;
+	});
+
+	const err = await t.throwsAsync<QuickBaseUpsertManyError>(() => nQb.upsertMany({
+		tableId: 'bxxxxxxxx',
+		data: [ {}, {}, {} ],
+		batchSize: 1
+	}), {
+		instanceOf: QuickBaseUpsertManyError
+	});
+
+	t.is(batches, 2);
+	t.is(err!.offset, 1);
+	t.is(err!.code, 400);
+	t.true(err!.error instanceof QuickBaseValidationError);
+	t.deepEqual(err!.lineErrors, { 2: [ 'Invalid value' ] });
+
+	return t.deepEqual(err!.results!.metadata.createdRecordIds, [ 1 ]);
 });
 
 ava.serial('runQuery()', async (t) => {
@@ -407,6 +499,35 @@ ava.serial('runQuery()', async (t) => {
 	return t.truthy(results.fields[0].id === newFid && results.data[0][newFid].value === testValue, `Expected values did not match: ${testValue} !== ${results.data[0][newFid].value}`);
 });
 
+ava.serial('iterateQuery()', async (t) => {
+	const pages = [];
+
+	for await (const page of qb.iterateQuery({
+		tableId: newDbid,
+		where: "{'3'.XEX.''}",
+		select: [ newFid ]
+	})){
+		pages.push(page);
+	}
+
+	return t.truthy(pages.length === 1 && pages[0].data[0][newFid].value === testValue);
+});
+
+ava.serial('queryAll()', async (t) => {
+	const records = [];
+
+	for await (const record of qb.queryAll({
+		tableId: newDbid,
+		where: "{'3'.XEX.''}",
+		select: [ newFid ],
+		maxRecords: 1
+	})){
+		records.push(record);
+	}
+
+	return t.truthy(records.length === 1 && records[0][newFid].value === testValue);
+});
+
 ava.serial('runReport()', async (t) => {
 	const results = await qb.runReport({
 		tableId: newDbid,
@@ -428,6 +549,33 @@ ava.serial('runReport() - returnAxios', async (t) => {
 	return t.truthy(data.data[0][newFid].value === testValue);
 });
 
+ava.serial('iterateReport()', async (t) => {
+	const pages = [];
+
+	for await (const page of qb.iterateReport({
+		tableId: newDbid,
+		reportId: '1'
+	})){
+		pages.push(page);
+	}
+
+	return t.truthy(pages.length === 1 && pages[0].data[0][newFid].value === testValue);
+});
+
+ava.serial('reportAll()', async (t) => {
+	const records = [];
+
+	for await (const record of qb.reportAll({
+		tableId: newDbid,
+		reportId: '1',
+		maxRecords: 1
+	})){
+		records.push(record);
+	}
+
+	return t.truthy(records.length === 1 && records[0][newFid].value === testValue);
+});
+
 ava.serial('createRelationship()', async (t) => {
 	const results = await qb.createRelationship({
 		parentTableId: newDbid,
@@ -2,7 +2,18 @@
 
 /* Dependencies */
 import ava from 'ava';
-import { QuickBaseError } from '../quickbase';
+import { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import {
+	QuickBase,
+	QuickBaseAuthError,
+	QuickBaseError,
+	QuickBaseNetworkError,
+	QuickBaseNotFoundError,
+	QuickBaseOutcomeUnknownError,
+	QuickBaseRateLimitError,
+	QuickBaseUpsertManyError,
+	QuickBaseValidationError
+} from '../quickbase';
 
 /* Tests */
 const errObj = {
@@ -33,3 +44,105 @@ ava.serial('FromJSON()', async (t) => {
 
 	return t.truthy(JSON.stringify(nQbErr.toJSON()) === JSON.stringify(errObj));
 });
+
+ava.serial('subclasses - toJSON() and fromJSON()', async (t) => {
+	const details = {
+		operationId: 'upsert',
+		method: 'POST',
+		url: '/records',
+		attempt: 2
+	};
+
+	const errors = [
+		new QuickBaseAuthError(401, 'Unauthorized', 'Your ticket has expired.', 'xxxx', details),
+		new QuickBaseNotFoundError(404, 'Not Found', 'Table not found', 'xxxx', details),
+		new QuickBaseRateLimitError(429, 'Too Many Requests', '', 'xxxx', { ...details, retryAfter: 1000 }),
+		new QuickBaseValidationError(400, 'Bad Request', '', 'xxxx', { ...details, lineErrors: { 1: [ 'Invalid value' ] } }),
+		new QuickBaseNetworkError(0, 'socket hang up', '', '', { ...details, errorCode: 'ECONNRESET' }),
+		new QuickBaseOutcomeUnknownError(0, 'The outcome of upsert is unknown: socket hang up', '', '', { ...details, errorCode: 'ECONNRESET' }),
+		new QuickBaseUpsertManyError(400, 'Batch at offset 1 failed: Bad Request', '', 'xxxx', {
+			...details,
+			lineErrors: { 2: [ 'Invalid value' ] },
+			offset: 1,
+			results: {
+				status: 200,
+				data: [],
+				metadata: {
+					createdRecordIds: [ 1 ],
+					lineErrors: {},
+					unchangedRecordIds: [],
+					updatedRecordIds: [],
+					totalNumberOfRecordsProcessed: 1
+				}
+			},
+			error: new QuickBaseValidationError(400, 'Bad Request', '', 'xxxx', { ...details, lineErrors: { 1: [ 'Invalid value' ] } })
+		})
+	];
+
+	errors.forEach((err) => {
+		const nQbErr = QuickBaseError.fromJSON(JSON.stringify(err));
+
+		t.is(nQbErr.constructor, err.constructor);
+		t.deepEqual(nQbErr.toJSON(), err.toJSON());
+	});
+
+	t.is((errors[2] as QuickBaseRateLimitError).retryAfter, 1000);
+	t.true((QuickBaseError.fromJSON(JSON.stringify(errors[6])) as QuickBaseUpsertManyError).error instanceof QuickBaseValidationError);
+
+	return t.is(errors[5].toJSON().outcomeUnknown, true);
+});
+
+ava.serial('subclasses - thrown by QuickBase', async (t) => {
+	const responses: any[] = [
+		[ 404, {}, {} ],
+		[ 429, { 'Retry-After': '2' }, {} ],
+		[ 400, {}, { metadata: { lineErrors: { 2: [ 'Incompatible value' ] } } } ],
+		Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' })
+	];
+
+	const qb = new QuickBase({
+		realm: 'www',
+		userToken: 'xxxxxx_xxx_xxxxxxxxxxxxxxxxxxxxxxxxxx',
+		retryOnQuotaExceeded: false,
+		transport: async (config) => {
+			const next = responses.shift();
+
+			if(next instanceof Error){
+				throw next;
+			}
+
+			const [ status, headers, data ] = next;
+			const response: AxiosResponse = {
+				data: { message: 'Failure', description: '', ...data },
+				status,
+				statusText: '',
+				headers,
+				config: config as InternalAxiosRequestConfig
+			};
+
+			throw Object.assign(new Error('Request failed'), { response });
+		}
+	});
+
+	const notFound = await t.throwsAsync(() => qb.getApp({ appId: 'bxxxxxxxx' }), { instanceOf: QuickBaseNotFoundError });
+
+	t.like(notFound, {
+		code: 404,
+		operationId: 'getApp',
+		method: 'GET',
+		url: '/apps/bxxxxxxxx',
+		attempt: 1
+	});
+
+	const rateLimit = await t.throwsAsync(() => qb.getApp({ appId: 'bxxxxxxxx' }), { instanceOf: QuickBaseRateLimitError });
+
+	t.is((rateLimit as QuickBaseRateLimitError).retryAfter, 2000);
+
+	const validation = await t.throwsAsync(() => qb.upsert({ tableId: 'bxxxxxxxx', data: [] }), { instanceOf: QuickBaseValidationError });
+
+	t.deepEqual((validation as QuickBaseValidationError).lineErrors, { 2: [ 'Incompatible value' ] });
+
+	const network = await t.throwsAsync(() => qb.getApp({ appId: 'bxxxxxxxx' }), { instanceOf: QuickBaseNetworkError });
+
+	return t.is((network as QuickBaseNetworkError).errorCode, 'ECONNRESET');
+});
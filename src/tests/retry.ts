@@ -0,0 +1,172 @@
+'use strict';
+
+/* Dependencies */
+import ava from 'ava';
+import { AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import {
+	QuickBase,
+	QuickBaseError,
+	QuickBaseNetworkError,
+	QuickBaseOutcomeUnknownError,
+	QuickBaseRetryInfo,
+	QuickBaseRetryPolicy
+} from '../quickbase';
+
+/* Tests */
+const getQuickBase = (failures: any[], retryPolicy: QuickBaseRetryPolicy | false) => {
+	const requests: AxiosRequestConfig[] = [];
+	const qb = new QuickBase({
+		realm: 'www',
+		userToken: 'xxxxxx_xxx_xxxxxxxxxxxxxxxxxxxxxxxxxx',
+		retryPolicy,
+		transport: async (config) => {
+			requests.push(config);
+
+			const failure = failures.shift();
+
+			if(typeof(failure) === 'number'){
+				const response: AxiosResponse = {
+					data: { message: 'Failure', description: '' },
+					status: failure,
+					statusText: '',
+					headers: failure === 429 ? { 'Retry-After': '0' } : {},
+					config: config as InternalAxiosRequestConfig
+				};
+
+				throw Object.assign(new Error('Request failed'), { response });
+			}
+
+			if(failure){
+				throw failure;
+			}
+
+			const response: AxiosResponse = {
+				data: { id: 'bxxxxxxxx' },
+				status: 200,
+				statusText: '',
+				headers: {},
+				config: config as InternalAxiosRequestConfig
+			};
+
+			return response;
+		}
+	});
+
+	return { qb, requests };
+};
+
+ava.serial('retryPolicy - statuses and error codes', async (t) => {
+	const retries: QuickBaseRetryInfo[] = [];
+	const { qb, requests } = getQuickBase([ 503, Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }) ], {
+		baseDelay: 1,
+		onRetry: (info) => {
+			retries.push(info);
+		}
+	});
+
+	t.is((await qb.getApp({ appId: 'bxxxxxxxx' })).id, 'bxxxxxxxx');
+	t.is(requests.length, 3);
+	t.deepEqual(retries.map(({ attempt }) => attempt), [ 1, 2 ]);
+
+	return t.true(retries[0].error instanceof QuickBaseError);
+});
+
+ava.serial('retryPolicy - maxAttempts', async (t) => {
+	const { qb, requests } = getQuickBase([ 429, 429, 429, 429 ], {
+		maxAttempts: 3
+	});
+
+	const err = await t.throwsAsync(() => qb.getApp({ appId: 'bxxxxxxxx' }), { instanceOf: QuickBaseError });
+
+	t.is((err as QuickBaseError).code, 429);
+
+	return t.is(requests.length, 3);
+});
+
+ava.serial('retryPolicy - not retried', async (t) => {
+	const { qb, requests } = getQuickBase([ 400, Object.assign(new Error('Invalid'), { code: 'ERR_INVALID' }) ], {
+		baseDelay: 1
+	});
+
+	await t.throwsAsync(() => qb.getApp({ appId: 'bxxxxxxxx' }), { instanceOf: QuickBaseError });
+	await t.throwsAsync(() => qb.getApp({ appId: 'bxxxxxxxx' }), { message: 'Invalid' });
+
+	return t.is(requests.length, 2);
+});
+
+ava.serial('retryPolicy - deadline', async (t) => {
+	const { qb, requests } = getQuickBase([ 500, 500, 500 ], {
+		baseDelay: 100,
+		jitter: false,
+		deadline: 150
+	});
+
+	await t.throwsAsync(() => qb.getApp({ appId: 'bxxxxxxxx' }), { instanceOf: QuickBaseError });
+
+	return t.is(requests.length, 2);
+});
+
+ava.serial('retryPolicy - reads', async (t) => {
+	const { qb, requests } = getQuickBase([ Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }) ], {
+		baseDelay: 1
+	});
+
+	await qb.runQuery({ tableId: 'bxxxxxxxx' });
+
+	return t.is(requests.length, 2);
+});
+
+ava.serial('retryPolicy - unsafe writes', async (t) => {
+	const { qb, requests } = getQuickBase([ 429, Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }), 500 ], {
+		baseDelay: 1
+	});
+
+	const err = await t.throwsAsync(() => qb.upsert({ tableId: 'bxxxxxxxx', data: [] }), { instanceOf: QuickBaseOutcomeUnknownError });
+
+	t.is((err as QuickBaseOutcomeUnknownError).operationId, 'upsert');
+	t.is((err as QuickBaseOutcomeUnknownError).errorCode, 'ECONNRESET');
+
+	await t.throwsAsync(() => qb.createApp({ name: 'Test' }), { instanceOf: QuickBaseError });
+
+	return t.is(requests.length, 3);
+});
+
+ava.serial('retryPolicy - unsafe writes without a policy', async (t) => {
+	const { qb, requests } = getQuickBase([
+		Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }),
+		Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' })
+	], false);
+
+	await t.throwsAsync(() => qb.createApp({ name: 'Test' }), { instanceOf: QuickBaseOutcomeUnknownError });
+
+	const err = await t.throwsAsync(() => qb.createApp({ name: 'Test' }), { instanceOf: QuickBaseNetworkError });
+
+	t.false(err instanceof QuickBaseOutcomeUnknownError);
+
+	return t.is(requests.length, 2);
+});
+
+ava.serial('retryPolicy - unsent writes', async (t) => {
+	const { qb, requests } = getQuickBase([
+		Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }),
+		Object.assign(new Error('getaddrinfo EAI_AGAIN'), { code: 'EAI_AGAIN' }),
+		Object.assign(new Error('Request aborted'), { code: 'ECONNABORTED' })
+	], {
+		baseDelay: 1,
+		maxAttempts: 5
+	});
+
+	await t.throwsAsync(() => qb.upsert({ tableId: 'bxxxxxxxx', data: [] }), { instanceOf: QuickBaseOutcomeUnknownError });
+
+	return t.is(requests.length, 3);
+});
+
+ava.serial('retryPolicy - safe writes', async (t) => {
+	const { qb, requests } = getQuickBase([ Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }) ], {
+		baseDelay: 1
+	});
+
+	await qb.upsert({ tableId: 'bxxxxxxxx', data: [], mergeFieldId: 6 });
+
+	return t.is(requests.length, 2);
+});
@@ -0,0 +1,242 @@
+'use strict';
+
+/* Dependencies */
+import ava from 'ava';
+import { QuickBase, QuickBaseSchema, QuickBaseSchemaManifest, formatSchemaChangeset } from '../quickbase';
+
+/* Tests */
+const manifest: QuickBaseSchemaManifest = {
+	tables: [{
+		key: 'customers',
+		name: 'Customers',
+		fields: [{
+			key: 'name',
+			label: 'Customer Name',
+			fieldType: 'text'
+		}]
+	}, {
+		key: 'orders',
+		name: 'Orders',
+		description: 'All orders',
+		fields: [{
+			key: 'total',
+			label: 'Order Total',
+			fieldType: 'currency',
+			properties: {
+				decimalPlaces: 3
+			}
+		}, {
+			key: 'notes',
+			label: 'Notes',
+			fieldType: 'text-multi-line'
+		}],
+		relationships: [{
+			parentTable: 'customers',
+			foreignKeyField: 'Related Customer',
+			lookupFields: [ 'name' ]
+		}]
+	}]
+};
+
+const getQuickBase = (calls: [ string, any ][]) => {
+	const fields: Record<string, any[]> = {
+		bqcustomer: [
+			{ id: 1, label: 'Record ID#', fieldType: 'recordid' },
+			{ id: 6, label: 'Customer Name', fieldType: 'text' }
+		],
+		bqorders: [
+			{ id: 1, label: 'Record ID#', fieldType: 'recordid' },
+			{ id: 6, label: 'Total', fieldType: 'currency', properties: { decimalPlaces: 2 } },
+			{ id: 7, label: 'Legacy', fieldType: 'text' }
+		]
+	};
+
+	const record = (name: string) => async (options: any) => {
+		calls.push([ name, options ]);
+
+		return { id: name === 'createField' ? 8 : 1 };
+	};
+
+	return {
+		getAppTables: async () => [
+			{ id: 'bqcustomer', name: 'Customers' },
+			{ id: 'bqorders', name: 'Orders', description: '' }
+		],
+		getFields: async ({ tableId }: { tableId: string; }) => fields[tableId],
+		getRelationships: async () => ({ relationships: [] }),
+		createTable: record('createTable'),
+		updateTable: record('updateTable'),
+		createField: record('createField'),
+		updateField: record('updateField'),
+		deleteFields: record('deleteFields'),
+		createRelationship: record('createRelationship'),
+		updateRelationship: record('updateRelationship')
+	} as unknown as QuickBase;
+};
+
+const state = {
+	tables: {},
+	fields: {
+		orders: {
+			total: 6
+		}
+	}
+};
+
+ava.serial('plan()', async (t) => {
+	const schema = new QuickBaseSchema({
+		quickbase: getQuickBase([]),
+		appId: 'bqapp',
+		manifest,
+		state
+	});
+
+	const changeset = await schema.plan();
+
+	t.deepEqual(changeset.state, {
+		tables: {
+			customers: 'bqcustomer',
+			orders: 'bqorders'
+		},
+		fields: {
+			customers: {
+				name: 6
+			},
+			orders: {
+				total: 6
+			}
+		}
+	});
+
+	return t.is(formatSchemaChangeset(changeset), [
+		'App bqapp: 2 to add, 2 to change, 0 to remove',
+		'',
+		'  ~ table orders (Orders)',
+		'      description: "" -> "All orders"',
+		'  ~ field orders.total (Order Total)',
+		'      label: "Total" -> "Order Total"',
+		'      properties.decimalPlaces: 2 -> 3',
+		'  + field orders.notes (Notes)',
+		'  + relationship orders -> customers'
+	].join('\n'));
+});
+
+ava.serial('sync() - dry run', async (t) => {
+	const calls: [ string, any ][] = [];
+	const schema = new QuickBaseSchema({
+		quickbase: getQuickBase(calls),
+		appId: 'bqapp',
+		manifest,
+		state,
+		prune: true
+	});
+
+	const results = await schema.sync();
+
+	t.false(results.applied);
+	t.is(results.changeset.changes.filter((change) => change.action === 'remove').length, 1);
+
+	return t.is(calls.length, 0);
+});
+
+ava.serial('sync()', async (t) => {
+	const calls: [ string, any ][] = [];
+	const schema = new QuickBaseSchema({
+		quickbase: getQuickBase(calls),
+		appId: 'bqapp',
+		manifest,
+		state,
+		prune: true
+	});
+
+	const results = await schema.sync({ dryRun: false });
+
+	t.true(results.applied);
+	t.deepEqual(results.state.fields.orders, {
+		total: 6,
+		notes: 8
+	});
+
+	return t.deepEqual(calls, [
+		[ 'updateTable', { appId: 'bqapp', tableId: 'bqorders', description: 'All orders' } ],
+		[ 'updateField', { tableId: 'bqorders', fieldId: 6, label: 'Order Total', properties: { decimalPlaces: 3 } } ],
+		[ 'createField', { label: 'Notes', fieldType: 'text-multi-line', tableId: 'bqorders' } ],
+		[ 'createRelationship', { childTableId: 'bqorders', parentTableId: 'bqcustomer', foreignKeyField: { label: 'Related Customer' }, lookupFieldIds: [ 6 ] } ],
+		[ 'deleteFields', { tableId: 'bqorders', fieldIds: [ 7 ] } ]
+	]);
+});
+
+ava.serial('sync() - converges', async (t) => {
+	const fields: any[] = [
+		{ id: 1, label: 'Record ID#', fieldType: 'recordid' }
+	];
+
+	const quickbase = {
+		getAppTables: async () => [
+			{ id: 'bqorders', name: 'Orders' }
+		],
+		getFields: async () => fields,
+		getRelationships: async () => ({ relationships: [] }),
+		createField: async ({ tableId, required, unique, ...options }: any) => {
+			if(required !== undefined || unique !== undefined){
+				throw new Error('createField does not accept required or unique');
+			}
+
+			fields.push({
+				...options,
+				id: fields.length + 6
+			});
+
+			return fields[fields.length - 1];
+		},
+		updateField: async ({ tableId, fieldId, ...options }: any) => {
+			Object.assign(fields.find((field) => field.id === fieldId), options);
+
+			return {};
+		}
+	} as unknown as QuickBase;
+
+	const options = {
+		quickbase,
+		appId: 'bqapp',
+		manifest: {
+			tables: [{
+				key: 'orders',
+				name: 'Orders',
+				fields: [{
+					key: 'number',
+					label: 'Order Number',
+					fieldType: 'text',
+					required: true,
+					unique: true
+				}]
+			}]
+		} as QuickBaseSchemaManifest
+	};
+
+	const { state } = await new QuickBaseSchema(options).sync({ dryRun: false });
+
+	t.like(fields[1], { label: 'Order Number', required: true, unique: true });
+
+	const changeset = await new QuickBaseSchema({ ...options, state }).plan();
+
+	return t.deepEqual(changeset.changes, []);
+});
+
+ava.serial('constructor() - invalid manifest', async (t) => {
+	t.throws(() => new QuickBaseSchema({
+		quickbase: getQuickBase([]),
+		appId: 'bqapp',
+		manifest: {
+			tables: [{ name: 'Orders' }, { name: 'Orders' }]
+		}
+	}), { instanceOf: TypeError });
+
+	return t.throws(() => new QuickBaseSchema({
+		quickbase: getQuickBase([]),
+		appId: 'bqapp',
+		manifest: {
+			tables: [{ name: 'Orders', relationships: [{ parentTable: 'Customers' }] }]
+		}
+	}), { instanceOf: TypeError });
+});
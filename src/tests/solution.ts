@@ -0,0 +1,133 @@
+'use strict';
+
+/* Dependencies */
+import ava from 'ava';
+import { QuickBase } from '../quickbase';
+import { QuickBaseSolution, diffQBL, formatQBLPlan } from '../solution';
+
+/* Tests */
+const current = [
+	'Version: 0.2',
+	'Resources:',
+	'  $App_Orders:',
+	'    Type: QB::Application',
+	'    Properties:',
+	'      Name: Orders',
+	'    Tables:',
+	'      $Table_Orders:',
+	'        Type: QB::Application::Table',
+	'        Properties:',
+	'          Name: Orders',
+	'          Description: Old',
+	'        Fields:',
+	'          $Field_Orders_Total:',
+	'            Type: QB::Table::Field',
+	'            Properties:',
+	'              Name: Total',
+	'        Reports:',
+	'          $Report_Orders_List:',
+	'            Type: QB::Table::Report',
+	'            Properties:',
+	'              Name: List All',
+	''
+].join('\n');
+
+const desired = [
+	'Version: 0.2',
+	'Resources:',
+	'  $App_Orders:',
+	'    Type: QB::Application',
+	'    Properties:',
+	'      Name: Orders',
+	'    Tables:',
+	'      $Table_Orders:',
+	'        Type: QB::Application::Table',
+	'        Properties:',
+	'          Name: Orders',
+	'          Description: New',
+	'        Fields:',
+	'          $Field_Orders_Total:',
+	'            Type: QB::Table::Field',
+	'            Properties:',
+	'              Name: Total',
+	'          $Field_Orders_Notes:',
+	'            Type: QB::Table::Field',
+	'            Properties:',
+	'              Name: Notes',
+	''
+].join('\n');
+
+const getSolution = (exported: string, updates: string[]) => {
+	return new QuickBaseSolution({
+		quickbase: {
+			exportSolution: async () => exported,
+			updateSolution: async ({ qbl }: { qbl: string; }) => {
+				updates.push(qbl);
+			}
+		} as unknown as QuickBase,
+		solutionId: 'xxxxxxxx'
+	});
+};
+
+ava.serial('diffQBL()', async (t) => {
+	const changes = diffQBL(current, desired);
+
+	return t.deepEqual(changes.map(({ action, kind, id, differences }) => ({ action, kind, id, differences })), [{
+		action: 'change',
+		kind: 'table',
+		id: '$Table_Orders',
+		differences: [{
+			path: 'Properties.Description',
+			before: 'Old',
+			after: 'New'
+		}]
+	}, {
+		action: 'remove',
+		kind: 'report',
+		id: '$Report_Orders_List',
+		differences: []
+	}, {
+		action: 'add',
+		kind: 'field',
+		id: '$Field_Orders_Notes',
+		differences: []
+	}]);
+});
+
+ava.serial('diffQBL() - no changes', async (t) => {
+	return t.deepEqual(diffQBL(current, current), []);
+});
+
+ava.serial('formatQBLPlan()', async (t) => {
+	const plan = await getSolution(current, []).plan(desired);
+
+	return t.is(formatQBLPlan(plan), [
+		'Solution xxxxxxxx: 1 to add, 1 to change, 1 to remove',
+		'',
+		'  ~ table $Table_Orders (Orders)',
+		'      Properties.Description: "Old" -> "New"',
+		'  - report $Report_Orders_List (List All)',
+		'  + field $Field_Orders_Notes (Notes)'
+	].join('\n'));
+});
+
+ava.serial('apply() - confirmation', async (t) => {
+	const updates: string[] = [];
+	const solution = getSolution(current, updates);
+	const plan = await solution.plan(desired);
+
+	await t.throwsAsync(() => solution.apply(plan), { instanceOf: TypeError });
+
+	t.false((await solution.apply(plan, { confirm: () => false })).applied);
+	t.is(updates.length, 0);
+
+	t.true((await solution.apply(plan, { confirm: () => true })).applied);
+
+	return t.deepEqual(updates, [ desired ]);
+});
+
+ava.serial('apply() - stale plan', async (t) => {
+	const plan = await getSolution(current, []).plan(desired);
+
+	return t.throwsAsync(() => getSolution(desired, []).apply(plan, { autoApprove: true }));
+});
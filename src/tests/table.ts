@@ -0,0 +1,83 @@
+'use strict';
+
+/* Dependencies */
+import ava from 'ava';
+import { QuickBase, QuickBaseTable } from '../quickbase';
+
+/* Tests */
+type Order = {
+	recordId: number;
+	customer: string;
+	Total: number;
+	'Ship Date': Date;
+	Shipped: boolean;
+	Watchers: { id: string; }[];
+};
+
+const table = new QuickBaseTable<Order>({
+	quickbase: new QuickBase(),
+	tableId: 'xxxxxxxxx',
+	aliases: {
+		recordId: 3,
+		customer: 'Customer Name'
+	},
+	fields: [
+		{ id: 3, label: 'Record ID#', fieldType: 'recordid' },
+		{ id: 6, label: 'Customer Name', fieldType: 'text' },
+		{ id: 7, label: 'Total', fieldType: 'currency' },
+		{ id: 8, label: 'Ship Date', fieldType: 'date' },
+		{ id: 9, label: 'Shipped', fieldType: 'checkbox' },
+		{ id: 10, label: 'Watchers', fieldType: 'multiuser' }
+	]
+});
+
+ava.serial('getFieldId()', async (t) => {
+	t.is(table.getFieldId('recordId'), 3);
+	t.is(table.getFieldId('Total'), 7);
+
+	// @ts-expect-error
+	return t.throws(() => table.getFieldId('Record ID#'));
+});
+
+ava.serial('fromRecord()', async (t) => {
+	return t.deepEqual(table.fromRecord({
+		3: { value: 1 },
+		6: { value: 'Acme' },
+		7: { value: '12.5' },
+		8: { value: '2024-05-08' },
+		9: { value: true },
+		10: { value: null },
+		11: { value: 'unknown' }
+	}), {
+		recordId: 1,
+		customer: 'Acme',
+		Total: 12.5,
+		'Ship Date': new Date(Date.UTC(2024, 4, 8)),
+		Shipped: true,
+		Watchers: [],
+		11: 'unknown'
+	});
+});
+
+ava.serial('toRecord()', async (t) => {
+	return t.deepEqual(table.toRecord({
+		customer: 'Acme',
+		Total: 12.5,
+		'Ship Date': new Date(Date.UTC(2024, 4, 8)),
+		Watchers: [{ id: '1' }]
+	}), {
+		6: { value: 'Acme' },
+		7: { value: 12.5 },
+		8: { value: '2024-05-08' },
+		10: { value: [{ id: '1' }] }
+	});
+});
+
+ava.serial('load() - required', async (t) => {
+	const unloaded = new QuickBaseTable({
+		quickbase: new QuickBase(),
+		tableId: 'xxxxxxxxx'
+	});
+
+	return t.throws(() => unloaded.fromRecord({}));
+});
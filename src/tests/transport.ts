@@ -0,0 +1,135 @@
+'use strict';
+
+/* Dependencies */
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import ava from 'ava';
+import {
+	QuickBase,
+	QuickBaseError,
+	QuickBaseNetworkError,
+	QuickBaseOutcomeUnknownError,
+	QuickBaseTransport,
+	getTransport
+} from '../quickbase';
+import { QuickBaseMockServer } from '../mock';
+
+/* Tests */
+const mockServer = new QuickBaseMockServer();
+
+const qb = new QuickBase({
+	realm: 'mock',
+	userToken: 'mock',
+	transport: 'fetch'
+});
+
+ava.serial.before(async () => {
+	qb.settings.server = await mockServer.listen();
+});
+
+ava.serial.after.always(async () => {
+	await mockServer.close();
+});
+
+ava.serial('fetch', async (t) => {
+	const app = await qb.createApp({ name: 'Transport' });
+	const table = await qb.createTable({ appId: app.id, name: 'Table' });
+	const tables = await qb.getAppTables({ appId: app.id });
+
+	t.is(tables[0].id, table.id);
+
+	const results = await qb.getApp({
+		appId: app.id,
+		returnAxios: true
+	});
+
+	t.is(results.status, 200);
+
+	return t.is(results.headers['content-type'], 'application/json; charset=utf-8');
+});
+
+ava.serial('fetch - errors', async (t) => {
+	const err = await t.throwsAsync(() => qb.getApp({ appId: 'bxxxxxxxx' }), { instanceOf: QuickBaseError });
+
+	t.is((err as QuickBaseError).code, 404);
+
+	return t.truthy((err as QuickBaseError).rayId);
+});
+
+ava.serial('fetch - timeout', async (t) => {
+	const server = createServer(() => {
+		// Never respond
+	});
+
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+	try {
+		await t.throwsAsync(() => qb.getApp({
+			appId: 'bxxxxxxxx',
+			requestOptions: {
+				timeout: 50,
+				baseURL: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`
+			}
+		}), { message: /timeout/ });
+	}finally{
+		server.closeAllConnections();
+		server.close();
+	}
+});
+
+ava.serial('fetch - network errors', async (t) => {
+	const nQb = new QuickBase({
+		realm: 'mock',
+		userToken: 'mock',
+		transport: 'fetch',
+		retryPolicy: {
+			baseDelay: 1
+		}
+	});
+
+	const originalFetch = globalThis.fetch;
+	let requests = 0;
+
+	globalThis.fetch = async () => {
+		++requests;
+
+		throw new TypeError('Failed to fetch');
+	};
+
+	try {
+		const err = await t.throwsAsync(() => nQb.getApp({ appId: 'bxxxxxxxx' }), { instanceOf: QuickBaseNetworkError });
+
+		t.is((err as QuickBaseNetworkError).errorCode, 'ERR_NETWORK');
+		t.is(requests, 3);
+
+		await t.throwsAsync(() => nQb.createApp({ name: 'Transport' }), { instanceOf: QuickBaseOutcomeUnknownError });
+	}finally{
+		globalThis.fetch = originalFetch;
+	}
+
+	return t.is(requests, 4);
+});
+
+ava.serial('custom transport', async (t) => {
+	const urls: string[] = [];
+	const transport: QuickBaseTransport = async (config) => {
+		urls.push(`${config.method} ${config.url}`);
+
+		return getTransport('fetch')(config);
+	};
+
+	const nQb = new QuickBase({
+		server: qb.settings.server,
+		realm: 'mock',
+		userToken: 'mock',
+		transport
+	});
+
+	await nQb.createApp({ name: 'Custom' });
+
+	return t.deepEqual(urls, [ 'POST /apps' ]);
+});
+
+ava.serial('getTransport()', async (t) => {
+	return t.throws(() => getTransport('xhr' as 'fetch'), { instanceOf: TypeError });
+});
@@ -0,0 +1,178 @@
+'use strict';
+
+/* Dependencies */
+import axios, {
+	AxiosRequestConfig,
+	AxiosResponse,
+	InternalAxiosRequestConfig
+} from 'axios';
+
+/* Types */
+/**
+ * Sends a single HTTP request
+ *
+ * Resolves with a response shaped like an `AxiosResponse`. Rejects with an error carrying the same
+ * shaped `response` if the status fails `validateStatus`, which is how Quickbase API errors are detected.
+ */
+export type QuickBaseTransport = <T = any>(config: AxiosRequestConfig) => Promise<AxiosResponse<T>>;
+
+/* Helpers */
+const defaultValidateStatus = (status: number) => {
+	return status >= 200 && status < 300;
+};
+
+const buildURL = ({ baseURL, url, params }: AxiosRequestConfig): string => {
+	const path = url || '';
+	const fullURL = !baseURL || path.match(/^https?:\/\//i) ? path : `${baseURL.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+	const search = new URLSearchParams();
+
+	Object.entries(params || {}).forEach(([ key, value ]) => {
+		if(value !== undefined && value !== null){
+			search.append(key, '' + value);
+		}
+	});
+
+	const query = search.toString();
+
+	return query ? `${fullURL}${fullURL.indexOf('?') === -1 ? '?' : '&'}${query}` : fullURL;
+};
+
+const buildHeaders = (headers: AxiosRequestConfig['headers']): Record<string, string> => {
+	return Object.entries(headers || {}).reduce((results, [ key, value ]) => {
+		if(value !== undefined && value !== null && value !== false){
+			results[key] = '' + value;
+		}
+
+		return results;
+	}, {} as Record<string, string>);
+};
+
+/* Transport Error */
+export class QuickBaseTransportError extends Error {
+
+	/**
+	 * Thrown by the `fetch` transport when a response status fails `validateStatus`
+	 *
+	 * @param message Error message
+	 * @param config The request configuration
+	 * @param response The response, shaped like an `AxiosResponse`
+	 */
+	constructor(public message: string, public config: AxiosRequestConfig, public response: AxiosResponse) {
+		super(message);
+	}
+
+}
+
+/* Transports */
+/**
+ * Send requests with axios, the default transport
+ */
+export const axiosTransport: QuickBaseTransport = (config) => {
+	return axios.request(config);
+};
+
+/**
+ * Send requests with the native Fetch API, for runtimes without Node.js or XMLHttpRequest
+ *
+ * Supports `baseURL`, `url`, `params`, `method`, `headers`, `data`, `timeout`, `signal`,
+ * `withCredentials`, `responseType` and `validateStatus`. Other axios options, such as `proxy`, are ignored.
+ */
+export const fetchTransport: QuickBaseTransport = async <T = any>(config: AxiosRequestConfig) => {
+	const controller = new AbortController();
+	const signal = config.signal as AbortSignal | undefined;
+	const onAbort = () => controller.abort(signal && signal.reason);
+	const timeout = config.timeout ? setTimeout(() => {
+		controller.abort(Object.assign(new Error(`timeout of ${config.timeout}ms exceeded`), {
+			code: 'ECONNABORTED'
+		}));
+	}, config.timeout) : undefined;
+
+	if(signal){
+		if(signal.aborted){
+			onAbort();
+		}else{
+			signal.addEventListener('abort', onAbort);
+		}
+	}
+
+	try {
+		const res = await fetch(buildURL(config), {
+			method: (config.method || 'GET').toUpperCase(),
+			headers: buildHeaders(config.headers),
+			body: config.data === undefined || typeof(config.data) === 'string' ? config.data : JSON.stringify(config.data),
+			credentials: config.withCredentials ? 'include' : 'same-origin',
+			signal: controller.signal
+		});
+
+		const text = await res.text();
+		const headers: Record<string, string> = {};
+
+		res.headers.forEach((value, key) => {
+			headers[key] = value;
+		});
+
+		let data: any = text;
+
+		if(config.responseType !== 'text' && text){
+			try {
+				data = JSON.parse(text);
+			}catch(err){
+				// Not a JSON body, keep the text as is
+			}
+		}
+
+		const response: AxiosResponse<T> = {
+			data,
+			status: res.status,
+			statusText: res.statusText,
+			headers,
+			config: config as InternalAxiosRequestConfig,
+			request: {}
+		};
+
+		if(!(config.validateStatus || defaultValidateStatus)(res.status)){
+			throw new QuickBaseTransportError(`Request failed with status code ${res.status}`, config, response);
+		}
+
+		return response;
+	}catch(err: any){
+		if(controller.signal.aborted || err instanceof QuickBaseTransportError){
+			throw err;
+		}
+
+		// Browsers and edge runtimes reject with a bare `TypeError`, given a code as axios does
+		throw Object.assign(err, {
+			code: err.code || (err.cause && err.cause.code) || 'ERR_NETWORK'
+		});
+	}finally{
+		if(timeout !== undefined){
+			clearTimeout(timeout);
+		}
+
+		if(signal){
+			signal.removeEventListener('abort', onAbort);
+		}
+	}
+};
+
+/* Functions */
+/**
+ * Resolve the `transport` option of a `QuickBase` instance into a transport function
+ *
+ * @param transport `axios`, `fetch` or a custom transport function
+ */
+export const getTransport = (transport: 'axios' | 'fetch' | QuickBaseTransport): QuickBaseTransport => {
+	if(typeof(transport) === 'function'){
+		return transport;
+	}
+
+	if(transport === 'fetch'){
+		return fetchTransport;
+	}
+
+	if(transport === 'axios'){
+		return axiosTransport;
+	}
+
+	throw new TypeError(`Unknown transport: ${transport}`);
+};